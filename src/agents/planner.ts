@@ -1,13 +1,26 @@
-import { Agent } from "@opperai/agents";
 import { z } from "zod";
 import type { SpecIndex } from "../spec-index.js";
 import { createSpecTools } from "../tools.js";
+import type { Guide } from "../guides.js";
+import type { LlmBackend } from "../backends/types.js";
 
 const SectionSchema = z.object({
   id: z.string().describe("Unique section identifier, e.g. 'overview', 'auth', 'tag:users'"),
   title: z.string().describe("Human-readable section title"),
   outputPath: z.string().describe("Relative file path, e.g. 'index.md', 'endpoints/users.md'"),
-  type: z.enum(["overview", "auth", "endpoint-group", "schemas", "errors"]),
+  type: z.enum([
+    "overview",
+    "quickstart",
+    "auth",
+    "concepts",
+    "endpoint-group",
+    "webhooks",
+    "pagination",
+    "rate-limits",
+    "versioning",
+    "schemas",
+    "errors",
+  ]),
   description: z.string().describe("Brief description of what this section should cover"),
   group: z.string().optional().describe("Navigation group name for sidebar grouping, e.g. 'Compatibility', 'Core'. Sections with the same group are grouped together in the nav. Leave empty for top-level sections like overview, auth, schemas, errors."),
   relatedTags: z.array(z.string()).optional().describe("Tags this section depends on"),
@@ -24,15 +37,38 @@ export type Section = z.infer<typeof SectionSchema>;
 
 export function createPlanningAgent(
   specIndex: SpecIndex,
-  options: { instructions?: string; model?: string }
+  options: {
+    backend: LlmBackend;
+    instructions?: string;
+    model?: string;
+    sectionIds?: string[];
+    locked?: Section[];
+    guides?: Guide[];
+    baseline?: DocPlan;
+  }
 ) {
-  const tools = createSpecTools(specIndex);
+  const tools = createSpecTools(specIndex, { guides: options.guides });
 
   const userInstructions = options.instructions
     ? `\n\nUser instructions for documentation style:\n${options.instructions}`
     : "";
 
-  return new Agent<string, DocPlan>({
+  // Overrides are keyed by section id, so those ids must not drift
+  const configuredIds = options.sectionIds?.length
+    ? `\n\nThe user has configured these section ids. When you plan a section that matches one, use that exact id: ${options.sectionIds.join(", ")}`
+    : "";
+
+  // Locked pages are never rewritten, so their sections must survive as they are
+  const locked = options.locked?.length
+    ? `\n\nThese sections are locked: their pages were reviewed and must not change. Include each in your plan exactly as given, and plan no other section with their outputPaths:\n${JSON.stringify(options.locked, null, 2)}`
+    : "";
+
+  // Renamed ids and moved paths miss the cache, so keep the last run's structure
+  const baseline = options.baseline
+    ? `\n\nThe docs were planned before, and the spec's structure has changed since. Start from the previous plan below. Keep every section's id, outputPath, title, group and order where the section still applies. Add sections only for what is new (e.g. a new tag), and drop sections whose tags or features are gone.\n\nPrevious plan:\n${JSON.stringify(options.baseline.sections, null, 2)}`
+    : "";
+
+  return options.backend.createAgent<string, DocPlan>({
     name: "doc-planner",
     instructions: `You are an API documentation architect. Analyze the OpenAPI spec using the available tools and decide the optimal documentation structure.
 
@@ -41,21 +77,29 @@ Rules:
 - Include an "authentication" section if security schemes exist (outputPath: "authentication.md")
 - Create one "endpoint-group" section per tag, using outputPath: "endpoints/{tag-slug}.md"
 - Group untagged endpoints under a section with relatedTags: ["untagged"]
+- Include a "webhooks" section if the spec defines webhooks or operation callbacks (outputPath: "webhooks.md"); set relatedSchemas to the payload schemas they use
 - Include a "schemas" section if there are schemas (outputPath: "schemas.md")
 - Include an "errors" section if endpoints define error responses (outputPath: "errors.md")
+- Include a "quickstart" section (outputPath: "quickstart.md") when the API has endpoints a new user can call end to end; set relatedTags to the tags it walks through
+- Call detect_patterns before adding concept pages, and only add one when it reports the pattern:
+  - "pagination" (outputPath: "pagination.md") when it reports pagination parameters or response fields
+  - "rate-limits" (outputPath: "rate-limits.md") when it reports rate limit headers or 429 responses
+  - "versioning" (outputPath: "versioning.md") when it reports versioned URLs, version headers or version parameters
+- Include "concepts" sections (outputPath: "concepts/{slug}.md") only for domain ideas the spec's descriptions explain and that span several endpoint groups; set relatedTags and relatedSchemas to what they explain
 - Each section must declare its relatedTags and relatedSchemas so we can compute content hashes
 - For endpoint-group sections, set relatedTags to the tag name and relatedSchemas to schemas referenced by those endpoints
 - Use lowercase kebab-case for file paths
-- Order sections logically: overview first, then auth, then endpoint groups, then schemas, then errors
+- Order sections logically: overview first, then quickstart, auth, concepts, endpoint groups, webhooks, pagination, rate-limits, versioning, schemas, then errors
+- If list_guides returns hand-written guides, don't plan sections that duplicate them and never use their outputPaths; mention related guides in section descriptions so writers link to them
 
 Navigation grouping:
 - Use the "group" field to organize endpoint sections into logical groups in the sidebar
 - Analyze the API structure and group related endpoints together (e.g. OpenAI-compatible endpoints, resource CRUD endpoints, utility endpoints)
-- Top-level sections (overview, auth, schemas, errors) should NOT have a group
+- Top-level sections (overview, quickstart, auth, concepts, webhooks, pagination, rate-limits, versioning, schemas, errors) should NOT have a group
 - Only endpoint-group sections should have a group
 - Choose short, descriptive group names
 
-Use the tools to explore the spec before deciding on the structure.${userInstructions}`,
+Use the tools to explore the spec before deciding on the structure. Use search_spec to find cross-cutting patterns (e.g. pagination parameters) without reading every tag.${userInstructions}${configuredIds}${locked}${baseline}`,
     tools: tools.all,
     model: options.model,
     outputSchema: DocPlanSchema,
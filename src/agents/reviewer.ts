@@ -0,0 +1,60 @@
+import { z } from "zod";
+import type { SpecIndex } from "../spec-index.js";
+import type { DocPlan, Section } from "./planner.js";
+import { createSpecTools } from "../tools.js";
+import type { Guide } from "../guides.js";
+import type { LlmBackend } from "../backends/types.js";
+
+const ReviewSchema = z.object({
+  score: z
+    .number()
+    .min(0)
+    .max(10)
+    .describe("Overall quality from 0 (unusable) to 10 (ready to publish as is)"),
+  issues: z
+    .array(
+      z.object({
+        category: z.enum(["accuracy", "completeness", "tone", "links"]),
+        message: z.string().describe("What is wrong and how to fix it, specific enough to act on"),
+      })
+    )
+    .describe("Problems found, most important first. Empty if there is nothing to fix."),
+});
+
+export type Review = z.infer<typeof ReviewSchema>;
+
+export interface ReviewerInput {
+  section: Section;
+  plan: DocPlan;
+  /** The section's markdown as written */
+  markdown: string;
+}
+
+export function createReviewerAgent(
+  specIndex: SpecIndex,
+  options: { backend: LlmBackend; instructions?: string; model?: string; guides?: Guide[] }
+) {
+  const tools = createSpecTools(specIndex, { guides: options.guides });
+
+  const userInstructions = options.instructions
+    ? `\n\nUser instructions the section was written against:\n${options.instructions}`
+    : "";
+
+  return options.backend.createAgent<ReviewerInput, Review>({
+    name: "doc-reviewer",
+    instructions: `You are a senior technical editor reviewing one section of generated API documentation before it is published.
+
+Check the section against the spec using the tools:
+- accuracy: every endpoint, parameter, field, type, enum value, status code and auth detail matches the spec; nothing is invented
+- completeness: everything the section description and its related tags and schemas call for is covered, including request and response examples
+- tone: the writing follows the user instructions, if any, and reads as clear, consistent reference documentation
+- links: cross-links point at outputPath values that exist in the plan or at hand-written guides from list_guides
+
+Score the section from 0 to 10. Reserve 9-10 for sections with no accuracy problems that you would publish unchanged; anything with a factual error scores 6 or below.
+List each problem as a separate issue with a concrete fix. Don't list style preferences that the instructions don't ask for.${userInstructions}`,
+    tools: tools.all,
+    model: options.model,
+    outputSchema: ReviewSchema,
+    maxIterations: 10,
+  });
+}
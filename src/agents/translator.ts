@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { languageName } from "../i18n.js";
+import type { LlmBackend } from "../backends/types.js";
+
+const TranslationSchema = z.object({
+  markdown: z.string().describe("The complete translated markdown"),
+});
+
+export type Translation = z.infer<typeof TranslationSchema>;
+
+export interface TranslatorInput {
+  /** Markdown to translate, with code blocks replaced by @@KEEP_n@@ placeholders */
+  markdown: string;
+}
+
+export function createTranslatorAgent(options: {
+  backend: LlmBackend;
+  locale: string;
+  instructions?: string;
+  model?: string;
+}) {
+  const language = languageName(options.locale);
+  const userInstructions = options.instructions
+    ? `\n\nUser instructions for documentation style:\n${options.instructions}`
+    : "";
+
+  return options.backend.createAgent<TranslatorInput, Translation>({
+    name: "doc-translator",
+    instructions: `You are a technical translator. Translate API documentation from English into ${language} (${options.locale}), written the way a native-speaking developer would expect.
+
+Rules:
+- Translate prose, headings, table text and link text
+- Keep every @@KEEP_n@@ placeholder exactly as is, on its own line where it was; they stand for code blocks
+- Don't translate inline code, endpoint paths, HTTP methods, parameter and field names, schema names, header names or enum values
+- Keep link targets (the part in parentheses) and {#id} heading suffixes unchanged
+- Keep the markdown structure: the same headings in the same order, tables, lists and blank lines
+- Keep widely used English technical terms (e.g. API, token, webhook) where developers in ${language} use them untranslated${userInstructions}`,
+    tools: [],
+    model: options.model,
+    outputSchema: TranslationSchema,
+    maxIterations: 3,
+  });
+}
@@ -1,8 +1,10 @@
-import { Agent } from "@opperai/agents";
 import { z } from "zod";
 import type { SpecIndex } from "../spec-index.js";
 import type { DocPlan, Section } from "./planner.js";
 import { createSpecTools } from "../tools.js";
+import type { Guide } from "../guides.js";
+import type { SnippetLanguage } from "../snippets.js";
+import type { LlmBackend } from "../backends/types.js";
 
 const SectionOutputSchema = z.object({
   markdown: z.string().describe("The complete markdown content for this section"),
@@ -14,35 +16,54 @@ export type SectionOutput = z.infer<typeof SectionOutputSchema>;
 export interface WriterInput {
   section: Section;
   plan: DocPlan;
+  /** Previous draft of this section, when revising */
+  draft?: string;
+  /** Problems found in the previous draft, to fix in this one */
+  feedback?: string[];
 }
 
 export function createWriterAgent(
   specIndex: SpecIndex,
-  options: { instructions?: string; model?: string }
+  options: {
+    backend: LlmBackend;
+    instructions?: string;
+    model?: string;
+    guides?: Guide[];
+    languages?: SnippetLanguage[];
+  }
 ) {
-  const tools = createSpecTools(specIndex);
+  const tools = createSpecTools(specIndex, { guides: options.guides, languages: options.languages });
 
   const userInstructions = options.instructions
     ? `\n\nUser instructions for documentation style:\n${options.instructions}`
     : "";
 
-  return new Agent<WriterInput, SectionOutput>({
+  return options.backend.createAgent<WriterInput, SectionOutput>({
     name: "doc-writer",
     instructions: `You are a technical API documentation writer. Write clear, accurate markdown documentation for the given section.
 
 Guidelines:
 - Use the tools to look up endpoint details, schemas, and auth info as needed
-- Include practical code examples (curl, and language examples if appropriate)
+- Use search_spec to find related endpoints and schemas, and read_operation to fetch a single endpoint instead of a whole tag
+- For request code samples, call generate_code_samples for the operation and paste its markdown unchanged, including the comment markers; don't write request snippets by hand
 - Cross-reference related endpoints and schemas by linking to their section files
+- Link to relevant hand-written guides from list_guides (e.g. tutorials, migration guides) using their outputPath
 - Use tables for parameter lists and response fields
-- Include request and response examples with realistic sample data
+- Include request and response examples. Get JSON payloads from generate_example rather than writing them by hand, so they match the schema (enum values, formats, required fields)
 - For endpoint sections: document each endpoint with method, path, description, parameters, request body, and response
 - For the overview section: include API title, description, base URL, and a quick-start guide
+- For the quickstart section: take a new user from zero to a first successful call: base URL, getting and sending credentials, then one or two real requests with their responses
 - For the auth section: explain each authentication method with example headers
+- For concepts sections: explain the domain idea in prose first, then show which endpoints and schemas it shows up in, linking to their sections
+- For the pagination section: use detect_patterns to find every paginated endpoint; explain the parameters and response fields, show a loop that fetches all pages, and list the endpoints that paginate
+- For the rate-limits section: use detect_patterns to find rate limit headers and 429 responses; explain each header, what a 429 looks like, and how to back off and retry
+- For the versioning section: use detect_patterns to find how versions are selected (URL prefix, header or query parameter); explain how to pin a version and what the current version is
+- For the webhooks section: document each webhook and callback with when it fires, its HTTP method, payload schema and expected responses; for callbacks also name the operation that registers them and explain the callback URL expression
 - For the schemas section: document key models with field descriptions
 - For the errors section: list common error codes with descriptions and handling advice
 - Output clean, well-structured markdown
 - Do NOT include a top-level heading (# Title) - it will be added automatically
+- If a draft and feedback are provided, revise the draft: the feedback lists code blocks that don't match the spec or problems an editor found. Fix every one of them and keep what is already correct
 
 The full documentation plan is provided so you can create cross-links to other sections.
 When linking to other sections, use relative markdown links based on the outputPath values.${userInstructions}`,
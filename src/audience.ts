@@ -0,0 +1,166 @@
+import type { SpecIndex, EndpointInfo } from "./spec-index.js";
+
+/** The audience that sees everything, including `x-internal` items. */
+export const INTERNAL_AUDIENCE = "internal";
+
+/**
+ * Whether a spec object (operation, schema, property, parameter, tag, ...)
+ * should be visible to the given audience based on its `x-internal` and
+ * `x-audience` vendor extensions. Objects without either extension are public.
+ */
+export function isVisibleTo(obj: unknown, audience: string): boolean {
+  if (!obj || typeof obj !== "object" || Array.isArray(obj)) return true;
+  if (audience === INTERNAL_AUDIENCE) return true;
+
+  const extensions = obj as Record<string, unknown>;
+  if (extensions["x-internal"] === true) return false;
+
+  const allowed = extensions["x-audience"];
+  if (allowed === undefined) return true;
+  const audiences = Array.isArray(allowed) ? allowed : [allowed];
+  return audiences.includes(audience);
+}
+
+/**
+ * Return a copy of the spec index with everything the audience must not see
+ * removed. Schemas used only by hidden operations, webhooks or callbacks go
+ * too; schemas no operation uses at all are kept unless marked. The input
+ * index is left untouched.
+ */
+export function filterSpecIndex(specIndex: SpecIndex, audience: string): SpecIndex {
+  const cache = new Map<object, unknown>();
+  const prune = <T>(value: T): T => pruneValue(value, audience, cache);
+  const visible = (obj: unknown) => isVisibleTo(obj, audience);
+
+  const pathsByTag = new Map<string, EndpointInfo[]>();
+  const emptiedTags = new Set<string>();
+  for (const [tag, endpoints] of specIndex.pathsByTag) {
+    const kept = endpoints
+      .filter((e) => visible(e.operation))
+      .map((e) => ({ ...e, operation: prune(e.operation) }));
+    if (kept.length > 0) {
+      pathsByTag.set(tag, kept);
+    } else {
+      emptiedTags.add(tag);
+    }
+  }
+
+  const webhooks = specIndex.webhooks
+    .filter((w) => visible(w.operation))
+    .map((w) => ({ ...w, operation: prune(w.operation) }));
+  const callbacks = specIndex.callbacks
+    .filter((c) => visible(c.operation) && isParentVisible(c.parent, specIndex, audience))
+    .map((c) => ({ ...c, operation: prune(c.operation) }));
+
+  // Dereferenced schemas are shared objects, so "used by" is reachability
+  const usedByAny = reachableObjects(operationsOf(specIndex.pathsByTag, specIndex.webhooks, specIndex.callbacks));
+  const usedByVisible = reachableObjects(operationsOf(pathsByTag, webhooks, callbacks));
+  const schemas = new Map(
+    Array.from(specIndex.schemas)
+      .filter(([, schema]) => visible(schema))
+      .map(([name, schema]) => [name, schema, prune(schema)] as const)
+      .filter(([, schema, pruned]) => !usedByAny.has(schema) || usedByVisible.has(pruned))
+      .map(([name, , pruned]) => [name, pruned])
+  );
+
+  const security = Object.fromEntries(
+    Object.entries(specIndex.security).filter(([, scheme]) => visible(scheme))
+  );
+
+  return {
+    info: prune(specIndex.info),
+    servers: specIndex.servers.filter(visible).map(prune),
+    tags: specIndex.tags
+      .filter((t) => visible(t) && !emptiedTags.has(t.name))
+      .map(prune),
+    security,
+    pathsByTag,
+    schemas,
+    webhooks,
+    callbacks,
+  };
+}
+
+function operationsOf(
+  pathsByTag: SpecIndex["pathsByTag"],
+  webhooks: SpecIndex["webhooks"],
+  callbacks: SpecIndex["callbacks"]
+): object[] {
+  return [
+    ...Array.from(pathsByTag.values()).flatMap((endpoints) => endpoints.map((e) => e.operation)),
+    ...webhooks.map((w) => w.operation),
+    ...callbacks.map((c) => c.operation),
+  ];
+}
+
+/** Every object nested anywhere under the roots, following shared and cyclic references once. */
+function reachableObjects(roots: object[]): Set<object> {
+  const seen = new Set<object>();
+  const stack = [...roots];
+  while (stack.length > 0) {
+    const value = stack.pop()!;
+    if (seen.has(value)) continue;
+    seen.add(value);
+    for (const child of Object.values(value)) {
+      if (child && typeof child === "object") stack.push(child);
+    }
+  }
+  return seen;
+}
+
+function isParentVisible(
+  parent: SpecIndex["callbacks"][number]["parent"],
+  specIndex: SpecIndex,
+  audience: string
+): boolean {
+  for (const endpoints of specIndex.pathsByTag.values()) {
+    const endpoint = endpoints.find(
+      (e) => e.path === parent.path && e.method === parent.method
+    );
+    if (endpoint) return isVisibleTo(endpoint.operation, audience);
+  }
+  return true;
+}
+
+/**
+ * Deep-copy a value, dropping every nested object the audience can't see.
+ * Dereferenced specs share (and may cycle through) objects, so each source
+ * object is copied once and the copy reused.
+ */
+function pruneValue<T>(value: T, audience: string, cache: Map<object, unknown>): T {
+  if (!value || typeof value !== "object") return value;
+
+  const cached = cache.get(value);
+  if (cached) return cached as T;
+
+  if (Array.isArray(value)) {
+    const result: unknown[] = [];
+    cache.set(value, result);
+    for (const item of value) {
+      if (isVisibleTo(item, audience)) result.push(pruneValue(item, audience, cache));
+    }
+    return result as T;
+  }
+
+  const result: Record<string, unknown> = {};
+  cache.set(value, result);
+
+  // Drop hidden entries keyed by name (properties, responses, media types, ...)
+  for (const [key, child] of Object.entries(value)) {
+    if (!isVisibleTo(child, audience)) continue;
+    result[key] = pruneValue(child, audience, cache);
+  }
+
+  // Keep `required` consistent with any hidden properties
+  const source = value as Record<string, unknown>;
+  if (Array.isArray(source.required) && source.properties && typeof source.properties === "object") {
+    const hidden = Object.entries(source.properties)
+      .filter(([, prop]) => !isVisibleTo(prop, audience))
+      .map(([name]) => name);
+    if (hidden.length > 0) {
+      result.required = source.required.filter((name) => !hidden.includes(name));
+    }
+  }
+
+  return result as T;
+}
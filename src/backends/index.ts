@@ -0,0 +1,25 @@
+import type { BackendConfig } from "../config.js";
+import type { LlmBackend } from "./types.js";
+import { createOpperBackend } from "./opper.js";
+import { createOpenAICompatibleBackend } from "./openai.js";
+
+export const DEFAULT_API_KEY_ENV: Record<BackendConfig["type"], string | undefined> = {
+  opper: "OPPER_API_KEY",
+  openai: undefined,
+};
+
+/** Create the backend described by the `backend` config, reading its key from the environment. */
+export function createBackend(config: BackendConfig = { type: "opper" }): LlmBackend {
+  const apiKeyEnv = config.apiKeyEnv ?? DEFAULT_API_KEY_ENV[config.type];
+  const apiKey = apiKeyEnv ? process.env[apiKeyEnv] : undefined;
+
+  switch (config.type) {
+    case "openai":
+      if (!config.baseUrl) {
+        throw new Error("backend.baseUrl is required for the openai backend");
+      }
+      return createOpenAICompatibleBackend({ baseUrl: config.baseUrl, apiKey });
+    case "opper":
+      return createOpperBackend({ apiKey, baseUrl: config.baseUrl });
+  }
+}
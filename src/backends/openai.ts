@@ -0,0 +1,169 @@
+import { z } from "zod";
+import type { AgentDefinition, LlmBackend, LlmTool, LlmUsage } from "./types.js";
+import { emptyUsage } from "./types.js";
+
+export interface OpenAICompatibleOptions {
+  /** API root, e.g. "http://localhost:11434/v1" for Ollama */
+  baseUrl: string;
+  apiKey?: string;
+  /** For tests */
+  fetch?: typeof fetch;
+}
+
+interface ToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | null;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+}
+
+interface ChatResponse {
+  choices: { message: ChatMessage }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+/**
+ * Run agents against any server that speaks the OpenAI chat completions API
+ * with tool calling, such as vLLM, Ollama or LM Studio. The agent loops
+ * over tool calls until the model answers with JSON that matches the
+ * output schema; invalid answers are sent back with the validation error.
+ */
+export function createOpenAICompatibleBackend(options: OpenAICompatibleOptions): LlmBackend {
+  return {
+    name: "openai",
+    createAgent<TInput, TOutput>(definition: AgentDefinition<TOutput>) {
+      return {
+        run: (input: TInput) => runAgent(definition, input, options),
+      };
+    },
+  };
+}
+
+async function runAgent<TOutput>(
+  definition: AgentDefinition<TOutput>,
+  input: unknown,
+  options: OpenAICompatibleOptions
+): Promise<{ result: TOutput; usage: LlmUsage }> {
+  const outputSchema = JSON.stringify(z.toJSONSchema(definition.outputSchema));
+  const messages: ChatMessage[] = [
+    {
+      role: "system",
+      content: `${definition.instructions}\n\nWhen you are done, reply with only a JSON object, without prose or code fences, that matches this JSON Schema:\n${outputSchema}`,
+    },
+    { role: "user", content: typeof input === "string" ? input : JSON.stringify(input, null, 2) },
+  ];
+  const tools = definition.tools.map((tool) => ({
+    type: "function",
+    function: { name: tool.name, description: tool.description, parameters: z.toJSONSchema(tool.schema) },
+  }));
+  const usage = emptyUsage();
+
+  try {
+    return await chatUntilAnswer(definition, messages, tools, usage, options);
+  } catch (err) {
+    // Keep what the failed run spent for the usage meter
+    if (usage.requests > 0 && err instanceof Error) Object.assign(err, { usage });
+    throw err;
+  }
+}
+
+async function chatUntilAnswer<TOutput>(
+  definition: AgentDefinition<TOutput>,
+  messages: ChatMessage[],
+  tools: unknown[],
+  usage: LlmUsage,
+  options: OpenAICompatibleOptions
+): Promise<{ result: TOutput; usage: LlmUsage }> {
+  for (let iteration = 0; iteration < definition.maxIterations; iteration++) {
+    const response = await chat(options, {
+      model: definition.model,
+      messages,
+      ...(tools.length > 0 && { tools }),
+    });
+    usage.requests++;
+    usage.inputTokens += response.usage?.prompt_tokens ?? 0;
+    usage.outputTokens += response.usage?.completion_tokens ?? 0;
+    usage.totalTokens += response.usage?.total_tokens ?? 0;
+
+    const message = response.choices[0]?.message;
+    if (!message) {
+      throw new Error(`${definition.name}: the model returned no message`);
+    }
+    messages.push(message);
+
+    if (message.tool_calls?.length) {
+      for (const call of message.tool_calls) {
+        messages.push({ role: "tool", tool_call_id: call.id, content: await callTool(definition.tools, call) });
+      }
+      continue;
+    }
+
+    const parsed = parseOutput(message.content ?? "", definition.outputSchema);
+    if (parsed.ok) return { result: parsed.value, usage };
+    messages.push({
+      role: "user",
+      content: `That answer is not valid: ${parsed.error}. Reply with only the corrected JSON object.`,
+    });
+  }
+
+  throw new Error(`${definition.name}: no valid answer after ${definition.maxIterations} iterations`);
+}
+
+async function chat(options: OpenAICompatibleOptions, body: Record<string, unknown>): Promise<ChatResponse> {
+  const url = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  const response = await (options.fetch ?? fetch)(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const detail = (await response.text()).slice(0, 500);
+    // The status tells retries a rate limit from a bad request
+    throw Object.assign(new Error(`Chat completion failed (${response.status}) at ${url}: ${detail}`), {
+      status: response.status,
+    });
+  }
+  return (await response.json()) as ChatResponse;
+}
+
+/** Run a tool call and return its result, or the error, as the tool message. */
+async function callTool(tools: LlmTool[], call: ToolCall): Promise<string> {
+  const tool = tools.find((t) => t.name === call.function.name);
+  if (!tool) return `Error: unknown tool '${call.function.name}'`;
+
+  try {
+    const args = tool.schema.safeParse(JSON.parse(call.function.arguments || "{}"));
+    if (!args.success) return `Error: invalid arguments: ${args.error.message}`;
+    return JSON.stringify((await tool.run(args.data)) ?? null);
+  } catch (err) {
+    return `Error: ${err instanceof Error ? err.message : String(err)}`;
+  }
+}
+
+function parseOutput<T>(
+  content: string,
+  schema: z.ZodType<T>
+): { ok: true; value: T } | { ok: false; error: string } {
+  // Models often wrap JSON in a code fence or a sentence despite instructions
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  if (start === -1 || end < start) return { ok: false, error: "no JSON object found" };
+
+  let json: unknown;
+  try {
+    json = JSON.parse(content.slice(start, end + 1));
+  } catch (err) {
+    return { ok: false, error: `invalid JSON (${(err as Error).message})` };
+  }
+  const result = schema.safeParse(json);
+  return result.success ? { ok: true, value: result.data } : { ok: false, error: result.error.message };
+}
@@ -0,0 +1,47 @@
+import { Agent, createFunctionTool } from "@opperai/agents";
+import type { AgentDefinition, LlmBackend } from "./types.js";
+
+export interface OpperBackendOptions {
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+/** Run agents on Opper through `@opperai/agents`. */
+export function createOpperBackend(options: OpperBackendOptions = {}): LlmBackend {
+  return {
+    name: "opper",
+    createAgent<TInput, TOutput>(definition: AgentDefinition<TOutput>) {
+      const agent = new Agent<TInput, TOutput>({
+        name: definition.name,
+        instructions: definition.instructions,
+        tools: definition.tools.map((tool) =>
+          createFunctionTool(tool.run, {
+            name: tool.name,
+            description: tool.description,
+            schema: tool.schema,
+          })
+        ),
+        model: definition.model,
+        outputSchema: definition.outputSchema,
+        maxIterations: definition.maxIterations,
+        opperConfig: { apiKey: options.apiKey, baseUrl: options.baseUrl },
+      });
+
+      return {
+        async run(input: TInput) {
+          const { result, usage } = await agent.run(input);
+          return {
+            result,
+            usage: {
+              requests: usage.requests,
+              inputTokens: usage.inputTokens,
+              outputTokens: usage.outputTokens,
+              totalTokens: usage.totalTokens,
+              cost: usage.cost.total,
+            },
+          };
+        },
+      };
+    },
+  };
+}
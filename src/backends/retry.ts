@@ -0,0 +1,58 @@
+import type { LlmBackend } from "./types.js";
+
+export interface RetryOptions {
+  /** Extra attempts after the first one fails */
+  retries: number;
+  /** Delay before the first retry; doubles with each further retry */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Called before each retry, e.g. to log it */
+  onRetry?: (error: unknown, attempt: number, agent: string) => void;
+}
+
+/**
+ * Wrap a backend so every agent run is retried with exponential backoff when
+ * it fails for a reason that may pass: rate limits, server and network
+ * errors, and answers that don't match the output schema.
+ */
+export function withRetries(backend: LlmBackend, options: RetryOptions): LlmBackend {
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const maxDelayMs = options.maxDelayMs ?? 30_000;
+
+  return {
+    name: backend.name,
+    createAgent(definition) {
+      const agent = backend.createAgent(definition);
+      return {
+        async run(input) {
+          for (let attempt = 0; ; attempt++) {
+            try {
+              return await agent.run(input);
+            } catch (err) {
+              if (attempt >= options.retries || !isTransientError(err)) throw err;
+              options.onRetry?.(err, attempt + 1, definition.name);
+              // Jitter keeps sections that were throttled together from retrying together
+              const delay = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+              await new Promise((r) => setTimeout(r, delay * (0.5 + Math.random() / 2)));
+            }
+          }
+        },
+      };
+    },
+  };
+}
+
+const TRANSIENT_MESSAGE =
+  /timed? ?out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|fetch failed|rate limit|overloaded|too many requests|schema|validation|invalid json|no valid answer/i;
+
+/** Whether an agent failure is worth retrying, as opposed to e.g. a bad API key */
+export function isTransientError(err: unknown): boolean {
+  if (typeof err !== "object" || err === null) return false;
+
+  const status = (err as { status?: unknown; statusCode?: unknown }).status ?? (err as { statusCode?: unknown }).statusCode;
+  if (typeof status === "number") {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  if ((err as Error).name === "ZodError") return true;
+  return TRANSIENT_MESSAGE.test((err as Error).message ?? "");
+}
@@ -0,0 +1,61 @@
+import type { AgentDefinition, LlmBackend, LlmTool, LlmUsage } from "./types.js";
+
+export interface ScriptedRequest {
+  /** Agent name, e.g. "doc-planner" or "doc-writer" */
+  agent: string;
+  input: unknown;
+  instructions: string;
+  tools: LlmTool[];
+}
+
+export type ScriptedResponder = (request: ScriptedRequest) => unknown | Promise<unknown>;
+
+export interface ScriptedBackend extends LlmBackend {
+  /** Every run so far, in order */
+  calls: ScriptedRequest[];
+}
+
+export interface ScriptedBackendOptions {
+  /** Usage reported for every run, defaults to one request and no tokens */
+  usage?: LlmUsage;
+}
+
+/**
+ * A backend that answers from a script instead of a model, for tests. Each
+ * answer is checked against the agent's output schema, so a script that
+ * drifts from the real contract fails loudly.
+ */
+export function createScriptedBackend(
+  respond: ScriptedResponder,
+  options: ScriptedBackendOptions = {}
+): ScriptedBackend {
+  const calls: ScriptedRequest[] = [];
+
+  return {
+    name: "scripted",
+    calls,
+    createAgent<TInput, TOutput>(definition: AgentDefinition<TOutput>) {
+      return {
+        async run(input: TInput) {
+          const request = {
+            agent: definition.name,
+            input,
+            instructions: definition.instructions,
+            tools: definition.tools,
+          };
+          calls.push(request);
+
+          const usage = options.usage ?? { requests: 1, inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+          const parsed = definition.outputSchema.safeParse(await respond(request));
+          if (!parsed.success) {
+            throw Object.assign(
+              new Error(`Scripted answer for ${definition.name} doesn't match its schema: ${parsed.error.message}`),
+              { usage }
+            );
+          }
+          return { result: parsed.data, usage };
+        },
+      };
+    },
+  };
+}
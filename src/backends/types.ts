@@ -0,0 +1,57 @@
+import type { z } from "zod";
+
+/** A function the model may call, with a zod schema for its input */
+export interface LlmTool<TInput = unknown, TOutput = unknown> {
+  name: string;
+  description: string;
+  schema: z.ZodType<TInput>;
+  // Method syntax, so tools with different inputs fit in one `LlmTool[]`
+  run(input: TInput): TOutput | Promise<TOutput>;
+}
+
+export function defineTool<TInput, TOutput>(
+  run: (input: TInput) => TOutput | Promise<TOutput>,
+  options: { name: string; description: string; schema: z.ZodType<TInput> }
+): LlmTool<TInput, TOutput> {
+  return { ...options, run };
+}
+
+export interface LlmUsage {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** Cost in USD, when the backend reports it */
+  cost?: number;
+}
+
+/** Everything a backend needs to run an agent: the same contract for every backend */
+export interface AgentDefinition<TOutput> {
+  name: string;
+  instructions: string;
+  tools: LlmTool[];
+  /** The agent's final answer must match this schema */
+  outputSchema: z.ZodType<TOutput>;
+  model?: string;
+  maxIterations: number;
+}
+
+export interface LlmAgent<TInput, TOutput> {
+  /** A run that fails after spending tokens throws an error with a `usage` property */
+  run(input: TInput): Promise<{ result: TOutput; usage: LlmUsage }>;
+}
+
+export interface LlmBackend {
+  readonly name: string;
+  createAgent<TInput, TOutput>(definition: AgentDefinition<TOutput>): LlmAgent<TInput, TOutput>;
+}
+
+export function emptyUsage(): LlmUsage {
+  return { requests: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+}
+
+/** What a failed agent run spent, if its error says */
+export function failedUsage(err: unknown): LlmUsage | undefined {
+  if (typeof err !== "object" || err === null) return undefined;
+  return (err as { usage?: LlmUsage }).usage;
+}
@@ -1,11 +1,34 @@
-import { Command } from "commander";
-import { loadConfig } from "./config.js";
+import { Command, Option } from "commander";
+import { loadConfig, GENERATE_MODES } from "./config.js";
 import { generate } from "./generate.js";
+import { estimateGenerate, formatEstimate } from "./estimate.js";
+import { previewGenerate, formatPreview } from "./preview.js";
+import type { Config } from "./config.js";
 import { renderSite } from "./renderer.js";
+import { buildSpecIndex, formatConversion } from "./spec-index.js";
+import type { SpecIndexOptions } from "./spec-index.js";
+import { filterSpecIndex } from "./audience.js";
+import { lintSpec, formatLintReport, exceedsThreshold, LINT_THRESHOLDS } from "./lint.js";
+import { diffSpecs, formatDiffMarkdown } from "./diff.js";
+import { LOCALE_MODES } from "./i18n.js";
+import { EDIT_POLICIES } from "./edits.js";
 import { resolve, join } from "path";
 import { writeFile } from "fs/promises";
 import type { SiteConfig } from "./renderer.js";
 
+async function printPreview(config: Config, jsonPath?: string): Promise<void> {
+  const preview = await previewGenerate(config, { reusePlan: config.reusePlan });
+  console.log(formatPreview(preview));
+  if (jsonPath) {
+    await writeFile(resolve(jsonPath), JSON.stringify(preview, null, 2) + "\n");
+  }
+}
+
+// Notices go to stderr, so reports written to stdout stay parseable
+const specIndexOptions: SpecIndexOptions = {
+  onConvert: (warnings) => console.error(formatConversion(warnings)),
+};
+
 const program = new Command();
 
 program
@@ -18,17 +41,68 @@ program
 program
   .command("generate")
   .description("Generate documentation from an OpenAPI spec")
-  .requiredOption("--spec <path>", "Path to OpenAPI spec file")
+  .option("--spec <path>", "Path to OpenAPI spec file (or set 'specs' in the config file)")
   .option("--output <dir>", "Output directory", "./docs")
   .option("--instructions <text>", "Custom documentation instructions")
   .option("--model <model>", "LLM model to use")
   .option("--site", "Also generate a static site")
   .option("--force", "Force regenerate all sections (ignore cache)")
+  .addOption(
+    new Option("--mode <mode>", "'ai' writes docs with agents; 'reference' builds them from the spec without an LLM")
+      .choices(GENERATE_MODES)
+  )
+  .option("--replan", "Plan the doc structure from scratch instead of keeping the previous plan")
   .option("--title <text>", "Site title for sidebar header")
   .option("--icon <path>", "Path to icon file (SVG/PNG) for sidebar header")
+  .option("--audience <name>", "Only document what this audience may see (x-internal / x-audience)")
+  .option("--guides <dir>", "Directory of hand-written markdown guides to publish with the docs")
+  .addOption(
+    new Option("--lint-fail-on <severity>", "Abort before planning if spec lint finds issues at this severity")
+      .choices(LINT_THRESHOLDS)
+  )
+  .option("--strict-examples", "Rewrite sections whose JSON/curl examples don't match the spec")
+  .option("--example-retries <n>", "Rewrites per section in strict mode (default 2)", (v) => parseInt(v, 10))
+  .option("--strict-links", "Fail the site build on broken internal links or anchors")
+  .option("--fix-anchors", "Rewrite links to near-miss anchors to the closest heading")
+  .option("--review", "Have a reviewer agent score each section and send weak ones back for revision")
+  .option("--review-threshold <score>", "Minimum review score from 0 to 10 (default 7)", parseFloat)
+  .option("--review-rounds <n>", "Revisions per section after review (default 2)", (v) => parseInt(v, 10))
+  .option("--max-cost <usd>", "Stop starting new sections once the run has cost this much", parseFloat)
+  .option("--max-tokens <n>", "Stop starting new sections once the run has used this many tokens", (v) => parseInt(v, 10))
+  .option("--estimate", "Predict the cost of the sections that would be regenerated, without generating")
+  .option("--dry-run", "Show which sections would be regenerated or deleted and why, without writing anything")
+  .addOption(
+    new Option("--on-edit <policy>", "For pages edited by hand: 'skip' them, write the new version as .new.md, or 'merge' it in")
+      .choices(EDIT_POLICIES)
+  )
+  .option("--reuse-plan", "With --dry-run, keep the saved plan instead of running the planner")
+  .option("--concurrency <n>", "Sections written at once (default 4)", (v) => parseInt(v, 10))
+  .option("--retries <n>", "Retries per agent run on rate limits, server errors or invalid output (default 2)", (v) => parseInt(v, 10))
+  .option(
+    "--languages <list>",
+    "Comma-separated code sample languages: curl, python, python-httpx, javascript, go, typescript",
+    (v) => v.split(",").map((l) => l.trim()).filter(Boolean)
+  )
+  .option(
+    "--locales <list>",
+    "Comma-separated extra locales to publish the docs in, e.g. ja,de,pt-BR",
+    (v) => v.split(",").map((l) => l.trim()).filter(Boolean)
+  )
+  .addOption(
+    new Option("--locale-mode <mode>", "Translate the canonical docs or generate each locale from the spec")
+      .choices(LOCALE_MODES)
+  )
   .action(async (options) => {
     try {
       const config = await loadConfig(options);
+      if (config.estimate) {
+        console.log(formatEstimate(await estimateGenerate(config), config));
+        return;
+      }
+      if (config.dryRun) {
+        await printPreview(config);
+        return;
+      }
       await generate(config);
       if (config.site) {
         const siteConfig: SiteConfig = {};
@@ -38,7 +112,127 @@ program
           resolve(join(config.output, ".openapi-docs-site.json")),
           JSON.stringify(siteConfig, null, 2) + "\n"
         );
-        await renderSite(resolve(config.output));
+        await renderSite(resolve(config.output), {
+          strictLinks: config.strictLinks,
+          fixAnchors: config.fixAnchors,
+        });
+      }
+    } catch (err) {
+      console.error(
+        `Error: ${err instanceof Error ? err.message : String(err)}`
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("plan")
+  .description("Show which sections generate would regenerate or delete and why, without writing anything")
+  .option("--spec <path>", "Path to OpenAPI spec file (or set 'specs' in the config file)")
+  .option("--output <dir>", "Output directory", "./docs")
+  .option("--instructions <text>", "Custom documentation instructions")
+  .option("--model <model>", "LLM model for the planner")
+  .option("--force", "Preview a run that ignores the cache")
+  .addOption(
+    new Option("--mode <mode>", "'ai' writes docs with agents; 'reference' builds them from the spec without an LLM")
+      .choices(GENERATE_MODES)
+  )
+  .option("--replan", "Preview planning the doc structure from scratch")
+  .option("--reuse-plan", "Keep the saved plan instead of running the planner when the spec's structure changed")
+  .addOption(
+    new Option("--on-edit <policy>", "For pages edited by hand: 'skip' them, write the new version as .new.md, or 'merge' it in")
+      .choices(EDIT_POLICIES)
+  )
+  .option("--audience <name>", "Only document what this audience may see (x-internal / x-audience)")
+  .option("--guides <dir>", "Directory of hand-written markdown guides to publish with the docs")
+  .option(
+    "--languages <list>",
+    "Comma-separated code sample languages: curl, python, python-httpx, javascript, go, typescript",
+    (v) => v.split(",").map((l) => l.trim()).filter(Boolean)
+  )
+  .option(
+    "--locales <list>",
+    "Comma-separated extra locales to publish the docs in, e.g. ja,de,pt-BR",
+    (v) => v.split(",").map((l) => l.trim()).filter(Boolean)
+  )
+  .addOption(
+    new Option("--locale-mode <mode>", "Translate the canonical docs or generate each locale from the spec")
+      .choices(LOCALE_MODES)
+  )
+  .option("--json <path>", "Also write the report as JSON to this file")
+  .action(async (options) => {
+    try {
+      const { json, ...rest } = options;
+      await printPreview(await loadConfig({ ...rest, dryRun: true }), json);
+    } catch (err) {
+      console.error(
+        `Error: ${err instanceof Error ? err.message : String(err)}`
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("lint")
+  .description("Check an OpenAPI spec for gaps that make generated docs worse")
+  .requiredOption("--spec <path>", "Path to OpenAPI spec file")
+  .option("--audience <name>", "Lint only what this audience may see")
+  .addOption(
+    new Option("--fail-on <severity>", "Exit non-zero if issues at this severity are found")
+      .choices(LINT_THRESHOLDS)
+      .default("error")
+  )
+  .option("--json <path>", "Also write the report as JSON to this file")
+  .action(async (options) => {
+    try {
+      let specIndex = await buildSpecIndex(options.spec, specIndexOptions);
+      if (options.audience) {
+        specIndex = filterSpecIndex(specIndex, options.audience);
+      }
+      const report = lintSpec(specIndex);
+      console.log(formatLintReport(report));
+      if (options.json) {
+        await writeFile(resolve(options.json), JSON.stringify(report, null, 2) + "\n");
+      }
+      if (exceedsThreshold(report, options.failOn)) {
+        process.exit(1);
+      }
+    } catch (err) {
+      console.error(
+        `Error: ${err instanceof Error ? err.message : String(err)}`
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("diff")
+  .description("Compare two OpenAPI specs and classify changes as breaking, non-breaking or docs-only")
+  .requiredOption("--base <path>", "Path to the previous spec")
+  .requiredOption("--head <path>", "Path to the new spec")
+  .addOption(
+    new Option("--format <format>", "Output format")
+      .choices(["markdown", "json"])
+      .default("markdown")
+  )
+  .option("--out <path>", "Write the report to a file instead of stdout")
+  .option("--fail-on-breaking", "Exit non-zero if any breaking change is found")
+  .action(async (options) => {
+    try {
+      const base = await buildSpecIndex(options.base, specIndexOptions);
+      const head = await buildSpecIndex(options.head, specIndexOptions);
+      const diff = diffSpecs(base, head);
+      const report =
+        options.format === "json"
+          ? JSON.stringify(diff, null, 2) + "\n"
+          : formatDiffMarkdown(diff);
+      if (options.out) {
+        await writeFile(resolve(options.out), report);
+      } else {
+        process.stdout.write(report);
+      }
+      if (options.failOnBreaking && diff.counts.breaking > 0) {
+        process.exit(1);
       }
     } catch (err) {
       console.error(
@@ -52,9 +246,14 @@ program
   .command("render")
   .description("Render static site from existing markdown (no regeneration)")
   .option("--dir <dir>", "Docs directory containing markdown files", "./docs")
+  .option("--strict-links", "Fail on broken internal links or anchors")
+  .option("--fix-anchors", "Rewrite links to near-miss anchors to the closest heading")
   .action(async (options) => {
     try {
-      await renderSite(resolve(options.dir));
+      await renderSite(resolve(options.dir), {
+        strictLinks: options.strictLinks,
+        fixAnchors: options.fixAnchors,
+      });
     } catch (err) {
       console.error(
         `Error: ${err instanceof Error ? err.message : String(err)}`
@@ -1,15 +1,140 @@
 import { readFile } from "fs/promises";
-import { resolve } from "path";
+import { resolve, join, sep } from "path";
+import { LINT_THRESHOLDS } from "./lint.js";
+import type { LintThreshold } from "./lint.js";
+import { SNIPPET_LANGUAGES } from "./snippets.js";
+import type { SnippetLanguage } from "./snippets.js";
+import { LOCALE_MODES, LOCALE_PATTERN } from "./i18n.js";
+import type { LocaleMode } from "./i18n.js";
+import { DEFAULT_API_KEY_ENV } from "./backends/index.js";
+import type { Pricing } from "./usage.js";
+import { EDIT_POLICIES } from "./edits.js";
+import type { EditPolicy } from "./edits.js";
+
+export interface SpecConfig {
+  /** Path to this service's OpenAPI spec file */
+  spec: string;
+  /** Unique identifier for the spec: its key in the root manifest and the default output subdirectory */
+  namespace: string;
+  /** Output subdirectory relative to the root output directory */
+  output?: string;
+  /** Sidebar group label, defaults to the spec's title */
+  group?: string;
+}
+
+export interface VersionConfig {
+  /** Version name, also used as the output subdirectory, e.g. "v1" */
+  version: string;
+  /** Path to the spec for this version */
+  spec: string;
+}
+
+export interface SectionOverride {
+  /** Extra instructions, appended to the global `instructions` */
+  instructions?: string;
+  /** Model to use instead of the global `model` */
+  model?: string;
+  /** What to do when these sections were edited by hand, instead of the global `onEdit` */
+  onEdit?: EditPolicy;
+}
+
+export interface Overrides {
+  /** Keyed by section type, e.g. "auth" or "schemas" */
+  types?: Record<string, SectionOverride>;
+  /** Keyed by tag; applies to sections whose related tags include it */
+  tags?: Record<string, SectionOverride>;
+  /** Keyed by section id, e.g. "tag:ml" */
+  sections?: Record<string, SectionOverride>;
+}
+
+export type GenerateMode = "ai" | "reference";
+
+export const GENERATE_MODES: GenerateMode[] = ["ai", "reference"];
+
+export type BackendType = "opper" | "openai";
+
+export const BACKEND_TYPES: BackendType[] = ["opper", "openai"];
+
+export interface BackendConfig {
+  /** "opper" runs agents on Opper; "openai" on any OpenAI-compatible chat completions server */
+  type: BackendType;
+  /** API root, e.g. "http://localhost:11434/v1". Required for "openai" */
+  baseUrl?: string;
+  /** Environment variable holding the API key, defaults to OPPER_API_KEY for "opper" and none for "openai" */
+  apiKeyEnv?: string;
+  /** Default model for this backend, used when `model` isn't set */
+  model?: string;
+  /** USD per million input and output tokens, to estimate cost when the backend doesn't report it */
+  pricing?: Pricing;
+}
 
 export interface Config {
   spec: string;
+  specs?: SpecConfig[];
+  versions?: VersionConfig[];
+  /** Version the "latest" alias points to, defaults to the last entry in `versions` */
+  latestVersion?: string;
   output: string;
   instructions?: string;
   model?: string;
+  /** LLM backend the agents run on, defaults to Opper */
+  backend?: BackendConfig;
   site?: boolean;
   force?: boolean;
+  /** "ai" writes docs with agents; "reference" builds them from the spec alone, without an LLM */
+  mode?: GenerateMode;
+  /** Plan the docs from scratch instead of keeping the previous plan's sections */
+  replan?: boolean;
   title?: string;
   icon?: string;
+  /** Only document operations, schemas and fields visible to this audience (see `x-internal` / `x-audience`) */
+  audience?: string;
+  /** Fail generation before planning when spec lint finds issues at this severity */
+  lintFailOn?: LintThreshold;
+  /** Send sections whose JSON/curl examples don't match the spec back to the writer */
+  strictExamples?: boolean;
+  /** How many times a section may be rewritten in strict mode */
+  exampleRetries?: number;
+  /** Fail the site build when internal links or anchors are broken */
+  strictLinks?: boolean;
+  /** Rewrite links to near-miss anchors to the closest real heading */
+  fixAnchors?: boolean;
+  /** Have a reviewer agent score each written section and send weak ones back */
+  review?: boolean;
+  /** Minimum review score (0-10) a section needs to skip revision */
+  reviewThreshold?: number;
+  /** How many times a section may be revised after review */
+  reviewRounds?: number;
+  /** Stop starting new sections once the run has cost this many USD */
+  maxCost?: number;
+  /** Stop starting new sections once the run has used this many tokens */
+  maxTokens?: number;
+  /** Predict what a run would cost instead of running it */
+  estimate?: boolean;
+  /** Report what a run would regenerate and delete instead of running it */
+  dryRun?: boolean;
+  /** In a dry run, keep the saved plan instead of running the planner when the spec's structure changed */
+  reusePlan?: boolean;
+  /** How many sections (or translations) are written at once */
+  concurrency?: number;
+  /** How many times a failed agent run is retried on rate limits, server errors or invalid output */
+  retries?: number;
+  /** Section ids or output paths whose pages are never planned away, rewritten or deleted */
+  locked?: string[];
+  /** What to do with a page edited by hand since it was generated, defaults to "skip" */
+  onEdit?: EditPolicy;
+  /** Per section type, tag or section id instructions, model and edit policy */
+  overrides?: Overrides;
+  /** Directory of hand-written markdown guides to publish alongside the generated docs */
+  guides?: string;
+  /** Languages for generated request code samples, defaults to curl, python and javascript */
+  languages?: SnippetLanguage[];
+  /** Extra languages to publish the docs in, e.g. ["ja", "de", "pt-BR"], each under `<output>/<locale>/` */
+  locales?: string[];
+  /** Language the canonical docs are written in, defaults to "en" */
+  defaultLocale?: string;
+  /** Translate the canonical docs into each locale, or generate each locale from the spec */
+  localeMode?: LocaleMode;
 }
 
 const CONFIG_FILENAME = "opper-docs.config.json";
@@ -27,26 +152,290 @@ export async function loadConfig(cliOptions: Partial<Config>): Promise<Config> {
 
   const merged: Config = {
     spec: cliOptions.spec ?? fileConfig.spec ?? "",
+    specs: cliOptions.spec ? undefined : fileConfig.specs,
+    versions: cliOptions.spec ? undefined : fileConfig.versions,
+    latestVersion: fileConfig.latestVersion,
     output: cliOptions.output ?? fileConfig.output ?? "./docs",
     instructions: cliOptions.instructions ?? fileConfig.instructions,
-    model: cliOptions.model ?? fileConfig.model ?? DEFAULT_MODEL,
+    backend: fileConfig.backend ?? { type: "opper" },
     site: cliOptions.site ?? fileConfig.site ?? false,
     force: cliOptions.force ?? false,
+    replan: cliOptions.replan ?? false,
+    mode: cliOptions.mode ?? fileConfig.mode ?? "ai",
     title: cliOptions.title ?? fileConfig.title,
     icon: cliOptions.icon ?? fileConfig.icon,
+    audience: cliOptions.audience ?? fileConfig.audience,
+    lintFailOn: cliOptions.lintFailOn ?? fileConfig.lintFailOn ?? "none",
+    strictExamples: cliOptions.strictExamples ?? fileConfig.strictExamples ?? false,
+    exampleRetries: cliOptions.exampleRetries ?? fileConfig.exampleRetries ?? 2,
+    strictLinks: cliOptions.strictLinks ?? fileConfig.strictLinks ?? false,
+    fixAnchors: cliOptions.fixAnchors ?? fileConfig.fixAnchors ?? false,
+    review: cliOptions.review ?? fileConfig.review ?? false,
+    reviewThreshold: cliOptions.reviewThreshold ?? fileConfig.reviewThreshold ?? 7,
+    reviewRounds: cliOptions.reviewRounds ?? fileConfig.reviewRounds ?? 2,
+    maxCost: cliOptions.maxCost ?? fileConfig.maxCost,
+    maxTokens: cliOptions.maxTokens ?? fileConfig.maxTokens,
+    estimate: cliOptions.estimate ?? false,
+    dryRun: cliOptions.dryRun ?? false,
+    reusePlan: cliOptions.reusePlan ?? false,
+    concurrency: cliOptions.concurrency ?? fileConfig.concurrency ?? 4,
+    retries: cliOptions.retries ?? fileConfig.retries ?? 2,
+    locked: fileConfig.locked,
+    onEdit: cliOptions.onEdit ?? fileConfig.onEdit ?? "skip",
+    overrides: fileConfig.overrides,
+    guides: cliOptions.guides ?? fileConfig.guides,
+    languages: cliOptions.languages ?? fileConfig.languages,
+    locales: cliOptions.locales ?? fileConfig.locales,
+    defaultLocale: fileConfig.defaultLocale ?? "en",
+    localeMode: cliOptions.localeMode ?? fileConfig.localeMode ?? "translate",
   };
 
-  if (!merged.spec) {
+  if (!LINT_THRESHOLDS.includes(merged.lintFailOn!)) {
     throw new Error(
-      "No spec file provided. Use --spec or set 'spec' in opper-docs.config.json"
+      `Invalid lintFailOn '${merged.lintFailOn}'. Expected one of: ${LINT_THRESHOLDS.join(", ")}`
     );
   }
 
-  if (!process.env.OPPER_API_KEY) {
+  if (merged.locked !== undefined && (!Array.isArray(merged.locked) || merged.locked.some((key) => typeof key !== "string"))) {
+    throw new Error("'locked' must be a list of section ids or output paths");
+  }
+
+  if (!EDIT_POLICIES.includes(merged.onEdit!)) {
+    throw new Error(`Invalid onEdit '${merged.onEdit}'. Expected one of: ${EDIT_POLICIES.join(", ")}`);
+  }
+
+  if (!Number.isInteger(merged.exampleRetries) || merged.exampleRetries! < 0) {
+    throw new Error(`Invalid exampleRetries '${merged.exampleRetries}'. Expected a non-negative integer`);
+  }
+
+  if (typeof merged.reviewThreshold !== "number" || isNaN(merged.reviewThreshold) || merged.reviewThreshold < 0 || merged.reviewThreshold > 10) {
+    throw new Error(`Invalid reviewThreshold '${merged.reviewThreshold}'. Expected a number from 0 to 10`);
+  }
+  if (!Number.isInteger(merged.reviewRounds) || merged.reviewRounds! < 0) {
+    throw new Error(`Invalid reviewRounds '${merged.reviewRounds}'. Expected a non-negative integer`);
+  }
+
+  if (!Number.isInteger(merged.concurrency) || merged.concurrency! < 1) {
+    throw new Error(`Invalid concurrency '${merged.concurrency}'. Expected a positive integer`);
+  }
+  if (!Number.isInteger(merged.retries) || merged.retries! < 0) {
+    throw new Error(`Invalid retries '${merged.retries}'. Expected a non-negative integer`);
+  }
+
+  if (merged.maxCost !== undefined && (typeof merged.maxCost !== "number" || isNaN(merged.maxCost) || merged.maxCost <= 0)) {
+    throw new Error(`Invalid maxCost '${merged.maxCost}'. Expected a positive number of USD`);
+  }
+  if (merged.maxTokens !== undefined && (!Number.isInteger(merged.maxTokens) || merged.maxTokens <= 0)) {
+    throw new Error(`Invalid maxTokens '${merged.maxTokens}'. Expected a positive integer`);
+  }
+
+  if (merged.languages) {
+    if (!Array.isArray(merged.languages) || merged.languages.length === 0) {
+      throw new Error("'languages' must be a non-empty list");
+    }
+    for (const language of merged.languages) {
+      if (!SNIPPET_LANGUAGES.includes(language)) {
+        throw new Error(`Invalid language '${language}'. Expected one of: ${SNIPPET_LANGUAGES.join(", ")}`);
+      }
+    }
+  }
+
+  if (merged.locales?.length) {
+    validateLocales(merged);
+  }
+
+  if (merged.overrides) {
+    validateOverrides(merged.overrides);
+  }
+
+  // Guides are copied into the output, so they can't live inside it
+  if (merged.guides) {
+    const guidesDir = resolve(merged.guides);
+    const outputDir = resolve(merged.output);
+    if (guidesDir === outputDir || guidesDir.startsWith(outputDir + sep)) {
+      throw new Error(`'guides' directory must be outside the output directory (${merged.output})`);
+    }
+  }
+
+  // Each audience builds into its own output directory with its own manifest
+  if (merged.audience) {
+    merged.output = join(merged.output, merged.audience);
+  }
+
+  if (merged.specs?.length && merged.versions?.length) {
+    throw new Error("Set either 'specs' or 'versions' in opper-docs.config.json, not both");
+  }
+
+  if (merged.specs && merged.specs.length > 0) {
+    merged.specs = resolveSpecConfigs(merged.specs);
+  } else if (merged.versions && merged.versions.length > 0) {
+    validateVersionConfigs(merged.versions, merged.latestVersion);
+  } else if (!merged.spec) {
     throw new Error(
-      "OPPER_API_KEY environment variable is required. Get your key at https://opper.ai"
+      "No spec file provided. Use --spec or set 'spec' or 'specs' in opper-docs.config.json"
     );
   }
 
+  if (!GENERATE_MODES.includes(merged.mode!)) {
+    throw new Error(`Invalid mode '${merged.mode}'. Expected one of: ${GENERATE_MODES.join(", ")}`);
+  }
+
+  validateBackend(merged.backend!);
+  const backend = merged.backend!;
+  merged.model =
+    cliOptions.model ?? fileConfig.model ?? backend.model ?? (backend.type === "opper" ? DEFAULT_MODEL : undefined);
+
+  // Only Opper reports cost; elsewhere a cost budget needs a price to count against
+  if (merged.maxCost !== undefined && backend.type !== "opper" && !backend.pricing) {
+    throw new Error(`maxCost needs backend.pricing: the ${backend.type} backend doesn't report cost`);
+  }
+
+  // Reference mode needs no LLM, unless locales are translated. Estimates call none,
+  // and dry runs only the planner.
+  const needsLlm = merged.dryRun
+    ? merged.mode !== "reference" && !merged.reusePlan
+    : !merged.estimate && (merged.mode !== "reference" || (merged.locales?.length ?? 0) > 0);
+  if (needsLlm) {
+    checkBackendReady(backend, merged.model);
+  }
+
   return merged;
 }
+
+function validateBackend(backend: BackendConfig): void {
+  if (typeof backend !== "object" || backend === null || !BACKEND_TYPES.includes(backend.type)) {
+    throw new Error(`Invalid backend.type '${backend?.type}'. Expected one of: ${BACKEND_TYPES.join(", ")}`);
+  }
+  for (const key of ["baseUrl", "apiKeyEnv", "model"] as const) {
+    if (backend[key] !== undefined && typeof backend[key] !== "string") {
+      throw new Error(`backend.${key} must be a string`);
+    }
+  }
+  if (
+    backend.pricing !== undefined &&
+    (typeof backend.pricing?.input !== "number" || typeof backend.pricing?.output !== "number")
+  ) {
+    throw new Error("backend.pricing must have numeric 'input' and 'output' USD per million tokens");
+  }
+  if (backend.type === "openai" && !backend.baseUrl) {
+    throw new Error("backend.baseUrl is required for the openai backend");
+  }
+}
+
+/** Each backend has its own requirements before any agent can run */
+function checkBackendReady(backend: BackendConfig, model: string | undefined): void {
+  const apiKeyEnv = backend.apiKeyEnv ?? DEFAULT_API_KEY_ENV[backend.type];
+  if (apiKeyEnv && !process.env[apiKeyEnv]) {
+    throw new Error(
+      backend.type === "opper"
+        ? `${apiKeyEnv} environment variable is required. Get your key at https://opper.ai`
+        : `${apiKeyEnv} environment variable is required by the ${backend.type} backend`
+    );
+  }
+  if (!model) {
+    throw new Error(`Set 'model' or backend.model; the ${backend.type} backend has no default model`);
+  }
+}
+
+function validateLocales(config: Config): void {
+  const locales = config.locales!;
+  if (!LOCALE_PATTERN.test(config.defaultLocale!)) {
+    throw new Error(`Invalid defaultLocale '${config.defaultLocale}'. Expected a language tag such as 'en'`);
+  }
+  if (!LOCALE_MODES.includes(config.localeMode!)) {
+    throw new Error(`Invalid localeMode '${config.localeMode}'. Expected one of: ${LOCALE_MODES.join(", ")}`);
+  }
+  if (config.specs?.length || config.versions?.length) {
+    throw new Error("'locales' can't be combined with 'specs' or 'versions'");
+  }
+
+  const seen = new Set<string>();
+  for (const locale of locales) {
+    if (!LOCALE_PATTERN.test(locale)) {
+      throw new Error(`Invalid locale '${locale}'. Expected a language tag such as 'ja' or 'pt-BR'`);
+    }
+    if (locale === config.defaultLocale) {
+      throw new Error(`Locale '${locale}' is the default locale; list only additional locales`);
+    }
+    if (seen.has(locale)) {
+      throw new Error(`Duplicate locale '${locale}'`);
+    }
+    seen.add(locale);
+  }
+}
+
+function resolveSpecConfigs(specs: SpecConfig[]): SpecConfig[] {
+  const namespaces = new Set<string>();
+  const outputs = new Set<string>();
+
+  return specs.map((entry, i) => {
+    if (!entry.spec) {
+      throw new Error(`specs[${i}]: 'spec' is required`);
+    }
+    if (!entry.namespace || !/^[a-z0-9][a-z0-9-]*$/.test(entry.namespace)) {
+      throw new Error(
+        `specs[${i}]: 'namespace' is required and must be lowercase kebab-case`
+      );
+    }
+    if (namespaces.has(entry.namespace)) {
+      throw new Error(`specs[${i}]: duplicate namespace '${entry.namespace}'`);
+    }
+    namespaces.add(entry.namespace);
+
+    const output = (entry.output ?? entry.namespace).replace(/^\.\/|\/+$/g, "");
+    if (!output || output === ".") {
+      throw new Error(`specs[${i}]: 'output' must be a subdirectory`);
+    }
+    if (outputs.has(output)) {
+      throw new Error(`specs[${i}]: duplicate output directory '${output}'`);
+    }
+    outputs.add(output);
+
+    return { ...entry, output };
+  });
+}
+
+function validateVersionConfigs(versions: VersionConfig[], latestVersion?: string): void {
+  const seen = new Set<string>();
+
+  for (const [i, entry] of versions.entries()) {
+    if (!entry.spec) {
+      throw new Error(`versions[${i}]: 'spec' is required`);
+    }
+    if (!entry.version || !/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(entry.version) || entry.version === "latest") {
+      throw new Error(
+        `versions[${i}]: 'version' is required, must be a valid directory name and can't be 'latest'`
+      );
+    }
+    if (seen.has(entry.version)) {
+      throw new Error(`versions[${i}]: duplicate version '${entry.version}'`);
+    }
+    seen.add(entry.version);
+  }
+
+  if (latestVersion && !seen.has(latestVersion)) {
+    throw new Error(`latestVersion '${latestVersion}' is not listed in 'versions'`);
+  }
+}
+
+function validateOverrides(overrides: Overrides): void {
+  for (const kind of ["types", "tags", "sections"] as const) {
+    for (const [key, override] of Object.entries(overrides[kind] ?? {})) {
+      if (
+        typeof override !== "object" ||
+        override === null ||
+        (override.instructions !== undefined && typeof override.instructions !== "string") ||
+        (override.model !== undefined && typeof override.model !== "string")
+      ) {
+        throw new Error(
+          `overrides.${kind}.${key}: expected an object with optional 'instructions' and 'model' strings`
+        );
+      }
+      if (override.onEdit !== undefined && !EDIT_POLICIES.includes(override.onEdit)) {
+        throw new Error(
+          `overrides.${kind}.${key}: invalid onEdit '${override.onEdit}'. Expected one of: ${EDIT_POLICIES.join(", ")}`
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,471 @@
+import type { OpenAPIV3 } from "openapi-types";
+import { listEndpoints } from "./spec-index.js";
+import type { SpecIndex, EndpointInfo } from "./spec-index.js";
+
+export type ChangeKind = "breaking" | "non-breaking" | "docs-only";
+
+export interface SpecChange {
+  kind: ChangeKind;
+  /** Where the change was found, e.g. "GET /pets" or "security apiKey" */
+  location: string;
+  message: string;
+}
+
+export interface SpecDiff {
+  changes: SpecChange[];
+  counts: Record<ChangeKind, number>;
+}
+
+/**
+ * Which side of the API a schema is on. Clients send request schemas and
+ * receive response schemas, so the same change can be breaking on one side
+ * and safe on the other.
+ */
+type Direction = "request" | "response";
+
+const KIND_ORDER: ChangeKind[] = ["breaking", "non-breaking", "docs-only"];
+
+/**
+ * Compare two indexed specs and classify every change as breaking,
+ * non-breaking or docs-only from the point of view of an existing client.
+ */
+export function diffSpecs(base: SpecIndex, head: SpecIndex): SpecDiff {
+  const changes: SpecChange[] = [];
+  const add = (kind: ChangeKind, location: string, message: string) =>
+    changes.push({ kind, location, message });
+
+  // API info and tags
+  if (base.info.description !== head.info.description) {
+    add("docs-only", "info", "API description changed");
+  }
+  const baseTags = new Map(base.tags.map((t) => [t.name, t]));
+  for (const tag of head.tags) {
+    const previous = baseTags.get(tag.name);
+    if (previous && previous.description !== tag.description) {
+      add("docs-only", `tag ${tag.name}`, "Tag description changed");
+    }
+  }
+
+  // Endpoints by method + path
+  const names: SchemaNames = new Map(
+    [...base.schemas, ...head.schemas].map(([name, schema]) => [schema, name])
+  );
+  const baseEndpoints = endpointMap(base);
+  const headEndpoints = endpointMap(head);
+
+  for (const [key, endpoint] of baseEndpoints) {
+    const next = headEndpoints.get(key);
+    if (!next) {
+      add("breaking", key, "Endpoint removed");
+      continue;
+    }
+    diffOperation(endpoint.operation, next.operation, key, add, names);
+  }
+  for (const key of headEndpoints.keys()) {
+    if (!baseEndpoints.has(key)) add("non-breaking", key, "Endpoint added");
+  }
+
+  // Security schemes
+  for (const [name, scheme] of Object.entries(base.security)) {
+    const next = head.security[name];
+    const location = `security ${name}`;
+    if (!next) {
+      add("breaking", location, "Security scheme removed");
+    } else if (!sameSecurityScheme(scheme, next)) {
+      add("breaking", location, "Security scheme changed");
+    } else if (scheme.description !== next.description) {
+      add("docs-only", location, "Security scheme description changed");
+    }
+  }
+  for (const name of Object.keys(head.security)) {
+    if (!base.security[name]) add("non-breaking", `security ${name}`, "Security scheme added");
+  }
+
+  // Named schemas (structural changes surface through the endpoints using them)
+  for (const name of base.schemas.keys()) {
+    if (!head.schemas.has(name)) add("non-breaking", `schema ${name}`, "Schema removed from components");
+  }
+  for (const name of head.schemas.keys()) {
+    if (!base.schemas.has(name)) add("non-breaking", `schema ${name}`, "Schema added to components");
+  }
+
+  changes.sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind));
+
+  const counts: Record<ChangeKind, number> = { breaking: 0, "non-breaking": 0, "docs-only": 0 };
+  for (const change of changes) counts[change.kind]++;
+
+  return { changes, counts };
+}
+
+/** Render a diff as a markdown report, e.g. for a PR comment. */
+export function formatDiffMarkdown(diff: SpecDiff): string {
+  const lines = ["# API changes", ""];
+  if (diff.changes.length === 0) {
+    lines.push("No changes.");
+    return lines.join("\n") + "\n";
+  }
+
+  lines.push(
+    `**${diff.counts.breaking} breaking**, ${diff.counts["non-breaking"]} non-breaking, ${diff.counts["docs-only"]} docs-only`
+  );
+
+  const headings: Record<ChangeKind, string> = {
+    breaking: "Breaking changes",
+    "non-breaking": "Non-breaking changes",
+    "docs-only": "Documentation changes",
+  };
+  for (const kind of KIND_ORDER) {
+    const changes = diff.changes.filter((c) => c.kind === kind);
+    if (changes.length === 0) continue;
+    lines.push("", `## ${headings[kind]}`, "");
+    for (const change of changes) {
+      lines.push(`- \`${change.location}\`: ${change.message}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+type AddChange = (kind: ChangeKind, location: string, message: string) => void;
+
+/** Component name of each named schema object in either spec, for matching variants */
+type SchemaNames = Map<OpenAPIV3.SchemaObject, string>;
+
+function endpointMap(specIndex: SpecIndex): Map<string, EndpointInfo> {
+  return new Map(
+    listEndpoints(specIndex).map((e) => [`${e.method.toUpperCase()} ${e.path}`, e])
+  );
+}
+
+function diffOperation(
+  base: OpenAPIV3.OperationObject,
+  head: OpenAPIV3.OperationObject,
+  location: string,
+  add: AddChange,
+  names: SchemaNames
+): void {
+  if (base.summary !== head.summary || base.description !== head.description) {
+    add("docs-only", location, "Summary or description changed");
+  }
+  if (!base.deprecated && head.deprecated) {
+    add("non-breaking", location, "Endpoint deprecated");
+  }
+  if (JSON.stringify(base.security) !== JSON.stringify(head.security)) {
+    add("breaking", location, "Security requirements changed");
+  }
+
+  // Parameters, keyed by location + name
+  const baseParams = paramMap(base);
+  const headParams = paramMap(head);
+  for (const [key, param] of baseParams) {
+    const next = headParams.get(key);
+    const where = `parameter "${param.name}" (${param.in})`;
+    if (!next) {
+      add("breaking", location, `${capitalize(where)} removed`);
+      continue;
+    }
+    if (!param.required && next.required) {
+      add("breaking", location, `${capitalize(where)} is now required`);
+    } else if (param.required && !next.required) {
+      add("non-breaking", location, `${capitalize(where)} is now optional`);
+    }
+    if (param.description !== next.description) {
+      add("docs-only", location, `${capitalize(where)} description changed`);
+    }
+    diffSchema(asSchema(param.schema), asSchema(next.schema), "request", where, location, add, names, new Set());
+  }
+  for (const [key, param] of headParams) {
+    if (baseParams.has(key)) continue;
+    const where = `parameter "${param.name}" (${param.in})`;
+    if (param.required) {
+      add("breaking", location, `Required ${where} added`);
+    } else {
+      add("non-breaking", location, `Optional ${where} added`);
+    }
+  }
+
+  // Request body
+  const baseBody = base.requestBody as OpenAPIV3.RequestBodyObject | undefined;
+  const headBody = head.requestBody as OpenAPIV3.RequestBodyObject | undefined;
+  if (!baseBody && headBody) {
+    add(headBody.required ? "breaking" : "non-breaking", location, `${headBody.required ? "Required" : "Optional"} request body added`);
+  } else if (baseBody && !headBody) {
+    add("breaking", location, "Request body removed");
+  } else if (baseBody && headBody) {
+    if (!baseBody.required && headBody.required) {
+      add("breaking", location, "Request body is now required");
+    }
+    diffContent(baseBody.content, headBody.content, "request", "request body", location, add, names);
+  }
+
+  // Responses
+  const baseResponses = (base.responses ?? {}) as Record<string, OpenAPIV3.ResponseObject>;
+  const headResponses = (head.responses ?? {}) as Record<string, OpenAPIV3.ResponseObject>;
+  for (const [code, response] of Object.entries(baseResponses)) {
+    const next = headResponses[code];
+    if (!next) {
+      add(code.startsWith("2") ? "breaking" : "non-breaking", location, `Response ${code} removed`);
+      continue;
+    }
+    if (response.description !== next.description) {
+      add("docs-only", location, `Response ${code} description changed`);
+    }
+    diffContent(response.content, next.content, "response", `response ${code}`, location, add, names);
+  }
+  for (const code of Object.keys(headResponses)) {
+    if (!(code in baseResponses)) add("non-breaking", location, `Response ${code} added`);
+  }
+}
+
+function diffContent(
+  base: Record<string, OpenAPIV3.MediaTypeObject> | undefined,
+  head: Record<string, OpenAPIV3.MediaTypeObject> | undefined,
+  direction: Direction,
+  where: string,
+  location: string,
+  add: AddChange,
+  names: SchemaNames
+): void {
+  const baseContent = base ?? {};
+  const headContent = head ?? {};
+  for (const [mediaType, media] of Object.entries(baseContent)) {
+    const next = headContent[mediaType];
+    if (!next) {
+      add("breaking", location, `${capitalize(where)} media type ${mediaType} removed`);
+      continue;
+    }
+    diffSchema(asSchema(media.schema), asSchema(next.schema), direction, where, location, add, names, new Set());
+  }
+  for (const mediaType of Object.keys(headContent)) {
+    if (!(mediaType in baseContent)) {
+      add("non-breaking", location, `${capitalize(where)} media type ${mediaType} added`);
+    }
+  }
+}
+
+function diffSchema(
+  base: OpenAPIV3.SchemaObject | undefined,
+  head: OpenAPIV3.SchemaObject | undefined,
+  direction: Direction,
+  where: string,
+  location: string,
+  add: AddChange,
+  names: SchemaNames,
+  seen: Set<OpenAPIV3.SchemaObject>
+): void {
+  if (!base || !head) {
+    // A schema constrains what clients send and promises what they receive:
+    // gaining one is breaking for requests, losing one for responses
+    if (base !== head) {
+      const breaking = base ? direction === "response" : direction === "request";
+      add(breaking ? "breaking" : "non-breaking", location, `${capitalize(where)} schema ${base ? "removed" : "added"}`);
+    }
+    return;
+  }
+  // Dereferenced schemas can be recursive; stop when a schema contains itself
+  if (seen.has(base)) return;
+  seen.add(base);
+  diffSchemaBody(base, head, direction, where, location, add, names, seen);
+  seen.delete(base);
+}
+
+function diffSchemaBody(
+  base: OpenAPIV3.SchemaObject,
+  head: OpenAPIV3.SchemaObject,
+  direction: Direction,
+  where: string,
+  location: string,
+  add: AddChange,
+  names: SchemaNames,
+  seen: Set<OpenAPIV3.SchemaObject>
+): void {
+  base = mergeAllOf(base);
+  head = mergeAllOf(head);
+
+  if (base.type !== head.type) {
+    add("breaking", location, `${capitalize(where)} type changed from ${base.type ?? "any"} to ${head.type ?? "any"}`);
+    return;
+  }
+  if (base.format !== head.format) {
+    add("breaking", location, `${capitalize(where)} format changed from ${base.format ?? "none"} to ${head.format ?? "none"}`);
+  }
+  if (base.description !== head.description) {
+    add("docs-only", location, `${capitalize(where)} description changed`);
+  }
+
+  // Enums: clients can't send removed values, and may not understand new ones
+  if (base.enum || head.enum) {
+    const baseValues = new Set((base.enum ?? []).map((v) => JSON.stringify(v)));
+    const headValues = new Set((head.enum ?? []).map((v) => JSON.stringify(v)));
+    const removed = [...baseValues].filter((v) => !headValues.has(v));
+    const added = [...headValues].filter((v) => !baseValues.has(v));
+    if (removed.length > 0) {
+      add(direction === "request" ? "breaking" : "non-breaking", location, `${capitalize(where)} enum values removed: ${removed.join(", ")}`);
+    }
+    if (added.length > 0) {
+      add(direction === "response" ? "breaking" : "non-breaking", location, `${capitalize(where)} enum values added: ${added.join(", ")}`);
+    }
+  }
+
+  // Properties
+  const baseProps = base.properties ?? {};
+  const headProps = head.properties ?? {};
+  const baseRequired = new Set(base.required ?? []);
+  const headRequired = new Set(head.required ?? []);
+
+  for (const [name, prop] of Object.entries(baseProps)) {
+    const propWhere = `${where} property "${name}"`;
+    if (!(name in headProps)) {
+      add("breaking", location, `${capitalize(propWhere)} removed`);
+      continue;
+    }
+    if (direction === "request" && !baseRequired.has(name) && headRequired.has(name)) {
+      add("breaking", location, `${capitalize(propWhere)} is now required`);
+    }
+    if (direction === "response" && baseRequired.has(name) && !headRequired.has(name)) {
+      add("breaking", location, `${capitalize(propWhere)} is no longer always present`);
+    }
+    diffSchema(asSchema(prop), asSchema(headProps[name]), direction, propWhere, location, add, names, seen);
+  }
+  for (const name of Object.keys(headProps)) {
+    if (name in baseProps) continue;
+    const propWhere = `${where} property "${name}"`;
+    if (direction === "request" && headRequired.has(name)) {
+      add("breaking", location, `Required ${propWhere} added`);
+    } else {
+      add("non-breaking", location, `${capitalize(propWhere)} added`);
+    }
+  }
+
+  // Array items
+  if (base.type === "array") {
+    const baseItems = asSchema((base as OpenAPIV3.ArraySchemaObject).items);
+    const headItems = asSchema((head as OpenAPIV3.ArraySchemaObject).items);
+    diffSchema(baseItems, headItems, direction, `${where} items`, location, add, names, seen);
+  }
+
+  // oneOf/anyOf variants. Like enum values, clients can't send removed
+  // variants, and may not understand new ones.
+  for (const keyword of ["oneOf", "anyOf"] as const) {
+    const baseVariants = (base[keyword] ?? []).map((v) => asSchema(v) ?? {});
+    const headVariants = (head[keyword] ?? []).map((v) => asSchema(v) ?? {});
+    const discriminator = (head.discriminator ?? base.discriminator)?.propertyName;
+    const matches = matchVariants(baseVariants, headVariants, names, discriminator);
+
+    for (const [i, variant] of baseVariants.entries()) {
+      const variantWhere = `${where} ${keyword} variant ${i + 1}`;
+      const match = matches.get(i);
+      if (match === undefined) {
+        add(direction === "request" ? "breaking" : "non-breaking", location, `${capitalize(variantWhere)} removed`);
+        continue;
+      }
+      diffSchema(variant, headVariants[match], direction, variantWhere, location, add, names, seen);
+    }
+    const matched = new Set(matches.values());
+    for (const i of headVariants.keys()) {
+      if (matched.has(i)) continue;
+      add(direction === "response" ? "breaking" : "non-breaking", location, `${capitalize(`${where} ${keyword} variant ${i + 1}`)} added`);
+    }
+  }
+}
+
+/**
+ * Pair base variants with head variants (base index to head index). Variants
+ * with the same identity pair up first, wherever they moved; the rest pair
+ * in order, so an edited variant is compared with its old self.
+ */
+function matchVariants(
+  base: OpenAPIV3.SchemaObject[],
+  head: OpenAPIV3.SchemaObject[],
+  names: SchemaNames,
+  discriminator?: string
+): Map<number, number> {
+  const matches = new Map<number, number>();
+  const headKeys = head.map((v) => variantKey(v, names, discriminator));
+  const unmatchedHead = new Set(head.keys());
+
+  for (const [i, variant] of base.entries()) {
+    const key = variantKey(variant, names, discriminator);
+    const j = [...unmatchedHead].find((j) => headKeys[j] === key);
+    if (j === undefined) continue;
+    matches.set(i, j);
+    unmatchedHead.delete(j);
+  }
+
+  const remainingHead = [...unmatchedHead];
+  for (const i of base.keys()) {
+    if (matches.has(i) || remainingHead.length === 0) continue;
+    matches.set(i, remainingHead.shift()!);
+  }
+  return matches;
+}
+
+/**
+ * What identifies a variant across versions: the component name it was
+ * `$ref`'d by, its title, its discriminator value, or else its type and
+ * property names.
+ */
+function variantKey(variant: OpenAPIV3.SchemaObject, names: SchemaNames, discriminator?: string): string {
+  const name = names.get(variant);
+  if (name) return `ref:${name}`;
+  const schema = mergeAllOf(variant);
+  if (schema.title) return `title:${schema.title}`;
+
+  const tag = discriminator ? asSchema(schema.properties?.[discriminator]) : undefined;
+  const tagValue = tag?.enum?.length === 1 ? tag.enum[0] : (tag as { const?: unknown } | undefined)?.const;
+  if (tagValue !== undefined) return `discriminator:${JSON.stringify(tagValue)}`;
+
+  const properties = Object.keys(schema.properties ?? {}).sort();
+  return `shape:${schema.type ?? "any"}:${schema.format ?? ""}:${properties.join(",")}`;
+}
+
+/**
+ * A schema with its allOf branches merged in, so a property compares the
+ * same whichever branch declares it.
+ */
+function mergeAllOf(schema: OpenAPIV3.SchemaObject): OpenAPIV3.SchemaObject {
+  if (!schema.allOf?.length) return schema;
+
+  const { allOf, ...rest } = schema;
+  const properties = { ...rest.properties };
+  const required = [...(rest.required ?? [])];
+  let type = rest.type;
+  for (const branch of allOf) {
+    const merged = mergeAllOf(asSchema(branch) ?? {});
+    type ??= merged.type;
+    Object.assign(properties, merged.properties);
+    required.push(...(merged.required ?? []));
+  }
+
+  return {
+    ...rest,
+    type,
+    ...(Object.keys(properties).length > 0 && { properties }),
+    ...(required.length > 0 && { required: [...new Set(required)] }),
+  } as OpenAPIV3.SchemaObject;
+}
+
+function paramMap(operation: OpenAPIV3.OperationObject): Map<string, OpenAPIV3.ParameterObject> {
+  const params = (operation.parameters ?? []) as OpenAPIV3.ParameterObject[];
+  return new Map(params.map((p) => [`${p.in}:${p.name}`, p]));
+}
+
+function sameSecurityScheme(
+  a: OpenAPIV3.SecuritySchemeObject,
+  b: OpenAPIV3.SecuritySchemeObject
+): boolean {
+  const { description: _a, ...restA } = a;
+  const { description: _b, ...restB } = b;
+  return JSON.stringify(restA) === JSON.stringify(restB);
+}
+
+function asSchema(
+  schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | undefined
+): OpenAPIV3.SchemaObject | undefined {
+  // Specs are dereferenced, so references never remain
+  return schema as OpenAPIV3.SchemaObject | undefined;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
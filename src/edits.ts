@@ -0,0 +1,143 @@
+import { readFile, writeFile, mkdir, rm } from "fs/promises";
+import { resolve, join, dirname } from "path";
+import { sha256 } from "./manifest.js";
+import type { SectionManifest } from "./manifest.js";
+
+/**
+ * What `generate` does with a page edited by hand since it was generated:
+ * leave it alone, write the new version next to it as `.new.md`, or merge
+ * the new version into the edits.
+ */
+export type EditPolicy = "skip" | "new" | "merge";
+
+export const EDIT_POLICIES: EditPolicy[] = ["skip", "new", "merge"];
+
+/** Output subdirectory holding a copy of each page as generated, the base for merges */
+const GENERATED_DIR = ".openapi-docs-generated";
+
+/**
+ * The page on disk, if it was edited after it was generated. Pages written
+ * before file hashes were recorded, and deleted pages, count as unedited.
+ */
+export async function readEdited(outputDir: string, entry: SectionManifest | undefined): Promise<string | undefined> {
+  if (!entry?.fileHash) return undefined;
+  let content: string;
+  try {
+    content = await readFile(resolve(join(outputDir, entry.outputPath)), "utf-8");
+  } catch {
+    return undefined;
+  }
+  return sha256(content) === entry.fileHash ? undefined : content;
+}
+
+/** Keep a copy of a page as generated, to merge later edits against */
+export async function saveGenerated(outputDir: string, outputPath: string, content: string): Promise<void> {
+  const filePath = resolve(join(outputDir, GENERATED_DIR, outputPath));
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, content);
+}
+
+export async function readGenerated(outputDir: string, outputPath: string): Promise<string | undefined> {
+  try {
+    return await readFile(resolve(join(outputDir, GENERATED_DIR, outputPath)), "utf-8");
+  } catch {
+    return undefined;
+  }
+}
+
+export async function removeGenerated(outputDir: string, outputPath: string): Promise<void> {
+  await rm(resolve(join(outputDir, GENERATED_DIR, outputPath)), { force: true });
+}
+
+/** Where the new version of an edited page goes, e.g. "endpoints/pets.new.md" */
+export function newVersionPath(outputPath: string): string {
+  return outputPath.replace(/(\.md)?$/, ".new.md");
+}
+
+export interface MergeResult {
+  text: string;
+  /** Regions both sides changed differently, marked in `text` like git does */
+  conflicts: number;
+}
+
+/**
+ * Three-way merge by line: keep the edits made to `base` on one side and the
+ * changes generation made on the other. Where both changed the same lines
+ * differently, both versions are kept between conflict markers.
+ */
+export function mergeThreeWay(base: string, edited: string, generated: string): MergeResult {
+  const baseLines = base.split("\n");
+  const editedLines = edited.split("\n");
+  const generatedLines = generated.split("\n");
+  const toEdited = matchLines(baseLines, editedLines);
+  const toGenerated = matchLines(baseLines, generatedLines);
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let e = 0;
+  let g = 0;
+
+  // Walk from one base line both sides kept to the next, resolving the chunk between
+  for (;;) {
+    let sync = b;
+    while (sync < baseLines.length && (toEdited[sync] === -1 || toGenerated[sync] === -1)) sync++;
+    const done = sync >= baseLines.length;
+    const eEnd = done ? editedLines.length : toEdited[sync];
+    const gEnd = done ? generatedLines.length : toGenerated[sync];
+
+    const baseChunk = baseLines.slice(b, sync);
+    const editedChunk = editedLines.slice(e, eEnd);
+    const generatedChunk = generatedLines.slice(g, gEnd);
+    if (sameLines(editedChunk, baseChunk) || sameLines(editedChunk, generatedChunk)) {
+      out.push(...generatedChunk);
+    } else if (sameLines(generatedChunk, baseChunk)) {
+      out.push(...editedChunk);
+    } else {
+      conflicts++;
+      out.push("<<<<<<< edited", ...editedChunk, "=======", ...generatedChunk, ">>>>>>> generated");
+    }
+
+    if (done) break;
+    out.push(baseLines[sync]);
+    b = sync + 1;
+    e = eEnd + 1;
+    g = gEnd + 1;
+  }
+
+  return { text: out.join("\n"), conflicts };
+}
+
+/** For each line of `a`, the index of the line it matches in `b` (longest common subsequence), or -1 */
+function matchLines(a: string[], b: string[]): number[] {
+  const n = a.length;
+  const m = b.length;
+  // lengths[i * (m + 1) + j]: LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const matches = new Array<number>(n).fill(-1);
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      matches[i++] = j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
@@ -0,0 +1,191 @@
+import type { Config } from "./config.js";
+import type { SpecIndex } from "./spec-index.js";
+import type { Manifest } from "./manifest.js";
+import type { Section } from "./agents/planner.js";
+import { sectionInputs } from "./hashing.js";
+import type { StaleReason } from "./plan.js";
+import { inspectOutputs } from "./preview.js";
+import type { LlmUsage } from "./backends/types.js";
+import { emptyUsage } from "./backends/types.js";
+import { addUsage, priceUsage, formatUsage } from "./usage.js";
+
+/** Where an estimate comes from: what the same page cost last time, or the size of what it is written from */
+export type EstimateBasis = "previous run" | "input size";
+
+export interface PageEstimate {
+  title: string;
+  outputPath: string;
+  reason: StaleReason;
+  usage: LlmUsage;
+  basis: EstimateBasis;
+}
+
+export interface OutputEstimate {
+  /** Output directory relative to `output`, "." for the root */
+  output: string;
+  /** Present when the planner would run */
+  planner?: { usage: LlmUsage; basis: EstimateBasis };
+  pages: PageEstimate[];
+  cached: number;
+}
+
+export interface Estimate {
+  outputs: OutputEstimate[];
+  total: LlmUsage;
+}
+
+// Rough shape of a writer run: a few tool round trips, each resending the
+// instructions and what was read so far
+const WRITER_REQUESTS = 4;
+const PROMPT_TOKENS = 3000;
+const MIN_OUTPUT_TOKENS = 1000;
+const MAX_OUTPUT_TOKENS = 8000;
+const PLANNER_REQUESTS = 6;
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Predict what `generate` would cost, without calling an LLM: which pages
+ * would be written, and tokens and cost for each. Pages written before are
+ * estimated from what they cost last time, new ones from the size of the
+ * spec they are written from.
+ */
+export async function estimateGenerate(config: Config): Promise<Estimate> {
+  // The saved plan (or the reference plan) stands in for the planner's
+  const states = await inspectOutputs(config, { reusePlan: true });
+  const outputs: OutputEstimate[] = [];
+  const written = new Map<string, PageEstimate>();
+
+  for (const state of states) {
+    const estimate: OutputEstimate = { output: state.output, pages: [], cached: 0 };
+    const { manifest, specIndex } = state;
+    if (state.plan.plannerSkipped && specIndex) {
+      estimate.planner = manifest?.planUsage
+        ? { usage: manifest.planUsage, basis: "previous run" }
+        : { usage: plannerUsage(specIndex, config, manifest), basis: "input size" };
+    }
+
+    for (const page of state.sections) {
+      // Locked pages, and pages edited by hand that a run leaves alone, cost nothing either
+      if (!page.reason || page.locked || page.edited === "skip") {
+        estimate.cached++;
+        continue;
+      }
+      const previous = page.reason === "new" ? undefined : previousUsage(manifest, page.id);
+      let usage: LlmUsage;
+      if (previous) {
+        usage = previous;
+      } else if (state.kind === "translation") {
+        // Pages the root docs get for the first time are as long as their estimate says
+        const chars = state.sourceChars?.get(page.outputPath) ?? (written.get(page.outputPath)?.usage.outputTokens ?? 0) * CHARS_PER_TOKEN;
+        usage = translationUsage(chars, config, manifest);
+      } else {
+        // Reference pages are built without an LLM
+        usage = config.mode === "reference" ? emptyUsage() : sectionUsage(state.planned!.get(page.id)!, specIndex!, config, manifest);
+      }
+      estimate.pages.push({
+        title: page.title,
+        outputPath: page.outputPath,
+        reason: page.reason,
+        usage,
+        basis: previous ? "previous run" : "input size",
+      });
+    }
+
+    if (state.output === ".") {
+      for (const page of estimate.pages) written.set(page.outputPath, page);
+    }
+    outputs.push(estimate);
+  }
+
+  const total = outputs
+    .flatMap((o) => [...(o.planner ? [o.planner.usage] : []), ...o.pages.map((p) => p.usage)])
+    .reduce(addUsage, emptyUsage());
+  return { outputs, total };
+}
+
+function previousUsage(manifest: Manifest | null, id: string): LlmUsage | undefined {
+  return manifest?.sections[id]?.usage ?? manifest?.guides?.[id]?.usage;
+}
+
+function sectionUsage(section: Section, specIndex: SpecIndex, config: Config, manifest: Manifest | null): LlmUsage {
+  const contentTokens = JSON.stringify(sectionInputs(section, specIndex).map((input) => input.value)).length / CHARS_PER_TOKEN;
+  const outputTokens = Math.min(Math.max(contentTokens / 2, MIN_OUTPUT_TOKENS), MAX_OUTPUT_TOKENS);
+  // A review round is about half a writer run
+  const scale = config.review ? 1.5 : 1;
+  return usageOf(
+    Math.round(WRITER_REQUESTS * scale),
+    (WRITER_REQUESTS * PROMPT_TOKENS + 3 * contentTokens) * scale,
+    outputTokens * scale,
+    config,
+    manifest
+  );
+}
+
+function plannerUsage(specIndex: SpecIndex, config: Config, manifest: Manifest | null): LlmUsage {
+  // The planner lists tags and skims endpoints rather than reading everything
+  const outlineTokens =
+    JSON.stringify(Array.from(specIndex.pathsByTag.values()).flat().map((e) => [e.method, e.path, e.operation.summary]))
+      .length / CHARS_PER_TOKEN;
+  return usageOf(PLANNER_REQUESTS, PLANNER_REQUESTS * PROMPT_TOKENS + 3 * outlineTokens, 1500, config, manifest);
+}
+
+function translationUsage(chars: number, config: Config, manifest: Manifest | null): LlmUsage {
+  const tokens = Math.max(chars, 1000 * CHARS_PER_TOKEN) / CHARS_PER_TOKEN;
+  return usageOf(1, 1000 + tokens, tokens * 1.2, config, manifest);
+}
+
+function usageOf(
+  requests: number,
+  inputTokens: number,
+  outputTokens: number,
+  config: Config,
+  manifest: Manifest | null
+): LlmUsage {
+  const usage = {
+    requests,
+    inputTokens: Math.round(inputTokens),
+    outputTokens: Math.round(outputTokens),
+    totalTokens: Math.round(inputTokens) + Math.round(outputTokens),
+  };
+  // Price new pages at what tokens cost in the previous run, else at the configured pricing
+  const rate = costPerToken(manifest);
+  return rate !== undefined ? { ...usage, cost: usage.totalTokens * rate } : priceUsage(usage, config.backend?.pricing);
+}
+
+function costPerToken(manifest: Manifest | null): number | undefined {
+  const recorded = [
+    ...(manifest?.planUsage ? [manifest.planUsage] : []),
+    ...Object.values(manifest?.sections ?? {}).flatMap((s) => (s.usage ? [s.usage] : [])),
+  ].filter((u) => u.cost !== undefined && u.totalTokens > 0);
+  if (recorded.length === 0) return undefined;
+  const total = recorded.reduce(addUsage, emptyUsage());
+  return total.cost! / total.totalTokens;
+}
+
+/** A readable report of an estimate, with how it compares to the budget */
+export function formatEstimate(estimate: Estimate, config: Config): string {
+  const lines = ["Estimate (no LLM calls made):"];
+
+  for (const output of estimate.outputs) {
+    lines.push("", `[${output.output}]`);
+    if (output.planner) {
+      lines.push(`  Planner: ~${formatUsage(output.planner.usage)} (${output.planner.basis})`);
+    }
+    for (const page of output.pages) {
+      lines.push(`  ${page.title} (${page.outputPath}), ${page.reason}: ~${formatUsage(page.usage)} (${page.basis})`);
+    }
+    lines.push(`  ${output.pages.length} page(s) to write, ${output.cached} cached`);
+  }
+
+  lines.push("", `Total: ~${formatUsage(estimate.total)}`);
+  if (estimate.total.cost === undefined && estimate.total.requests > 0) {
+    lines.push("Cost unknown: the backend reports none yet. Set backend.pricing to estimate it.");
+  }
+  if (config.maxTokens !== undefined && estimate.total.totalTokens > config.maxTokens) {
+    lines.push(`Exceeds the ${config.maxTokens.toLocaleString("en-US")} token budget.`);
+  }
+  if (config.maxCost !== undefined && (estimate.total.cost ?? 0) > config.maxCost) {
+    lines.push(`Exceeds the $${config.maxCost} budget.`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,412 @@
+import type { OpenAPIV3 } from "openapi-types";
+import type { EndpointInfo } from "./spec-index.js";
+
+export interface ExampleOptions {
+  /**
+   * Which side of the API the example is for. Request examples leave out
+   * `readOnly` properties, response examples leave out `writeOnly` ones.
+   */
+  direction?: "request" | "response";
+  /** Only include required object properties */
+  requiredOnly?: boolean;
+}
+
+type Schema = OpenAPIV3.SchemaObject & {
+  // OpenAPI 3.1 / JSON Schema additions
+  const?: unknown;
+  examples?: unknown[];
+};
+
+// Nested schemas deeper than this are cut short to keep examples readable
+const MAX_DEPTH = 8;
+
+const FORMAT_EXAMPLES: Record<string, unknown> = {
+  "date-time": "2024-01-15T09:30:00Z",
+  date: "2024-01-15",
+  time: "09:30:00",
+  duration: "P1D",
+  email: "user@example.com",
+  uri: "https://example.com",
+  url: "https://example.com",
+  hostname: "example.com",
+  ipv4: "192.0.2.1",
+  ipv6: "2001:db8::1",
+  uuid: "3fa85f64-5717-4562-b3fc-2c963f66afa6",
+  byte: "ZXhhbXBsZQ==",
+  binary: "<binary>",
+  password: "********",
+};
+
+// Values for further distinct items of a `uniqueItems` array, numbered from 1
+const FORMAT_VARIANTS: Record<string, (n: number) => string> = {
+  "date-time": (n) => `${dateVariant(n)}T09:30:00Z`,
+  date: dateVariant,
+  email: (n) => `user${n}@example.com`,
+  uri: (n) => `https://example.com/${n}`,
+  url: (n) => `https://example.com/${n}`,
+  hostname: (n) => `host${n}.example.com`,
+  ipv4: (n) => `192.0.2.${(n % 254) + 1}`,
+  ipv6: (n) => `2001:db8::${(n + 1).toString(16)}`,
+  uuid: (n) => `3fa85f64-5717-4562-b3fc-${String(n).padStart(12, "0")}`,
+};
+
+// Formats that are free text, so padding or cutting them to length is safe
+const FREE_TEXT_FORMATS = new Set(["password"]);
+
+/**
+ * Build a deterministic example value for a dereferenced schema. Explicit
+ * `example`/`examples` win; otherwise the value is synthesized from `enum`,
+ * `format`, `pattern`, composition keywords, numeric and length constraints,
+ * `uniqueItems` and required properties, so it validates against the schema.
+ * The exceptions are patterns using lookarounds, backreferences or negated
+ * classes, and constraints that contradict each other (a `uuid` with a
+ * `maxLength` of 10 keeps its format).
+ */
+export function generateExample(
+  schema: OpenAPIV3.SchemaObject,
+  options: ExampleOptions = {}
+): unknown {
+  return exampleFor(schema as Schema, options, 0, new Set());
+}
+
+/**
+ * Request or response example for an endpoint, taken from its JSON media
+ * type when there is one. Returns undefined when the operation has no body
+ * for that part.
+ */
+export function generateOperationExample(
+  endpoint: EndpointInfo,
+  part: "request" | "response",
+  status?: string
+): unknown {
+  const { operation } = endpoint;
+  let content: Record<string, OpenAPIV3.MediaTypeObject> | undefined;
+
+  if (part === "request") {
+    content = (operation.requestBody as OpenAPIV3.RequestBodyObject | undefined)?.content;
+  } else {
+    const responses = (operation.responses ?? {}) as Record<string, OpenAPIV3.ResponseObject>;
+    const code = status ?? Object.keys(responses).find((c) => c.startsWith("2"));
+    content = code ? responses[code]?.content : undefined;
+  }
+  if (!content) return undefined;
+
+  const media = content[preferredMediaType(content)];
+  if (media.example !== undefined) return media.example;
+  const firstExample = Object.values(media.examples ?? {})[0] as OpenAPIV3.ExampleObject | undefined;
+  if (firstExample?.value !== undefined) return firstExample.value;
+  if (!media.schema) return undefined;
+
+  return generateExample(media.schema as OpenAPIV3.SchemaObject, { direction: part });
+}
+
+/** The media type examples are built for: JSON when offered, else the first listed. */
+export function preferredMediaType(content: Record<string, OpenAPIV3.MediaTypeObject>): string {
+  return Object.keys(content).find(isJsonMediaType) ?? Object.keys(content)[0];
+}
+
+export function isJsonMediaType(mediaType: string): boolean {
+  return mediaType === "application/json" || mediaType.endsWith("+json");
+}
+
+/**
+ * `variant` numbers the distinct values asked for by a `uniqueItems` array:
+ * 0 is the usual example, and each later one differs where the schema
+ * leaves room (another enum value, number, string or format value).
+ */
+function exampleFor(
+  schema: Schema,
+  options: ExampleOptions,
+  depth: number,
+  seen: Set<Schema>,
+  variant = 0
+): unknown {
+  if (variant === 0 && schema.example !== undefined) return schema.example;
+  if (Array.isArray(schema.examples) && schema.examples.length > variant) return schema.examples[variant];
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum && schema.enum.length > 0) {
+    const values = schema.enum.filter((v) => v !== null);
+    return values.length > 0 ? values[variant % values.length] : schema.enum[0];
+  }
+  if (variant === 0 && schema.default !== undefined) return schema.default;
+
+  // Recursive schemas: stop when a schema contains itself
+  if (seen.has(schema) || depth > MAX_DEPTH) return emptyValue(schema);
+  seen.add(schema);
+  try {
+    return synthesize(schema, options, depth, seen, variant);
+  } finally {
+    seen.delete(schema);
+  }
+}
+
+function synthesize(
+  schema: Schema,
+  options: ExampleOptions,
+  depth: number,
+  seen: Set<Schema>,
+  variant: number
+): unknown {
+  const next = (s: unknown, v = variant) => exampleFor(s as Schema, options, depth + 1, seen, v);
+
+  if (schema.allOf && schema.allOf.length > 0) {
+    const parts = schema.allOf.map((s) => next(s));
+    if (parts.every(isPlainObject)) {
+      const own = schema.properties ? synthesize({ ...schema, allOf: undefined }, options, depth, seen, variant) : {};
+      return Object.assign({}, ...parts, own);
+    }
+    return parts[0];
+  }
+
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (variants && variants.length > 0) {
+    const variant = variants.find((v) => !isNullSchema(v as Schema)) ?? variants[0];
+    return next(variant);
+  }
+
+  switch (resolveType(schema)) {
+    case "null":
+      return null;
+    case "object":
+      return objectExample(schema, options, next);
+    case "array":
+      return arrayExample(schema, next);
+    case "string":
+      return stringExample(schema, variant);
+    case "integer":
+      return numberExample(schema, true, variant);
+    case "number":
+      return numberExample(schema, false, variant);
+    case "boolean":
+      return variant % 2 === 0;
+    default:
+      return schema.nullable ? null : "string";
+  }
+}
+
+function objectExample(
+  schema: Schema,
+  options: ExampleOptions,
+  next: (s: unknown) => unknown
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  const required = new Set(schema.required ?? []);
+
+  for (const [name, prop] of Object.entries(schema.properties ?? {})) {
+    const propSchema = prop as Schema;
+    if (options.requiredOnly && !required.has(name)) continue;
+    if (options.direction === "request" && propSchema.readOnly && !required.has(name)) continue;
+    if (options.direction === "response" && propSchema.writeOnly && !required.has(name)) continue;
+    result[name] = next(propSchema);
+  }
+
+  if (
+    Object.keys(result).length === 0 &&
+    schema.additionalProperties &&
+    typeof schema.additionalProperties === "object"
+  ) {
+    result.key = next(schema.additionalProperties);
+  }
+
+  return result;
+}
+
+function arrayExample(schema: Schema, next: (s: unknown, variant?: number) => unknown): unknown[] {
+  const items = (schema as OpenAPIV3.ArraySchemaObject).items;
+  if (!items) return [];
+  const count = Math.max(1, schema.minItems ?? 1);
+  const capped = schema.maxItems !== undefined ? Math.min(count, schema.maxItems) : count;
+  if (!schema.uniqueItems) {
+    const item = next(items);
+    return Array.from({ length: capped }, () => item);
+  }
+
+  // Variants can repeat (a boolean has two values), so try a few extra
+  const unique = new Map<string, unknown>();
+  for (let variant = 0; unique.size < capped && variant < capped * 4; variant++) {
+    const item = next(items, variant);
+    const key = JSON.stringify(item);
+    if (!unique.has(key)) unique.set(key, item);
+  }
+  return Array.from(unique.values());
+}
+
+function stringExample(schema: Schema, variant: number): string {
+  if (schema.pattern) {
+    const value = patternExample(schema.pattern, variant);
+    if (value !== undefined) return value;
+  }
+
+  const format = schema.format && typeof FORMAT_EXAMPLES[schema.format] === "string" ? schema.format : undefined;
+  if (format && !FREE_TEXT_FORMATS.has(format)) {
+    // Padding or cutting a formatted value would break the format
+    return variant > 0 && FORMAT_VARIANTS[format] ? FORMAT_VARIANTS[format](variant) : (FORMAT_EXAMPLES[format] as string);
+  }
+
+  let value = format ? (FORMAT_EXAMPLES[format] as string) : "string";
+  const suffix = variant > 0 ? String(variant) : "";
+  if (schema.minLength !== undefined && value.length + suffix.length < schema.minLength) {
+    value = value.padEnd(schema.minLength - suffix.length, value === "string" ? "x" : value.slice(-1));
+  }
+  if (schema.maxLength !== undefined && value.length + suffix.length > schema.maxLength) {
+    value = value.slice(0, Math.max(0, schema.maxLength - suffix.length));
+  }
+  return (value + suffix).slice(0, schema.maxLength);
+}
+
+/**
+ * A string matching a regular expression, built from its literals, escapes,
+ * classes, groups and alternations with each quantifier at its minimum.
+ * Returns undefined for syntax outside that (lookarounds, backreferences,
+ * negated classes) or when the result doesn't match after all.
+ */
+function patternExample(pattern: string, variant: number): string | undefined {
+  let pos = 0;
+  const pick = (chars: string) => chars[variant % chars.length];
+
+  const alternation = (): string | undefined => {
+    const branches = [sequence()];
+    while (pattern[pos] === "|") {
+      pos++;
+      branches.push(sequence());
+    }
+    return branches[variant % branches.length] ?? branches.find((b) => b !== undefined);
+  };
+
+  const sequence = (): string | undefined => {
+    let out = "";
+    while (pos < pattern.length && pattern[pos] !== "|" && pattern[pos] !== ")") {
+      const piece = atom();
+      if (piece === undefined) return undefined;
+      out += piece.repeat(minRepeats());
+    }
+    return out;
+  };
+
+  const escape = (ch: string): string => {
+    const classes: Record<string, string> = { d: "0123456789", w: "abcdefghij", s: " ", D: "abcdefghij", W: "-", S: "abcdefghij" };
+    if (ch === "b" || ch === "B") return "";
+    return classes[ch] !== undefined ? pick(classes[ch]) : ch;
+  };
+
+  const characterClass = (): string | undefined => {
+    if (pattern[pos] === "^") return undefined;
+    let chars = "";
+    while (pos < pattern.length && pattern[pos] !== "]") {
+      let ch = pattern[pos++];
+      if (ch === "\\") {
+        const escaped = pattern[pos++];
+        ch = "dwsDWS".includes(escaped) ? escape(escaped) : escaped;
+      }
+      if (pattern[pos] === "-" && pattern[pos + 1] !== undefined && pattern[pos + 1] !== "]") {
+        const end = pattern[pos + 1];
+        pos += 2;
+        for (let code = ch.charCodeAt(0); code <= end.charCodeAt(0) && chars.length < 64; code++) {
+          chars += String.fromCharCode(code);
+        }
+      } else {
+        chars += ch;
+      }
+    }
+    pos++;
+    return chars ? pick(chars) : undefined;
+  };
+
+  const atom = (): string | undefined => {
+    const ch = pattern[pos++];
+    if (ch === "^" || ch === "$") return "";
+    if (ch === ".") return "a";
+    if (ch === "\\") return escape(pattern[pos++]);
+    if (ch === "[") return characterClass();
+    if (ch === "(") {
+      if (pattern.startsWith("?:", pos)) pos += 2;
+      else if (pattern[pos] === "?") return undefined;
+      const inner = alternation();
+      if (pattern[pos++] !== ")") return undefined;
+      return inner;
+    }
+    if ("*+?{}".includes(ch)) return undefined;
+    return ch;
+  };
+
+  const minRepeats = (): number => {
+    const ch = pattern[pos];
+    let min = 1;
+    if (ch === "*" || ch === "?") {
+      min = 0;
+      pos++;
+    } else if (ch === "+") {
+      pos++;
+    } else if (ch === "{") {
+      const bounds = /^\{(\d+)(,\d*)?\}/.exec(pattern.slice(pos));
+      if (!bounds) return 1;
+      min = Number(bounds[1]);
+      pos += bounds[0].length;
+    }
+    if (pattern[pos] === "?") pos++; // Lazy quantifier
+    return min;
+  };
+
+  try {
+    const value = alternation();
+    return value !== undefined && pos === pattern.length && new RegExp(pattern, "u").test(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function numberExample(schema: Schema, integer: boolean, variant: number): number {
+  // OpenAPI 3.0 uses boolean exclusive flags, 3.1 uses numeric bounds
+  const exclusiveMin = schema.exclusiveMinimum as boolean | number | undefined;
+  const exclusiveMax = schema.exclusiveMaximum as boolean | number | undefined;
+  const step = schema.multipleOf ?? 1;
+
+  let min = schema.minimum;
+  if (typeof exclusiveMin === "number") min = exclusiveMin + step;
+  else if (exclusiveMin === true && min !== undefined) min += step;
+
+  let max = schema.maximum;
+  if (typeof exclusiveMax === "number") max = exclusiveMax - step;
+  else if (exclusiveMax === true && max !== undefined) max -= step;
+
+  let value = min ?? (max !== undefined && max < 1 ? max : 1);
+  if (schema.multipleOf) {
+    value = Math.ceil(value / schema.multipleOf) * schema.multipleOf;
+  }
+  if (integer) value = Math.ceil(value);
+  if (max !== undefined && value > max) value = integer ? Math.floor(max) : max;
+
+  const stepped = value + variant * step;
+  return max === undefined || stepped <= max ? stepped : value;
+}
+
+function resolveType(schema: Schema): string | undefined {
+  const type = schema.type as string | string[] | undefined;
+  if (Array.isArray(type)) {
+    return type.find((t) => t !== "null") ?? "null";
+  }
+  if (type) return type;
+  if (schema.properties || schema.additionalProperties) return "object";
+  if ("items" in schema && schema.items) return "array";
+  return undefined;
+}
+
+function isNullSchema(schema: Schema): boolean {
+  return (schema.type as string | undefined) === "null";
+}
+
+/** Days 1-28 of January 2024, starting from the 15th. */
+function dateVariant(n: number): string {
+  return `2024-01-${String(((14 + n) % 28) + 1).padStart(2, "0")}`;
+}
+
+function emptyValue(schema: Schema): unknown {
+  const type = resolveType(schema);
+  if (type === "array") return [];
+  if (type === "object") return {};
+  return null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -1,37 +1,452 @@
-import { mkdir, writeFile, unlink } from "fs/promises";
-import { resolve, join, dirname } from "path";
-import type { Config } from "./config.js";
-import { buildSpecIndex } from "./spec-index.js";
+import { mkdir, writeFile, unlink, readFile } from "fs/promises";
+import { resolve, join, dirname, posix } from "path";
+import type { Config, SpecConfig, VersionConfig } from "./config.js";
+import { buildSpecIndex, formatConversion } from "./spec-index.js";
+import { filterSpecIndex } from "./audience.js";
+import type { SpecIndex } from "./spec-index.js";
 import { readManifest, writeManifest, sha256 } from "./manifest.js";
-import type { Manifest } from "./manifest.js";
-import { createPlanningAgent } from "./agents/planner.js";
-import type { DocPlan } from "./agents/planner.js";
+import type { Manifest, SectionManifest, SectionReview, SpecManifestEntry } from "./manifest.js";
+import type { DocPlan, Section } from "./agents/planner.js";
 import { createWriterAgent } from "./agents/writer.js";
-import { computeSectionHash } from "./hashing.js";
+import type { WriterInput } from "./agents/writer.js";
+import { createReviewerAgent } from "./agents/reviewer.js";
+import { createTranslatorAgent } from "./agents/translator.js";
+import { validateExamples, formatExampleIssues } from "./validate.js";
+import { computeSectionHash, computeInputHashes, computeSpecHash } from "./hashing.js";
+import { computeStructureHash, reusablePlan, runPlanner, findOrphans, staleReason, describeChanges, isLocked, lockedPaths } from "./plan.js";
+import { renderReferenceSection } from "./reference.js";
+import { lintSpec, formatLintReport, exceedsThreshold } from "./lint.js";
+import { resolveSectionSettings, sectionInstructionsHash, instructionsHashFor } from "./overrides.js";
+import { loadGuides } from "./guides.js";
+import type { Guide } from "./guides.js";
+import { generateSnippets, snippetOptionsFor, formatSamplesMarkdown, insertMissingSamples } from "./snippets.js";
+import { languageName, localeInstructions, translationInstructionsHash, protectMarkdown, restoreMarkdown, pinHeadingIds } from "./i18n.js";
+import { createBackend } from "./backends/index.js";
+import { withRetries } from "./backends/retry.js";
+import { allSettledPool } from "./pool.js";
+import { readEdited, saveGenerated, readGenerated, removeGenerated, newVersionPath, mergeThreeWay } from "./edits.js";
+import type { EditPolicy } from "./edits.js";
+import type { LlmBackend, LlmUsage } from "./backends/types.js";
+import { createUsageMeter, withUsageMeter, formatUsage } from "./usage.js";
+import type { UsageMeter } from "./usage.js";
 
-export async function generate(config: Config): Promise<void> {
+export interface GenerateOptions {
+  /** Backend to run the agents on instead of the one configured in `backend` */
+  backend?: LlmBackend;
+}
+
+/**
+ * Generate the docs. Pages that fail are reported and left out of the cache,
+ * so the next run retries them; the run then throws once everything else is
+ * written.
+ */
+export async function generate(config: Config, options: GenerateOptions = {}): Promise<void> {
+  const usage = createUsageMeter({ maxCost: config.maxCost, maxTokens: config.maxTokens });
+  const pricing = config.backend?.pricing;
+  const metered = withUsageMeter(options.backend ?? createBackend(config.backend), usage, pricing);
+  const retried = (backend: LlmBackend) =>
+    withRetries(backend, {
+      retries: config.retries ?? 2,
+      onRetry: (err, attempt, agent) =>
+        console.warn(`  Retrying ${agent} (${attempt}/${config.retries ?? 2}): ${errorMessage(err)}`),
+    });
+  const ctx: RunContext = {
+    backend: retried(metered),
+    usage,
+    meteredBy: (meter) => retried(withUsageMeter(metered, meter, pricing)),
+  };
+  const guides = config.guides ? await loadGuides(config.guides) : [];
+  if (config.guides) {
+    console.log(`Guides: ${guides.length} from ${config.guides}`);
+  }
+
+  let failed: string[];
+  if (config.specs && config.specs.length > 0) {
+    failed = await generatePortal(config, ctx, config.specs, guides);
+  } else if (config.versions && config.versions.length > 0) {
+    failed = await generateVersions(config, ctx, config.versions, guides);
+  } else {
+    const result = await generateSpec(config.spec, resolve(config.output), config, ctx, guides);
+    failed = [...result.failed, ...(await generateLocales(config, ctx, resolve(config.output), guides))];
+  }
+
+  if (usage.total.requests > 0) {
+    console.log(`\nUsage: ${formatUsage(usage.total)}`);
+  }
+
+  if (failed.length > 0) {
+    const exceeded = usage.exceeded();
+    throw new Error(
+      `${failed.length} page(s) failed: ${failed.join(", ")}.` +
+        (exceeded ? ` Budget exceeded: ${exceeded}.` : "") +
+        " Run generate again to retry them."
+    );
+  }
+}
+
+/** State shared by every spec, version and locale of one `generate` run */
+interface RunContext {
+  backend: LlmBackend;
+  usage: UsageMeter;
+  /**
+   * `backend`, also counting on `meter` inside the retries, so the usage
+   * recorded for a page includes its failed attempts like the run total does
+   */
+  meteredBy(meter: UsageMeter): LlmBackend;
+}
+
+/** Fails a section that would start after the budget ran out */
+function checkBudget(ctx: RunContext): void {
+  const exceeded = ctx.usage.exceeded();
+  if (exceeded) {
+    throw new Error(`not started, budget exceeded (${exceeded})`);
+  }
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Build each configured locale into `<output>/<locale>/` with its own
+ * manifest. In translate mode every page of the canonical docs is translated;
+ * in generate mode the locale is planned and written from the spec in its
+ * language. The root manifest records the locales for the language switcher.
+ */
+async function generateLocales(
+  config: Config,
+  ctx: RunContext,
+  outputDir: string,
+  guides: Guide[]
+): Promise<string[]> {
+  const locales = config.locales ?? [];
+  const failed: string[] = [];
+  for (const locale of locales) {
+    console.log(`\n[${locale}]`);
+    const localeDir = resolve(join(outputDir, locale));
+    if (config.localeMode === "generate") {
+      const instructions = localeInstructions(config.instructions, locale);
+      const result = await generateSpec(config.spec, localeDir, { ...config, instructions }, ctx, guides);
+      failed.push(...result.failed.map((page) => `${locale}/${page}`));
+    } else {
+      const pages = await translateDocs(outputDir, localeDir, locale, config, ctx);
+      failed.push(...pages.map((page) => `${locale}/${page}`));
+    }
+  }
+
+  const manifest = await readManifest(outputDir);
+  if (manifest && (locales.length > 0 || manifest.locales)) {
+    await writeManifest(outputDir, {
+      ...manifest,
+      locales: locales.length > 0 ? locales : undefined,
+      defaultLocale: locales.length > 0 ? config.defaultLocale ?? "en" : undefined,
+    });
+  }
+  return failed;
+}
+
+/**
+ * Translate every section and guide of the canonical docs into a locale.
+ * Translations are cached by a hash of the source markdown, so only pages
+ * whose source changed are translated again. Code blocks are swapped out
+ * before translation and headings keep their source anchors.
+ */
+async function translateDocs(
+  sourceDir: string,
+  localeDir: string,
+  locale: string,
+  config: Config,
+  ctx: RunContext
+): Promise<string[]> {
+  const source = await readManifest(sourceDir);
+  if (!source) return [];
+  await mkdir(localeDir, { recursive: true });
+
+  const previous = await readManifest(localeDir);
+  const instructionsHash = translationInstructionsHash(locale, config.instructions);
+  const translatorFor = (meter: UsageMeter) =>
+    createTranslatorAgent({
+      backend: ctx.meteredBy(meter),
+      locale,
+      instructions: config.instructions,
+      model: config.model,
+    });
+
+  const kinds = ["sections", "guides"] as const;
+  const entries = { sections: {} as Record<string, SectionManifest>, guides: {} as Record<string, SectionManifest> };
+  const pending: { kind: (typeof kinds)[number]; id: string; entry: SectionManifest; markdown: string; sourceHash: string }[] = [];
+  const failed: string[] = [];
+
+  for (const kind of kinds) {
+    for (const [id, entry] of Object.entries(source[kind] ?? {})) {
+      let markdown: string;
+      try {
+        markdown = await readFile(resolve(join(sourceDir, entry.outputPath)), "utf-8");
+      } catch (err) {
+        console.error(`  Failed: ${entry.outputPath}: ${errorMessage(err)}`);
+        failed.push(entry.outputPath);
+        const stale = previous?.[kind]?.[id];
+        if (stale) entries[kind][id] = stale;
+        continue;
+      }
+      const sourceHash = sha256(markdown);
+      const cached = previous?.[kind]?.[id];
+      if (
+        !config.force &&
+        cached?.sourceHash === sourceHash &&
+        cached.instructionsHash === instructionsHash &&
+        cached.outputPath === entry.outputPath
+      ) {
+        console.log(`  [cached] ${cached.title}`);
+        entries[kind][id] = cached;
+      } else {
+        pending.push({ kind, id, entry, markdown, sourceHash });
+      }
+    }
+  }
+
+  if (pending.length > 0) {
+    console.log(`Translating ${pending.length} page(s) into ${languageName(locale)}...`);
+  }
+  const results = await allSettledPool(pending, config.concurrency ?? 4, async ({ markdown }) => {
+    checkBudget(ctx);
+    const { text, kept } = protectMarkdown(markdown);
+    const usage = createUsageMeter();
+    const { result } = await translatorFor(usage).run({ markdown: text });
+    return { markdown: pinHeadingIds(markdown, restoreMarkdown(result.markdown, kept)), usage: usage.total };
+  });
+
+  for (const [i, r] of results.entries()) {
+    const { kind, id, entry, sourceHash } = pending[i];
+    if (r.status === "rejected") {
+      console.error(`  Failed: ${entry.outputPath}: ${errorMessage(r.reason)}`);
+      failed.push(entry.outputPath);
+      // Keep the stale translation until a retry succeeds; its source hash no longer matches
+      const stale = previous?.[kind]?.[id];
+      if (stale) entries[kind][id] = stale;
+      continue;
+    }
+
+    const markdown = r.value.markdown.trimEnd() + "\n";
+    const filePath = resolve(join(localeDir, entry.outputPath));
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, markdown);
+    console.log(`  Wrote: ${locale}/${entry.outputPath}`);
+
+    entries[kind][id] = {
+      ...entry,
+      title: markdown.match(/^#\s+(.+)$/m)?.[1].trim() ?? entry.title,
+      contentHash: sha256(markdown),
+      generatedAt: new Date().toISOString(),
+      instructionsHash,
+      sourceHash,
+      usage: r.value.usage,
+    };
+  }
+
+  // Remove translations of pages that no longer exist in the source
+  const currentPaths = new Set(kinds.flatMap((kind) => Object.values(entries[kind]).map((e) => e.outputPath)));
+  for (const kind of kinds) {
+    for (const cached of Object.values(previous?.[kind] ?? {})) {
+      if (currentPaths.has(cached.outputPath)) continue;
+      try {
+        await unlink(resolve(join(localeDir, cached.outputPath)));
+        console.log(`  Removed orphan: ${locale}/${cached.outputPath}`);
+      } catch {
+        // File might already be gone
+      }
+    }
+  }
+
+  await writeManifest(localeDir, {
+    version: 1,
+    specHash: source.specHash,
+    instructionsHash,
+    sections: entries.sections,
+    ...(Object.keys(entries.guides).length > 0 && { guides: entries.guides }),
+    locale,
+  });
+  return failed;
+}
+
+/**
+ * Generate docs for several specs into their own output subdirectories, each
+ * with its own manifest, and tie them together with a shared landing page.
+ * A spec that can't be generated at all is reported as failed and left off
+ * the landing page; the others are still written.
+ */
+async function generatePortal(
+  config: Config,
+  ctx: RunContext,
+  specs: SpecConfig[],
+  guides: Guide[]
+): Promise<string[]> {
+  const outputDir = resolve(config.output);
+  await mkdir(outputDir, { recursive: true });
+
+  const entries: Record<string, SpecManifestEntry> = {};
+  const landingRows: string[] = [];
+  const specHashes: string[] = [];
+  const failed: string[] = [];
+
+  for (const [i, spec] of specs.entries()) {
+    const output = spec.output ?? spec.namespace;
+    console.log(`\n[${spec.namespace}]`);
+    // Guides are published once at the portal root; spec pages link up to them
+    const specGuides = guides.map((g) => ({ ...g, outputPath: posix.relative(output, g.outputPath) }));
+    let result: SpecResult;
+    try {
+      result = await generateSpec(spec.spec, resolve(join(outputDir, output)), config, ctx, specGuides, false);
+    } catch (err) {
+      console.error(`  Failed: ${spec.namespace}: ${errorMessage(err)}`);
+      failed.push(`${spec.namespace} (${errorMessage(err)})`);
+      specHashes.push("");
+      continue;
+    }
+    const { specIndex, failed: specFailed } = result;
+    failed.push(...specFailed.map((page) => `${spec.namespace}/${page}`));
+
+    entries[spec.namespace] = {
+      output,
+      title: specIndex.info.title,
+      group: spec.group ?? specIndex.info.title,
+      order: i,
+    };
+
+    const specManifest = await readManifest(resolve(join(outputDir, output)));
+    specHashes.push(specManifest?.specHash ?? "");
+    const entryPage = Object.values(specManifest?.sections ?? {}).sort(
+      (a, b) => a.order - b.order
+    )[0];
+    const href = `${output}/${entryPage?.outputPath ?? "index.md"}`;
+    const summary = (specIndex.info.description ?? "").split("\n")[0].replace(/\|/g, "\\|");
+    landingRows.push(
+      `| [${specIndex.info.title}](${href}) | ${specIndex.info.version} | ${summary} |`
+    );
+  }
+
+  // Shared landing page listing every API in the portal
+  const title = config.title ?? "API Docs";
+  const landing = [
+    `# ${title}`,
+    "",
+    `Reference documentation for ${landingRows.length} APIs.`,
+    "",
+    "| API | Version | Description |",
+    "|-----|---------|-------------|",
+    ...landingRows,
+  ].join("\n");
+  await writeFile(resolve(join(outputDir, "index.md")), landing + "\n");
+
+  const guideEntries = await syncGuides(outputDir, guides, await readManifest(outputDir));
+
+  const manifest: Manifest = {
+    version: 1,
+    specHash: sha256(specHashes.join("\n")),
+    instructionsHash: sha256(config.instructions ?? ""),
+    sections: {
+      landing: {
+        contentHash: sha256(landing),
+        outputPath: "index.md",
+        title: "Home",
+        order: 0,
+        generatedAt: new Date().toISOString(),
+      },
+    },
+    ...(Object.keys(guideEntries).length > 0 && { guides: guideEntries }),
+    specs: entries,
+  };
+  await writeManifest(outputDir, manifest);
+
+  console.log(`\nPortal complete: ${landingRows.length} of ${specs.length} specs. Output: ${outputDir}`);
+  return failed;
+}
+
+/**
+ * Generate docs for each API version into `<output>/<version>/`, each with its
+ * own manifest. The root manifest records the versions for the renderer's
+ * version switcher.
+ */
+async function generateVersions(
+  config: Config,
+  ctx: RunContext,
+  versions: VersionConfig[],
+  guides: Guide[]
+): Promise<string[]> {
+  const outputDir = resolve(config.output);
+  await mkdir(outputDir, { recursive: true });
+
+  const specHashes: string[] = [];
+  const failed: string[] = [];
+  for (const { version, spec } of versions) {
+    console.log(`\n[${version}]`);
+    const versionDir = resolve(join(outputDir, version));
+    const result = await generateSpec(spec, versionDir, config, ctx, guides);
+    failed.push(...result.failed.map((page) => `${version}/${page}`));
+    specHashes.push((await readManifest(versionDir))?.specHash ?? "");
+  }
+
+  const manifest: Manifest = {
+    version: 1,
+    specHash: sha256(specHashes.join("\n")),
+    instructionsHash: sha256(config.instructions ?? ""),
+    sections: {},
+    versions: versions.map((v) => v.version),
+    latestVersion: config.latestVersion ?? versions[versions.length - 1].version,
+  };
+  await writeManifest(outputDir, manifest);
+
+  console.log(`\nGenerated ${versions.length} versions. Output: ${outputDir}`);
+  return failed;
+}
+
+async function generateSpec(
+  specPath: string,
+  outputDir: string,
+  config: Config,
+  ctx: RunContext,
+  guides: Guide[],
+  publishGuides = true
+): Promise<SpecResult> {
   // 1. Parse spec
-  console.log(`Parsing spec: ${config.spec}`);
-  const specIndex = await buildSpecIndex(config.spec);
+  console.log(`Parsing spec: ${specPath}`);
+  let specIndex = await buildSpecIndex(specPath, {
+    onConvert: (warnings) => console.warn(formatConversion(warnings)),
+  });
+
+  // Prune before any tool, hash or agent sees the spec
+  if (config.audience) {
+    const before = countEndpoints(specIndex);
+    specIndex = filterSpecIndex(specIndex, config.audience);
+    console.log(
+      `Audience: ${config.audience} (${before - countEndpoints(specIndex)} endpoint(s) hidden)`
+    );
+  }
 
   console.log(`API: ${specIndex.info.title} v${specIndex.info.version}`);
   console.log(`Tags: ${specIndex.tags.map((t) => t.name).join(", ") || "(none)"}`);
   console.log(`Schemas: ${specIndex.schemas.size}`);
-  console.log(
-    `Endpoints: ${Array.from(specIndex.pathsByTag.values()).reduce((sum, v) => sum + v.length, 0)}`
-  );
+  console.log(`Endpoints: ${countEndpoints(specIndex)}`);
+  if (specIndex.webhooks.length > 0 || specIndex.callbacks.length > 0) {
+    console.log(`Webhooks: ${specIndex.webhooks.length}, callbacks: ${specIndex.callbacks.length}`);
+  }
+
+  // Pre-flight: catch spec gaps before spending tokens on them
+  const lintReport = lintSpec(specIndex);
+  console.log(formatLintReport(lintReport, "warning"));
+  if (exceedsThreshold(lintReport, config.lintFailOn ?? "none")) {
+    throw new Error(
+      `Spec lint found issues at or above '${config.lintFailOn}'. Run 'lint' for the full report.`
+    );
+  }
 
-  const outputDir = resolve(config.output);
   await mkdir(outputDir, { recursive: true });
 
   // 2. Check if we can skip entirely
-  const specHash = sha256(
-    JSON.stringify(specIndex, (_key, value) =>
-      value instanceof Map ? Array.from(value.entries()) : value
-    )
-  );
-  const instructionsHash = sha256(config.instructions ?? "");
+  const specHash = computeSpecHash(specIndex);
+  const instructionsHash = instructionsHashFor(config);
   const manifest = await readManifest(outputDir);
+  const guideEntries = publishGuides ? await syncGuides(outputDir, guides, manifest) : {};
 
   if (
     !config.force &&
@@ -40,137 +455,428 @@ export async function generate(config: Config): Promise<void> {
     manifest.instructionsHash === instructionsHash
   ) {
     console.log("Spec and instructions unchanged. Nothing to regenerate.");
-    return;
+    if (JSON.stringify(manifest.guides ?? {}) !== JSON.stringify(guideEntries)) {
+      await writeManifest(outputDir, withGuides({ ...manifest }, guideEntries));
+    }
+    return { specIndex, failed: [] };
   }
 
-  const forceAll =
-    config.force || !manifest || manifest.instructionsHash !== instructionsHash;
-
-  if (forceAll && !config.force && manifest) {
-    console.log("Instructions changed. Regenerating all sections.");
-  }
+  // 3. Reuse the previous plan while the spec's structure holds, else plan again
+  const reusable = reusablePlan(specIndex, manifest, config);
+  const baseline = config.replan || config.mode === "reference" ? undefined : manifest?.plan;
+  let plan: DocPlan;
+  let planUsage: LlmUsage | undefined;
 
-  // 3. Run planning agent
-  console.log("\nPlanning documentation structure...");
-  const planner = createPlanningAgent(specIndex, {
-    instructions: config.instructions,
-    model: config.model,
-  });
+  if (reusable?.source === "reference") {
+    console.log("\nReference mode: planning from the spec structure.");
+    plan = reusable.plan;
+  } else if (reusable) {
+    console.log("\nSpec structure unchanged. Reusing the previous plan.");
+    plan = reusable.plan;
+    planUsage = manifest?.planUsage;
+  } else {
+    const exceeded = ctx.usage.exceeded();
+    if (exceeded) {
+      console.error(`\nNot planned, budget exceeded (${exceeded})`);
+      return { specIndex, failed: [`${specPath} (not planned)`] };
+    }
 
-  const { result: plan } = await planner.run(
-    "Analyze the API spec and create a documentation plan."
-  );
+    console.log(baseline ? "\nSpec structure changed. Updating the documentation plan..." : "\nPlanning documentation structure...");
+    const meter = createUsageMeter();
+    ({ plan } = await runPlanner(specIndex, manifest, config, ctx.meteredBy(meter), guides));
+    planUsage = meter.total;
+  }
 
   console.log(`Plan: ${plan.sections.length} sections`);
   for (const section of plan.sections.sort((a, b) => a.order - b.order)) {
     console.log(`  ${section.order}. ${section.title} (${section.outputPath})`);
   }
 
-  // 4. Determine which sections need regeneration
+  // 4. Determine which sections need regeneration. Locked pages never are;
+  // they keep the entry they were written from, so every run warns while
+  // their spec inputs differ from it.
+  const locked = new Set<string>();
   const sectionsToGenerate = plan.sections.filter((section) => {
-    if (forceAll) return true;
-
-    const contentHash = computeSectionHash(section, specIndex);
-    const cached = manifest?.sections[section.id];
-
-    if (cached && cached.contentHash === contentHash) {
-      console.log(`  [cached] ${section.title}`);
+    const reason = staleReason(section, specIndex, manifest, config);
+    if (reason && manifest?.sections[section.id] && isLocked(section, config)) {
+      locked.add(section.id);
+      if (manifest.sections[section.id].contentHash !== computeSectionHash(section, specIndex)) {
+        const changes = describeChanges(section, specIndex, manifest);
+        const detail = changes.length > 0 ? ` (${changes.join(", ")})` : "";
+        console.warn(`  [locked] ${section.title}: its spec inputs changed${detail}, review ${section.outputPath} by hand`);
+      } else {
+        console.log(`  [locked] ${section.title}`);
+      }
       return false;
     }
-
-    return true;
+    if (!reason) {
+      console.log(`  [cached] ${section.title}`);
+    } else if (reason === "instructions changed") {
+      console.log(`  [instructions changed] ${section.title}`);
+    }
+    return reason !== undefined;
   });
 
-  if (sectionsToGenerate.length === 0) {
-    console.log("\nAll sections up to date. Nothing to regenerate.");
-    await updateManifest(outputDir, plan, specIndex, specHash, instructionsHash);
-    return;
+  // Pages edited by hand since they were generated. Those set to skip edits
+  // aren't written, and keep their manifest entry so every run warns again.
+  const edited = new Map<string, string>();
+  const skipped = new Set<string>();
+  for (const section of sectionsToGenerate) {
+    const entry = manifest?.sections[section.id];
+    const content = entry?.outputPath === section.outputPath ? await readEdited(outputDir, entry) : undefined;
+    if (content === undefined) continue;
+    edited.set(section.id, content);
+    if (resolveSectionSettings(section, config).onEdit === "skip") {
+      skipped.add(section.id);
+      console.warn(`  [edited] ${section.title}: ${section.outputPath} was edited by hand, not regenerated`);
+    }
   }
+  const sectionsToWrite = sectionsToGenerate.filter((section) => !skipped.has(section.id));
 
-  console.log(`\nGenerating ${sectionsToGenerate.length} section(s)...`);
+  if (sectionsToWrite.length === 0) {
+    console.log("\nAll sections up to date. Nothing to regenerate.");
+    await updateManifest(outputDir, plan, planUsage, specIndex, specHash, instructionsHash, config, new Map(), new Set([...skipped, ...locked]), manifest, guideEntries);
+    return { specIndex, failed: [] };
+  }
 
-  // 5. Run doc writer agent for each changed section (in parallel)
-  const writer = createWriterAgent(specIndex, {
-    instructions: config.instructions,
-    model: config.model,
-  });
+  console.log(`\nGenerating ${sectionsToWrite.length} section(s)...`);
 
-  const results = new Map<string, string>();
+  // 5. Run doc writer agent for each changed section, `concurrency` at a time
+  const results = new Map<string, WrittenSection>();
+  const failed = new Set<string>();
 
-  const writeResults = await Promise.allSettled(
-    sectionsToGenerate.map(async (section) => {
-      console.log(`  Writing: ${section.title}...`);
-      const { result } = await writer.run({ section, plan });
-      return { id: section.id, title: section.title, markdown: `# ${result.title}\n\n${result.markdown}` };
-    })
-  );
+  const writeResults = await allSettledPool(sectionsToWrite, config.concurrency ?? 4, async (section) => {
+    checkBudget(ctx);
+    console.log(`  Writing: ${section.title}...`);
+    const written: WrittenSection = config.mode === "reference"
+      ? { markdown: renderReferenceSection(section, plan, specIndex, config.languages) }
+      : await writeSection(section, plan, specIndex, config, ctx, guides);
+    return { id: section.id, title: section.title, written };
+  });
 
-  for (const r of writeResults) {
+  for (const [i, r] of writeResults.entries()) {
     if (r.status === "fulfilled") {
-      results.set(r.value.id, r.value.markdown);
-      console.log(`  Done: ${r.value.title}`);
+      results.set(r.value.id, r.value.written);
+      const { review, usage } = r.value.written;
+      const score = review ? ` (review score ${review.score}/10)` : "";
+      console.log(`  Done: ${r.value.title}${score}${usage ? ` [${formatUsage(usage)}]` : ""}`);
     } else {
-      console.error(`  Failed: ${r.reason}`);
+      failed.add(sectionsToWrite[i].id);
+      console.error(`  Failed: ${sectionsToWrite[i].title}: ${errorMessage(r.reason)}`);
     }
   }
 
-  // 6. Write markdown files
+  // 6. Write markdown files, keeping a copy of each as generated to merge later edits against
   for (const section of plan.sections) {
-    const markdown = results.get(section.id);
+    const markdown = results.get(section.id)?.markdown;
     if (!markdown) continue;
 
-    const filePath = resolve(join(outputDir, section.outputPath));
-    await mkdir(dirname(filePath), { recursive: true });
-    await writeFile(filePath, markdown + "\n");
-    console.log(`  Wrote: ${section.outputPath}`);
-  }
-
-  // 7. Clean up orphaned files from previous plan
-  if (manifest) {
-    const currentPaths = new Set(plan.sections.map((s) => s.outputPath));
-    for (const [id, cached] of Object.entries(manifest.sections)) {
-      if (!currentPaths.has(cached.outputPath)) {
-        const orphanPath = resolve(join(outputDir, cached.outputPath));
-        try {
-          await unlink(orphanPath);
-          console.log(`  Removed orphan: ${cached.outputPath} (section "${id}" no longer in plan)`);
-        } catch {
-          // File might already be gone
-        }
-      }
+    const content = markdown + "\n";
+    const edits = edited.get(section.id);
+    if (edits === undefined) {
+      await writePage(outputDir, section.outputPath, content);
+      console.log(`  Wrote: ${section.outputPath}`);
+    } else {
+      await writeEditedPage(outputDir, section, edits, content, resolveSectionSettings(section, config).onEdit);
     }
+    await saveGenerated(outputDir, section.outputPath, content);
+  }
+
+  // 7. Clean up orphaned files from previous plan. Guides and locked pages
+  // are never orphans, a failed section keeps its previous page until a
+  // rewrite succeeds, and pages edited by hand are left for someone to move
+  // or delete.
+  const orphans = findOrphans(manifest, plan, [
+    ...Object.values(guideEntries).map((g) => g.outputPath),
+    ...lockedPaths(manifest, config),
+    ...[...failed, ...skipped].flatMap((id) => manifest?.sections[id]?.outputPath ?? []),
+  ]);
+  for (const { id, outputPath } of orphans) {
+    if ((await readEdited(outputDir, manifest?.sections[id])) !== undefined) {
+      console.warn(`  Kept orphan: ${outputPath} (section "${id}" no longer in plan, but edited by hand)`);
+      continue;
+    }
+    try {
+      await unlink(resolve(join(outputDir, outputPath)));
+      console.log(`  Removed orphan: ${outputPath} (section "${id}" no longer in plan)`);
+    } catch {
+      // File might already be gone
+    }
+    await removeGenerated(outputDir, outputPath);
   }
 
   // 8. Update manifest
-  await updateManifest(outputDir, plan, specIndex, specHash, instructionsHash);
+  await updateManifest(outputDir, plan, planUsage, specIndex, specHash, instructionsHash, config, results, new Set([...failed, ...skipped, ...locked]), manifest, guideEntries);
+
+  if (failed.size > 0) {
+    console.error(`\nGeneration incomplete: ${failed.size} section(s) failed. Output: ${outputDir}`);
+  } else {
+    console.log(`\nGeneration complete. Output: ${outputDir}`);
+  }
+  return {
+    specIndex,
+    failed: plan.sections.filter((s) => failed.has(s.id)).map((s) => s.outputPath),
+  };
+}
+
+async function writePage(outputDir: string, outputPath: string, content: string): Promise<void> {
+  const filePath = resolve(join(outputDir, outputPath));
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, content);
+}
+
+/**
+ * Write the new version of a page edited by hand: next to it as `.new.md`,
+ * or merged into the edits. A merge with conflicts goes to `.new.md` with
+ * conflict markers, leaving the edited page as it is.
+ */
+async function writeEditedPage(
+  outputDir: string,
+  section: Section,
+  edits: string,
+  content: string,
+  policy: EditPolicy
+): Promise<void> {
+  const newPath = newVersionPath(section.outputPath);
+
+  if (policy === "merge") {
+    const base = await readGenerated(outputDir, section.outputPath);
+    if (base !== undefined) {
+      const merged = mergeThreeWay(base, edits, content);
+      if (merged.conflicts === 0) {
+        await writePage(outputDir, section.outputPath, merged.text);
+        console.log(`  Merged: ${section.outputPath} (kept the edits made by hand)`);
+        return;
+      }
+      await writePage(outputDir, newPath, merged.text);
+      console.warn(`  [edited] ${section.title}: ${merged.conflicts} merge conflict(s), resolve them in ${newPath}`);
+      return;
+    }
+    console.warn(`  [edited] ${section.title}: no generated copy of ${section.outputPath} to merge with`);
+  }
 
-  console.log(`\nGeneration complete. Output: ${outputDir}`);
+  await writePage(outputDir, newPath, content);
+  console.warn(`  [edited] ${section.title}: ${section.outputPath} was edited by hand, new version written to ${newPath}`);
+}
+
+interface SpecResult {
+  specIndex: SpecIndex;
+  /** Output paths of sections that failed to write */
+  failed: string[];
+}
+
+interface WrittenSection {
+  markdown: string;
+  review?: SectionReview;
+  usage?: LlmUsage;
+}
+
+/**
+ * Write one section with its own instructions and model, and, when review is
+ * enabled, have the reviewer score it. Drafts scoring below `reviewThreshold`
+ * go back to the writer with the critique, up to `reviewRounds` times. The
+ * last draft is kept either way.
+ */
+async function writeSection(
+  section: Section,
+  plan: DocPlan,
+  specIndex: SpecIndex,
+  config: Config,
+  ctx: RunContext,
+  guides: Guide[]
+): Promise<WrittenSection> {
+  // Counts every writer and reviewer run of this section, for its manifest entry
+  const usage = createUsageMeter();
+  const backend = ctx.meteredBy(usage);
+  const settings = { ...resolveSectionSettings(section, config), backend, guides, languages: config.languages };
+  const writer = createWriterAgent(specIndex, settings);
+  const reviewer = config.review ? createReviewerAgent(specIndex, settings) : undefined;
+
+  let markdown = await draftSection(writer, { section, plan }, specIndex, config);
+  if (!reviewer) return { markdown: addCodeSamples(markdown, section, specIndex, config), usage: usage.total };
+
+  const threshold = config.reviewThreshold ?? 7;
+  const maxRevisions = config.reviewRounds ?? 2;
+
+  for (let revisions = 0; ; revisions++) {
+    const { result: review } = await reviewer.run({ section, plan, markdown });
+    if (review.score >= threshold || revisions >= maxRevisions) {
+      if (review.score < threshold) {
+        console.warn(`  Low review score for ${section.title}: ${review.score}/10 after ${revisions} revision(s)`);
+      }
+      return {
+        markdown: addCodeSamples(markdown, section, specIndex, config),
+        review: { score: review.score, issues: review.issues, revisions },
+        usage: usage.total,
+      };
+    }
+
+    console.log(`  Revising: ${section.title} (review score ${review.score}/10)`);
+    const feedback = review.issues.map((issue) => `${issue.category}: ${issue.message}`);
+    markdown = await draftSection(writer, { section, plan, draft: markdown, feedback }, specIndex, config);
+  }
+}
+
+/**
+ * Give every operation an endpoint section documents a set of code samples,
+ * for the ones the writer didn't add through generate_code_samples.
+ */
+function addCodeSamples(markdown: string, section: Section, specIndex: SpecIndex, config: Config): string {
+  if (section.type !== "endpoint-group") return markdown;
+  const endpoints = (section.relatedTags ?? []).flatMap((tag) => specIndex.pathsByTag.get(tag) ?? []);
+  return insertMissingSamples(markdown, endpoints, (endpoint) =>
+    formatSamplesMarkdown(generateSnippets(endpoint, snippetOptionsFor(endpoint, specIndex, config.languages)))
+  );
+}
+
+/**
+ * Run the writer and check the draft's code examples against the spec. In
+ * strict mode a draft with invalid examples goes back to the writer with the
+ * problems as feedback, up to `exampleRetries` times.
+ */
+async function draftSection(
+  writer: ReturnType<typeof createWriterAgent>,
+  input: WriterInput,
+  specIndex: SpecIndex,
+  config: Config
+): Promise<string> {
+  const { section } = input;
+  const maxRetries = config.strictExamples ? config.exampleRetries ?? 2 : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    const { result } = await writer.run(input);
+    const markdown = `# ${result.title}\n\n${result.markdown}`;
+    const issues = validateExamples(markdown, specIndex);
+    if (issues.length === 0) return markdown;
+
+    const feedback = formatExampleIssues(issues);
+    if (attempt >= maxRetries) {
+      console.warn(
+        `  Example issues in ${section.title} (${section.outputPath}):\n` +
+          feedback.map((line) => `    ${line}`).join("\n")
+      );
+      return markdown;
+    }
+    console.log(`  Rewriting: ${section.title} (${issues.length} example issue(s))`);
+    input = { ...input, draft: markdown, feedback };
+  }
+}
+
+function countEndpoints(specIndex: SpecIndex): number {
+  return Array.from(specIndex.pathsByTag.values()).reduce((sum, v) => sum + v.length, 0);
 }
 
 async function updateManifest(
   outputDir: string,
   plan: DocPlan,
-  specIndex: Awaited<ReturnType<typeof buildSpecIndex>>,
+  planUsage: LlmUsage | undefined,
+  specIndex: SpecIndex,
   specHash: string,
-  instructionsHash: string
+  instructionsHash: string,
+  config: Config,
+  written: Map<string, WrittenSection>,
+  // Sections whose stale page stays on disk: failed, locked, or skipped as edited by hand
+  unwritten: Set<string>,
+  previous: Manifest | null,
+  guides: Record<string, SectionManifest>
 ): Promise<void> {
   const newManifest: Manifest = {
     version: 1,
-    specHash,
+    // After a partial run, the next one must not skip the spec as unchanged
+    specHash: unwritten.size > 0 ? "" : specHash,
     instructionsHash,
     sections: {},
+    // Reference plans are rebuilt every run and shouldn't anchor a later AI plan
+    ...(config.mode !== "reference" && { plan, structureHash: computeStructureHash(specIndex) }),
+    ...(planUsage && { planUsage }),
   };
 
   for (const section of plan.sections) {
+    // An unwritten section keeps the entry of the page still on disk; if its
+    // inputs changed, the hashes no longer match and the next run retries it.
+    // A failed new section gets no entry.
+    if (unwritten.has(section.id)) {
+      const stale = previous?.sections[section.id];
+      if (stale) newManifest.sections[section.id] = stale;
+      continue;
+    }
+
+    // Cached sections keep the review, usage and file hash of the draft that is still on disk
+    const draft = written.get(section.id);
+    const { review, usage } = draft ?? previous?.sections[section.id] ?? {};
+    const fileHash = draft ? sha256(draft.markdown + "\n") : previous?.sections[section.id]?.fileHash;
     newManifest.sections[section.id] = {
       contentHash: computeSectionHash(section, specIndex),
+      inputHashes: computeInputHashes(section, specIndex),
       outputPath: section.outputPath,
       title: section.title,
       group: section.group,
       order: section.order,
       generatedAt: new Date().toISOString(),
+      instructionsHash: sectionInstructionsHash(section, config),
+      ...(review && { review }),
+      ...(usage && { usage }),
+      ...(fileHash && { fileHash }),
+    };
+  }
+
+  // Locked pages stay listed even when the plan no longer has them
+  const paths = new Set(Object.values(newManifest.sections).map((entry) => entry.outputPath));
+  for (const [id, entry] of Object.entries(previous?.sections ?? {})) {
+    if (!newManifest.sections[id] && !paths.has(entry.outputPath) && isLocked({ id, outputPath: entry.outputPath }, config)) {
+      newManifest.sections[id] = entry;
+    }
+  }
+
+  await writeManifest(outputDir, withGuides(newManifest, guides));
+}
+
+/**
+ * Copy guides into `<outputDir>/guides/` and return their manifest entries.
+ * Copies of guides that were removed from the guides directory are deleted.
+ */
+async function syncGuides(
+  outputDir: string,
+  guides: Guide[],
+  previous: Manifest | null
+): Promise<Record<string, SectionManifest>> {
+  const entries: Record<string, SectionManifest> = {};
+
+  for (const guide of guides) {
+    const filePath = resolve(join(outputDir, guide.outputPath));
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, guide.content);
+
+    const contentHash = sha256(guide.content);
+    const cached = previous?.guides?.[guide.id];
+    entries[guide.id] = {
+      contentHash,
+      outputPath: guide.outputPath,
+      title: guide.title,
+      group: guide.group,
+      order: guide.order,
+      generatedAt: cached?.contentHash === contentHash ? cached.generatedAt : new Date().toISOString(),
     };
   }
 
-  await writeManifest(outputDir, newManifest);
+  for (const [id, cached] of Object.entries(previous?.guides ?? {})) {
+    if (entries[id]) continue;
+    try {
+      await unlink(resolve(join(outputDir, cached.outputPath)));
+      console.log(`  Removed guide: ${cached.outputPath}`);
+    } catch {
+      // Already gone
+    }
+  }
+
+  return entries;
+}
+
+function withGuides(manifest: Manifest, guides: Record<string, SectionManifest>): Manifest {
+  if (Object.keys(guides).length > 0) {
+    manifest.guides = guides;
+  } else {
+    delete manifest.guides;
+  }
+  return manifest;
 }
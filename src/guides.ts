@@ -0,0 +1,103 @@
+import { readFile, readdir } from "fs/promises";
+import { resolve, join, relative, sep } from "path";
+import { parse as parseYaml } from "yaml";
+
+export interface Guide {
+  /** Section id, e.g. "guide:migrations/v2" */
+  id: string;
+  title: string;
+  group?: string;
+  order: number;
+  description?: string;
+  /** Where the guide is copied to, relative to the docs root, e.g. "guides/migrations/v2.md" */
+  outputPath: string;
+  /** Markdown body without frontmatter, starting with a `# Title` heading */
+  content: string;
+}
+
+/** Output subdirectory guides are copied into */
+export const GUIDES_OUTPUT_DIR = "guides";
+
+// Guides without an explicit order sort after the generated reference
+const DEFAULT_GUIDE_ORDER = 1000;
+
+/**
+ * Read every markdown file under a guides directory. Frontmatter may set
+ * `title`, `group`, `order` and `description`; the title falls back to the
+ * first `# ` heading, then to the file name.
+ */
+export async function loadGuides(dir: string): Promise<Guide[]> {
+  const root = resolve(dir);
+  const files = await listMarkdownFiles(root);
+  const guides: Guide[] = [];
+
+  for (const file of files.sort()) {
+    const raw = await readFile(file, "utf-8");
+    const rel = relative(root, file).split(sep).join("/");
+    const { data, body } = parseFrontmatter(raw, rel);
+
+    const heading = body.match(/^#\s+(.+)$/m)?.[1].trim();
+    const slug = rel.replace(/\.md$/, "");
+    const title = stringField(data.title) ?? heading ?? slug.split("/").pop()!;
+    const order = data.order === undefined ? DEFAULT_GUIDE_ORDER : Number(data.order);
+    if (Number.isNaN(order)) {
+      throw new Error(`Guide ${rel}: 'order' must be a number`);
+    }
+
+    guides.push({
+      id: `guide:${slug}`,
+      title,
+      group: stringField(data.group),
+      order,
+      description: stringField(data.description),
+      outputPath: `${GUIDES_OUTPUT_DIR}/${rel}`,
+      content: heading ? body.trimStart() : `# ${title}\n\n${body.trimStart()}`,
+    });
+  }
+
+  return guides;
+}
+
+/** Split YAML frontmatter from a markdown document. */
+export function parseFrontmatter(
+  text: string,
+  source = "document"
+): { data: Record<string, unknown>; body: string } {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) return { data: {}, body: text };
+
+  let data: unknown;
+  try {
+    data = parseYaml(match[1]);
+  } catch (err) {
+    throw new Error(`Invalid frontmatter in ${source}: ${(err as Error).message}`);
+  }
+  if (data !== null && (typeof data !== "object" || Array.isArray(data))) {
+    throw new Error(`Invalid frontmatter in ${source}: expected key/value pairs`);
+  }
+  return { data: (data ?? {}) as Record<string, unknown>, body: text.slice(match[0].length) };
+}
+
+async function listMarkdownFiles(dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    throw new Error(`Guides directory not found: ${dir}`);
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listMarkdownFiles(path)));
+    } else if (entry.isFile() && entry.name.endsWith(".md")) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+function stringField(value: unknown): string | undefined {
+  return value === undefined || value === null ? undefined : String(value);
+}
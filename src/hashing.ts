@@ -1,6 +1,8 @@
 import { sha256 } from "./manifest.js";
 import type { SpecIndex } from "./spec-index.js";
 import type { Section } from "./agents/planner.js";
+import { detectPatterns } from "./patterns.js";
+import type { PatternMatch } from "./patterns.js";
 
 /**
  * Compute a deterministic content hash for a section based on its type
@@ -10,28 +12,50 @@ export function computeSectionHash(
   section: Section,
   specIndex: SpecIndex
 ): string {
-  const parts: unknown[] = [];
+  return sha256(JSON.stringify(sectionInputs(section, specIndex).map((input) => input.value)));
+}
+
+/** One part of the spec a section is written from */
+export interface SectionInput {
+  /** What the part is, for reports, e.g. "spec info" or "schema Pet" */
+  label: string;
+  value: unknown;
+}
+
+/** The parts of the spec a section is written from, by section type */
+export function sectionInputs(section: Section, specIndex: SpecIndex): SectionInput[] {
+  const parts: SectionInput[] = [];
+  const add = (label: string, value: unknown) => parts.push({ label, value });
 
   switch (section.type) {
     case "overview":
-      parts.push(specIndex.info);
-      parts.push(specIndex.servers);
-      parts.push(specIndex.tags.map((t) => ({ name: t.name, description: t.description })));
+      add("spec info", specIndex.info);
+      add("servers", specIndex.servers);
+      add("tags", specIndex.tags.map((t) => ({ name: t.name, description: t.description })));
       break;
 
     case "auth":
-      parts.push(specIndex.security);
+      add("security schemes", specIndex.security);
       break;
 
     case "endpoint-group": {
       const tags = section.relatedTags ?? [];
       for (const tag of tags.toSorted()) {
-        parts.push({ tag, endpoints: specIndex.pathsByTag.get(tag) ?? [] });
-      }
-      const schemas = section.relatedSchemas ?? [];
-      for (const name of schemas.toSorted()) {
-        parts.push({ schema: name, definition: specIndex.schemas.get(name) });
+        // Callbacks are documented in the webhooks section, which hashes them
+        const endpoints = (specIndex.pathsByTag.get(tag) ?? []).map(({ operation, ...endpoint }) => {
+          const { callbacks: _callbacks, ...rest } = operation;
+          return { ...endpoint, operation: rest };
+        });
+        add(`${tag} endpoints`, { tag, endpoints });
       }
+      parts.push(...relatedSchemas(section, specIndex));
+      break;
+    }
+
+    case "webhooks": {
+      add("webhooks", specIndex.webhooks);
+      add("callbacks", specIndex.callbacks);
+      parts.push(...relatedSchemas(section, specIndex));
       break;
     }
 
@@ -39,7 +63,7 @@ export function computeSectionHash(
       const entries = Array.from(specIndex.schemas.entries()).sort(([a], [b]) =>
         a.localeCompare(b)
       );
-      parts.push(entries);
+      add("schemas", entries);
       break;
     }
 
@@ -59,10 +83,77 @@ export function computeSectionHash(
       errorResponses.sort((a, b) =>
         JSON.stringify(a).localeCompare(JSON.stringify(b))
       );
-      parts.push(errorResponses);
+      add("error responses", errorResponses);
+      break;
+    }
+
+    case "quickstart": {
+      // First steps: where to send requests, how to authenticate, and the
+      // endpoints the section walks through
+      add("spec info", specIndex.info);
+      add("servers", specIndex.servers);
+      add("security schemes", specIndex.security);
+      for (const tag of (section.relatedTags ?? []).toSorted()) {
+        add(`${tag} endpoints`, { tag, endpoints: specIndex.pathsByTag.get(tag) ?? [] });
+      }
+      parts.push(...relatedSchemas(section, specIndex));
+      break;
+    }
+
+    case "pagination":
+      add("pagination conventions", patternParts(detectPatterns(specIndex).pagination));
+      parts.push(...relatedSchemas(section, specIndex));
+      break;
+
+    case "rate-limits":
+      // X-RateLimit-* / Retry-After headers and 429 responses
+      add("rate limit conventions", patternParts(detectPatterns(specIndex).rateLimits));
+      break;
+
+    case "versioning":
+      add("API version", specIndex.info.version);
+      add("versioning conventions", patternParts(detectPatterns(specIndex).versioning));
+      break;
+
+    case "concepts": {
+      add("API description", specIndex.info.description ?? "");
+      const tags = new Set(section.relatedTags ?? []);
+      add(
+        "tags",
+        specIndex.tags
+          .filter((t) => tags.has(t.name))
+          .map((t) => ({ name: t.name, description: t.description }))
+      );
+      parts.push(...relatedSchemas(section, specIndex));
       break;
     }
   }
 
-  return sha256(JSON.stringify(parts));
+  return parts;
+}
+
+/** Hash of each labeled input, stored per section so a later run can say what changed */
+export function computeInputHashes(section: Section, specIndex: SpecIndex): Record<string, string> {
+  return Object.fromEntries(
+    sectionInputs(section, specIndex).map((input) => [input.label, sha256(JSON.stringify(input.value) ?? "")])
+  );
+}
+
+function relatedSchemas(section: Section, specIndex: SpecIndex): SectionInput[] {
+  return (section.relatedSchemas ?? [])
+    .toSorted()
+    .map((name) => ({ label: `schema ${name}`, value: { schema: name, definition: specIndex.schemas.get(name) } }));
+}
+
+function patternParts(matches: PatternMatch[]): unknown[] {
+  return matches.map((m) => ({ location: m.location, sources: m.sources }));
+}
+
+/** Hash of the whole (filtered) spec; when it and the instructions match the manifest, nothing is regenerated */
+export function computeSpecHash(specIndex: SpecIndex): string {
+  return sha256(
+    JSON.stringify(specIndex, (_key, value) =>
+      value instanceof Map ? Array.from(value.entries()) : value
+    )
+  );
 }
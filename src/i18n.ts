@@ -0,0 +1,91 @@
+import { slugify } from "./renderer.js";
+import { sha256 } from "./manifest.js";
+
+export type LocaleMode = "translate" | "generate";
+
+export const LOCALE_MODES: LocaleMode[] = ["translate", "generate"];
+
+/** BCP 47 language tags as used for `<html lang>`, e.g. "ja", "de", "pt-BR" */
+export const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+/** English name of a locale for agent instructions, e.g. "Brazilian Portuguese". */
+export function languageName(locale: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(locale) ?? locale;
+  } catch {
+    return locale;
+  }
+}
+
+/** What a locale's translations are cached against besides their source page */
+export function translationInstructionsHash(locale: string, instructions: string | undefined): string {
+  return sha256(`${locale}\n${instructions ?? ""}`);
+}
+
+/** The user's instructions plus the language to write in, for locales in generate mode */
+export function localeInstructions(instructions: string | undefined, locale: string): string {
+  return [
+    instructions,
+    `Write the documentation in ${languageName(locale)}. Keep code, identifiers and link targets as they are.`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+const PLACEHOLDER = (i: number) => `@@KEEP_${i}@@`;
+
+/**
+ * Swap fenced code blocks and HTML comments for numbered placeholders so a
+ * translator can't touch them. `restoreMarkdown` puts them back.
+ */
+export function protectMarkdown(markdown: string): { text: string; kept: string[] } {
+  const kept: string[] = [];
+  const text = markdown.replace(
+    /^(```|~~~)[^\n]*\n[\s\S]*?^\1[ \t]*$|<!--[\s\S]*?-->/gm,
+    (match) => {
+      kept.push(match);
+      return PLACEHOLDER(kept.length - 1);
+    }
+  );
+  return { text, kept };
+}
+
+/** Put protected blocks back, failing when the translation lost any of them. */
+export function restoreMarkdown(text: string, kept: string[]): string {
+  const missing = kept.filter((_, i) => !text.includes(PLACEHOLDER(i)));
+  if (missing.length > 0) {
+    throw new Error(`translation dropped ${missing.length} code block(s) or comment(s)`);
+  }
+  return kept.reduce((result, block, i) => result.replace(PLACEHOLDER(i), () => block), text);
+}
+
+/**
+ * Give each heading of a translation the id its source heading would get, as
+ * `{#id}`, so links and anchors shared with the source keep working. Headings
+ * are matched by position; nothing changes when the counts differ.
+ */
+export function pinHeadingIds(source: string, translated: string): string {
+  const sourceHeadings = headingLines(source);
+  const lines = translated.split("\n");
+  const translatedHeadings = headingLines(translated);
+  if (sourceHeadings.length !== translatedHeadings.length) return translated;
+
+  translatedHeadings.forEach((index, i) => {
+    if (/\{#[\w-]+\}\s*$/.test(lines[index])) return;
+    const sourceText = source.split("\n")[sourceHeadings[i]].replace(/^#{2,6}\s+/, "");
+    const id = sourceText.match(/\{#([\w-]+)\}\s*$/)?.[1] ?? slugify(sourceText);
+    if (id) lines[index] = `${lines[index].trimEnd()} {#${id}}`;
+  });
+  return lines.join("\n");
+}
+
+/** Line numbers of `##`-and-deeper headings outside code fences. */
+function headingLines(markdown: string): number[] {
+  const result: number[] = [];
+  let inFence = false;
+  for (const [i, line] of markdown.split("\n").entries()) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    else if (!inFence && /^#{2,6}\s/.test(line)) result.push(i);
+  }
+  return result;
+}
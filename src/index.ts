@@ -1,3 +1,22 @@
 export { generate } from "./generate.js";
 export { loadConfig } from "./config.js";
 export type { Config } from "./config.js";
+export { generateExample, generateOperationExample } from "./examples.js";
+export type { ExampleOptions } from "./examples.js";
+export { generateSnippets } from "./snippets.js";
+export type { CodeSample, SnippetLanguage, SnippetOptions } from "./snippets.js";
+export type { GenerateOptions } from "./generate.js";
+export type { BackendConfig, BackendType } from "./config.js";
+export { createBackend } from "./backends/index.js";
+export { createOpperBackend } from "./backends/opper.js";
+export { createOpenAICompatibleBackend } from "./backends/openai.js";
+export { createScriptedBackend } from "./backends/scripted.js";
+export { defineTool } from "./backends/types.js";
+export type { LlmBackend, LlmAgent, LlmTool, LlmUsage, AgentDefinition } from "./backends/types.js";
+export type { ScriptedBackend, ScriptedBackendOptions, ScriptedRequest, ScriptedResponder } from "./backends/scripted.js";
+export { estimateGenerate, formatEstimate } from "./estimate.js";
+export type { Estimate, OutputEstimate, PageEstimate } from "./estimate.js";
+export { previewGenerate, formatPreview } from "./preview.js";
+export type { Preview, OutputPreview, SectionPreview, PreviewOptions } from "./preview.js";
+export type { Budget, Pricing } from "./usage.js";
+export type { EditPolicy } from "./edits.js";
@@ -0,0 +1,174 @@
+import { posix } from "path";
+
+export interface LinkIssue {
+  /** Page containing the link, relative to the site root */
+  page: string;
+  href: string;
+  kind: "missing-page" | "missing-anchor";
+  /** Anchor the link was rewritten to when a near miss was fixed */
+  fixedTo?: string;
+}
+
+export interface LinkReport {
+  /** Number of internal links checked */
+  checked: number;
+  issues: LinkIssue[];
+}
+
+export interface LinkCheckOptions {
+  /** Rewrite links to missing anchors that closely match a real heading id */
+  fixAnchors?: boolean;
+}
+
+const LINK = /<a href="([^"]*)"/g;
+const ID = /\sid="([^"]+)"/g;
+
+/**
+ * Check every internal link in rendered page bodies against the set of pages
+ * and the heading ids on each page. External links and links to non-HTML
+ * files are not checked. Returns the (possibly fixed) page bodies and a report.
+ */
+export function checkLinks(
+  pages: Map<string, string>,
+  options: LinkCheckOptions = {}
+): { pages: Map<string, string>; report: LinkReport } {
+  const ids = new Map<string, string[]>();
+  for (const [page, html] of pages) {
+    ids.set(page, Array.from(html.matchAll(ID), (m) => m[1]));
+  }
+
+  const issues: LinkIssue[] = [];
+  const fixed = new Map<string, string>();
+  let checked = 0;
+
+  for (const [page, html] of pages) {
+    const rewritten = html.replace(LINK, (tag, href: string) => {
+      if (isExternal(href)) return tag;
+      const [pathAndQuery, fragment] = splitOnce(href, "#");
+      const target = resolveTarget(page, pathAndQuery.split("?")[0]);
+      if (target === undefined) return tag;
+      checked++;
+
+      if (!pages.has(target)) {
+        issues.push({ page, href, kind: "missing-page" });
+        return tag;
+      }
+      if (fragment === undefined || fragment === "") return tag;
+
+      const targetIds = ids.get(target)!;
+      const decoded = safeDecode(fragment);
+      if (targetIds.includes(decoded)) return tag;
+
+      const match = options.fixAnchors ? closestAnchor(decoded, targetIds) : undefined;
+      issues.push({ page, href, kind: "missing-anchor", fixedTo: match });
+      if (!match) return tag;
+      return `<a href="${pathAndQuery}#${match}"`;
+    });
+    fixed.set(page, rewritten);
+  }
+
+  return { pages: fixed, report: { checked, issues } };
+}
+
+/** Format a link report for the terminal. */
+export function formatLinkReport(report: LinkReport): string {
+  const lines = report.issues.map((issue) => {
+    const what = issue.kind === "missing-page" ? "page not found" : "anchor not found";
+    const fix = issue.fixedTo ? ` (fixed to #${issue.fixedTo})` : "";
+    return `  ${issue.page}: ${issue.href} ${what}${fix}`;
+  });
+  const broken = report.issues.filter((i) => !i.fixedTo).length;
+  const fixedCount = report.issues.length - broken;
+  lines.push(
+    `Links: ${report.checked} checked, ${broken} broken${fixedCount > 0 ? `, ${fixedCount} anchor(s) fixed` : ""}`
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Page a relative href points to, relative to the site root. Returns
+ * undefined for links this checker doesn't cover: absolute paths and
+ * non-HTML files such as llms.txt or images.
+ */
+function resolveTarget(page: string, path: string): string | undefined {
+  if (path === "") return page;
+  if (path.startsWith("/")) return undefined;
+
+  let target = posix.normalize(posix.join(posix.dirname(page), path));
+  if (target.endsWith("/")) target += "index.html";
+  if (!target.endsWith(".html")) return undefined;
+  return target;
+}
+
+function isExternal(href: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(href) || href.startsWith("//");
+}
+
+/**
+ * The heading id closest to a missing anchor, if it is close enough to be
+ * a typo or a differently slugified version of the same heading.
+ */
+function closestAnchor(anchor: string, ids: string[]): string | undefined {
+  const wanted = normalizeAnchor(anchor);
+  if (!wanted) return undefined;
+
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  let tie = false;
+  for (const id of ids) {
+    const distance = levenshtein(wanted, normalizeAnchor(id));
+    if (distance < bestDistance) {
+      best = id;
+      bestDistance = distance;
+      tie = false;
+    } else if (distance === bestDistance && id !== best) {
+      tie = true;
+    }
+  }
+
+  if (!best || tie) return undefined;
+  const allowed = Math.max(2, Math.floor(wanted.length * 0.25));
+  return bestDistance <= allowed ? best : undefined;
+}
+
+// Words writers tend to add or drop when guessing a heading's slug
+const ANCHOR_STOP_WORDS = new Set(["a", "an", "the", "and", "of", "to", "for"]);
+
+/** Lowercase, drop stop words and plural "s" so near-identical slugs compare equal. */
+function normalizeAnchor(anchor: string): string {
+  return anchor
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word && !ANCHOR_STOP_WORDS.has(word))
+    .map((word) => (word.length > 3 ? word.replace(/s$/, "") : word))
+    .join("-");
+}
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(
+        prev[j] + 1,
+        curr[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+function splitOnce(text: string, separator: string): [string, string | undefined] {
+  const i = text.indexOf(separator);
+  return i === -1 ? [text, undefined] : [text.slice(0, i), text.slice(i + 1)];
+}
+
+function safeDecode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,141 @@
+import type { OpenAPIV3 } from "openapi-types";
+import { listEndpoints } from "./spec-index.js";
+import type { SpecIndex } from "./spec-index.js";
+
+export type LintSeverity = "error" | "warning" | "info";
+
+/** Severity at which a lint run fails, or "none" to only report. */
+export type LintThreshold = LintSeverity | "none";
+
+export interface LintIssue {
+  rule: string;
+  severity: LintSeverity;
+  /** Where the issue was found, e.g. "GET /pets" or "schema Pet" */
+  location: string;
+  message: string;
+}
+
+export interface LintReport {
+  issues: LintIssue[];
+  counts: Record<LintSeverity, number>;
+}
+
+const SEVERITY_RANK: Record<LintSeverity, number> = {
+  error: 2,
+  warning: 1,
+  info: 0,
+};
+
+export const LINT_THRESHOLDS: LintThreshold[] = ["error", "warning", "info", "none"];
+
+/**
+ * Check a spec for gaps that make the generated docs worse: missing
+ * descriptions, identifiers, examples and tags.
+ */
+export function lintSpec(specIndex: SpecIndex): LintReport {
+  const issues: LintIssue[] = [];
+  const declaredTags = new Set(specIndex.tags.map((t) => t.name));
+
+  for (const { path, method, operation } of listEndpoints(specIndex)) {
+    const location = `${method.toUpperCase()} ${path}`;
+
+    if (!operation.summary && !operation.description) {
+      issues.push({ rule: "operation-description", severity: "error", location, message: "Operation has no summary or description" });
+    } else if (!operation.summary) {
+      issues.push({ rule: "operation-summary", severity: "warning", location, message: "Operation has no summary" });
+    }
+
+    if (!operation.operationId) {
+      issues.push({ rule: "operation-id", severity: "warning", location, message: "Operation has no operationId" });
+    }
+
+    if (!operation.tags || operation.tags.length === 0) {
+      issues.push({ rule: "operation-tags", severity: "warning", location, message: "Operation has no tags" });
+    }
+
+    const requestBody = operation.requestBody as OpenAPIV3.RequestBodyObject | undefined;
+    if (requestBody && !hasExample(requestBody.content)) {
+      issues.push({ rule: "example-missing", severity: "info", location, message: "Request body has no example" });
+    }
+
+    for (const [code, response] of Object.entries(operation.responses ?? {})) {
+      const res = response as OpenAPIV3.ResponseObject;
+      const isError = code.startsWith("4") || code.startsWith("5");
+
+      if (isError && !hasSchema(res.content)) {
+        issues.push({ rule: "error-response-schema", severity: "warning", location, message: `Error response ${code} has no schema` });
+      }
+      if (code.startsWith("2") && hasSchema(res.content) && !hasExample(res.content)) {
+        issues.push({ rule: "example-missing", severity: "info", location, message: `Response ${code} has no example` });
+      }
+    }
+  }
+
+  for (const tag of specIndex.pathsByTag.keys()) {
+    if (tag !== "untagged" && !declaredTags.has(tag)) {
+      issues.push({ rule: "tag-undeclared", severity: "warning", location: `tag ${tag}`, message: "Tag is used by operations but not declared in 'tags'" });
+    }
+  }
+
+  for (const [name, schema] of specIndex.schemas) {
+    const undocumented = Object.entries(schema.properties ?? {})
+      .filter(([, prop]) => !(prop as OpenAPIV3.SchemaObject).description)
+      .map(([propName]) => propName);
+    if (undocumented.length > 0) {
+      issues.push({
+        rule: "schema-property-description",
+        severity: "info",
+        location: `schema ${name}`,
+        message: `Properties without description: ${undocumented.join(", ")}`,
+      });
+    }
+  }
+
+  issues.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+
+  const counts: Record<LintSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const issue of issues) counts[issue.severity]++;
+
+  return { issues, counts };
+}
+
+/** Whether the report has any issue at or above the threshold. */
+export function exceedsThreshold(report: LintReport, threshold: LintThreshold): boolean {
+  if (threshold === "none") return false;
+  return report.issues.some(
+    (issue) => SEVERITY_RANK[issue.severity] >= SEVERITY_RANK[threshold]
+  );
+}
+
+/**
+ * Format a lint report for the terminal, listing issues at or above
+ * `minSeverity` followed by a summary line.
+ */
+export function formatLintReport(
+  report: LintReport,
+  minSeverity: LintSeverity = "info"
+): string {
+  const lines = report.issues
+    .filter((issue) => SEVERITY_RANK[issue.severity] >= SEVERITY_RANK[minSeverity])
+    .map(
+      (issue) =>
+        `  ${issue.severity.padEnd(7)} ${issue.location}: ${issue.message} (${issue.rule})`
+    );
+  lines.push(
+    `Lint: ${report.counts.error} error(s), ${report.counts.warning} warning(s), ${report.counts.info} info`
+  );
+  return lines.join("\n");
+}
+
+function hasSchema(content: Record<string, OpenAPIV3.MediaTypeObject> | undefined): boolean {
+  return Object.values(content ?? {}).some((media) => media.schema);
+}
+
+function hasExample(content: Record<string, OpenAPIV3.MediaTypeObject> | undefined): boolean {
+  return Object.values(content ?? {}).some(
+    (media) =>
+      media.example !== undefined ||
+      (media.examples && Object.keys(media.examples).length > 0) ||
+      (media.schema as OpenAPIV3.SchemaObject | undefined)?.example !== undefined
+  );
+}
@@ -1,14 +1,45 @@
 import { readFile, writeFile } from "fs/promises";
 import { resolve, join } from "path";
 import { createHash } from "crypto";
+import type { DocPlan } from "./agents/planner.js";
+import type { LlmUsage } from "./backends/types.js";
 
 export interface SectionManifest {
   contentHash: string;
+  /** Hash of each labeled spec input behind `contentHash`, e.g. "schema Pet", to report what changed */
+  inputHashes?: Record<string, string>;
   outputPath: string;
   title: string;
   group?: string;
   order: number;
   generatedAt: string;
+  /** Hash of the instructions this section was written with, including overrides */
+  instructionsHash?: string;
+  /** Reviewer verdict on the current draft, when review is enabled */
+  review?: SectionReview;
+  /** For translated pages: hash of the source page's markdown the translation was made from */
+  sourceHash?: string;
+  /** Tokens and cost of the agent runs that wrote the page on disk, including review and rewrites */
+  usage?: LlmUsage;
+  /** Hash of the page as generated, to tell when it was edited by hand since */
+  fileHash?: string;
+}
+
+export interface SectionReview {
+  /** Reviewer score from 0 to 10 */
+  score: number;
+  /** Problems the reviewer still saw in the final draft */
+  issues: { category: string; message: string }[];
+  /** How many times the section was revised after review */
+  revisions: number;
+}
+
+export interface SpecManifestEntry {
+  /** Output subdirectory holding this spec's markdown and its own manifest */
+  output: string;
+  title: string;
+  group: string;
+  order: number;
 }
 
 export interface Manifest {
@@ -16,6 +47,25 @@ export interface Manifest {
   specHash: string;
   instructionsHash: string;
   sections: Record<string, SectionManifest>;
+  /** Hand-written guides copied from the `guides` directory, keyed by id. Never regenerated or removed as orphans. */
+  guides?: Record<string, SectionManifest>;
+  /** Present on a multi-spec portal's root manifest, keyed by namespace */
+  specs?: Record<string, SpecManifestEntry>;
+  /** Present on a versioned site's root manifest: version names, each with its own subdirectory and manifest */
+  versions?: string[];
+  latestVersion?: string;
+  /** The plan the sections were written from, reused while the spec's structure holds */
+  plan?: DocPlan;
+  /** Fingerprint of the spec structure the plan was made for */
+  structureHash?: string;
+  /** Tokens and cost of the planner run that made `plan` */
+  planUsage?: LlmUsage;
+  /** Present on a localized site's root manifest: locales, each with its own subdirectory and manifest */
+  locales?: string[];
+  /** Language of the root docs, e.g. "en" */
+  defaultLocale?: string;
+  /** Present on a locale's manifest */
+  locale?: string;
 }
 
 const MANIFEST_FILENAME = ".openapi-docs-manifest.json";
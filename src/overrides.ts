@@ -0,0 +1,65 @@
+import { sha256 } from "./manifest.js";
+import type { Config, SectionOverride } from "./config.js";
+import type { Section } from "./agents/planner.js";
+import type { EditPolicy } from "./edits.js";
+
+export interface SectionSettings {
+  instructions?: string;
+  model?: string;
+  onEdit: EditPolicy;
+}
+
+/**
+ * Instructions, model and edit policy for one section. Overrides apply from
+ * least to most specific: section type, then each related tag, then section
+ * id. Override instructions are appended to the global ones; the most
+ * specific model and edit policy win.
+ */
+export function resolveSectionSettings(section: Section, config: Config): SectionSettings {
+  const matching: SectionOverride[] = [];
+  const { overrides } = config;
+
+  if (overrides?.types?.[section.type]) matching.push(overrides.types[section.type]);
+  for (const tag of section.relatedTags ?? []) {
+    if (overrides?.tags?.[tag]) matching.push(overrides.tags[tag]);
+  }
+  if (overrides?.sections?.[section.id]) matching.push(overrides.sections[section.id]);
+
+  const instructions = [config.instructions, ...matching.map((o) => o.instructions)]
+    .filter(Boolean)
+    .join("\n\n");
+  const model = matching.reduce<string | undefined>((m, o) => o.model ?? m, config.model);
+  const onEdit = matching.reduce<EditPolicy>((p, o) => o.onEdit ?? p, config.onEdit ?? "skip");
+
+  return { instructions: instructions || undefined, model, onEdit };
+}
+
+/** Reference pages ignore instructions; only the sample languages shape them. */
+function referenceHash(config: Config): string {
+  return sha256(`reference${JSON.stringify(config.languages ?? [])}`);
+}
+
+/**
+ * Hash of the instructions a section is written with. A section without
+ * overrides hashes the same as the global instructions did before
+ * per-section hashes existed. A model picked by an override counts, like it
+ * does in the global hash; configured code sample languages count for
+ * endpoint sections, which carry the samples.
+ */
+export function sectionInstructionsHash(section: Section, config: Config): string {
+  if (config.mode === "reference") return referenceHash(config);
+  const settings = resolveSectionSettings(section, config);
+  let key = settings.instructions ?? "";
+  if (settings.model !== config.model) key += JSON.stringify({ model: settings.model });
+  if (section.type === "endpoint-group" && config.languages) key += JSON.stringify(config.languages);
+  return sha256(key);
+}
+
+/** Hash of the global instructions, every override and sample languages, for the manifest's early skip check. */
+export function instructionsHashFor(config: Config): string {
+  if (config.mode === "reference") return referenceHash(config);
+  let key = config.instructions ?? "";
+  if (config.overrides) key += JSON.stringify(config.overrides);
+  if (config.languages) key += JSON.stringify(config.languages);
+  return sha256(key);
+}
@@ -0,0 +1,112 @@
+import type { OpenAPIV3 } from "openapi-types";
+import { listEndpoints } from "./spec-index.js";
+import type { SpecIndex } from "./spec-index.js";
+
+export interface PatternMatch {
+  /** "GET /pets", or "servers" / "paths" for spec-wide signals */
+  location: string;
+  /** What gave the pattern away, e.g. "query parameter cursor" */
+  signals: string[];
+  /** The spec objects the signals came from, for content hashing */
+  sources: unknown[];
+}
+
+export interface SpecPatterns {
+  pagination: PatternMatch[];
+  rateLimits: PatternMatch[];
+  versioning: PatternMatch[];
+}
+
+const PAGINATION_PARAM = /^(cursor|page|page_?size|per_?page|limit|offset|starting_?after|ending_?before|(next_?)?page_?token|continuation_?token)$/i;
+const PAGINATION_FIELD = /^(next|next_?cursor|next_?page(_?token)?|has_?more|previous|prev|total_?count)$/i;
+const RATE_LIMIT_HEADER = /^((x-)?rate-?limit.*|retry-after)$/i;
+const VERSION_PARAM = /version/i;
+const VERSION_SEGMENT = /\/v\d+(\.\d+)?(\/|$)/;
+
+/**
+ * Find cross-cutting API conventions in a spec: pagination parameters and
+ * response fields, rate limit headers and 429 responses, and API versioning
+ * through URLs, headers or query parameters. The planner uses these to
+ * decide which concept pages to write; hashing uses the sources so those
+ * pages regenerate only when the conventions change.
+ */
+export function detectPatterns(specIndex: SpecIndex): SpecPatterns {
+  const pagination: PatternMatch[] = [];
+  const rateLimits: PatternMatch[] = [];
+  const versioning: PatternMatch[] = [];
+
+  for (const { path, method, operation } of listEndpoints(specIndex)) {
+    const location = `${method.toUpperCase()} ${path}`;
+    const params = (operation.parameters ?? []) as OpenAPIV3.ParameterObject[];
+    const responses = Object.entries(operation.responses ?? {}) as [string, OpenAPIV3.ResponseObject][];
+
+    const pageMatch = emptyMatch(location);
+    for (const param of params) {
+      if (param.in === "query" && PAGINATION_PARAM.test(param.name)) {
+        addSignal(pageMatch, `query parameter ${param.name}`, param);
+      }
+    }
+    for (const [code, response] of responses) {
+      if (!code.startsWith("2")) continue;
+      for (const [name, header] of Object.entries(response.headers ?? {})) {
+        if (name.toLowerCase() === "link") addSignal(pageMatch, "Link header", header);
+      }
+      const schema = response.content?.["application/json"]?.schema as OpenAPIV3.SchemaObject | undefined;
+      for (const [name, prop] of Object.entries(schema?.properties ?? {})) {
+        if (PAGINATION_FIELD.test(name)) addSignal(pageMatch, `response field ${name}`, prop);
+      }
+    }
+    if (pageMatch.signals.length > 0) pagination.push(pageMatch);
+
+    const limitMatch = emptyMatch(location);
+    for (const [code, response] of responses) {
+      if (code === "429") addSignal(limitMatch, "429 response", response);
+      for (const [name, header] of Object.entries(response.headers ?? {})) {
+        if (RATE_LIMIT_HEADER.test(name)) addSignal(limitMatch, `header ${name}`, header);
+      }
+    }
+    if (limitMatch.signals.length > 0) rateLimits.push(limitMatch);
+
+    const versionMatch = emptyMatch(location);
+    for (const param of params) {
+      if ((param.in === "header" || param.in === "query") && VERSION_PARAM.test(param.name)) {
+        addSignal(versionMatch, `${param.in} parameter ${param.name}`, param);
+      }
+    }
+    if (versionMatch.signals.length > 0) versioning.push(versionMatch);
+  }
+
+  const versionedServers = specIndex.servers.filter((s) => VERSION_SEGMENT.test(s.url));
+  if (versionedServers.length > 0) {
+    versioning.unshift({
+      location: "servers",
+      signals: versionedServers.map((s) => `server URL ${s.url}`),
+      sources: versionedServers,
+    });
+  }
+
+  const versionedPaths = new Set(
+    listEndpoints(specIndex)
+      .map((e) => e.path.match(/^\/(v\d+(\.\d+)?)(\/|$)/)?.[1])
+      .filter((v): v is string => !!v)
+  );
+  if (versionedPaths.size > 0) {
+    const prefixes = Array.from(versionedPaths).sort();
+    versioning.unshift({
+      location: "paths",
+      signals: prefixes.map((v) => `path prefix /${v}`),
+      sources: prefixes,
+    });
+  }
+
+  return { pagination, rateLimits, versioning };
+}
+
+function emptyMatch(location: string): PatternMatch {
+  return { location, signals: [], sources: [] };
+}
+
+function addSignal(match: PatternMatch, signal: string, source: unknown): void {
+  match.signals.push(signal);
+  match.sources.push(source);
+}
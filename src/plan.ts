@@ -0,0 +1,234 @@
+import { sha256 } from "./manifest.js";
+import type { Manifest } from "./manifest.js";
+import type { SpecIndex } from "./spec-index.js";
+import type { Config } from "./config.js";
+import type { DocPlan, Section } from "./agents/planner.js";
+import { detectPatterns } from "./patterns.js";
+import { computeSectionHash, computeInputHashes } from "./hashing.js";
+import { planReference } from "./reference.js";
+import { createPlanningAgent } from "./agents/planner.js";
+import type { Guide } from "./guides.js";
+import type { LlmBackend, LlmUsage } from "./backends/types.js";
+import { sectionInstructionsHash } from "./overrides.js";
+
+/**
+ * Fingerprint of what the doc structure depends on: the tags that have
+ * endpoints, security schemes, webhooks and callbacks, schemas and detected
+ * conventions. Descriptions, fields and examples don't count, so a saved
+ * plan stays valid across ordinary spec edits.
+ */
+export function computeStructureHash(specIndex: SpecIndex): string {
+  const patterns = detectPatterns(specIndex);
+  return sha256(
+    JSON.stringify({
+      tags: Array.from(specIndex.pathsByTag.keys()).sort(),
+      security: Object.keys(specIndex.security).sort(),
+      webhooks: specIndex.webhooks.length > 0 || specIndex.callbacks.length > 0,
+      schemas: specIndex.schemas.size > 0,
+      pagination: patterns.pagination.length > 0,
+      rateLimits: patterns.rateLimits.length > 0,
+      versioning: patterns.versioning.length > 0,
+    })
+  );
+}
+
+/** Where the plan for a run comes from */
+export type PlanSource = "reference" | "saved" | "planner";
+
+/**
+ * The plan to write from without the planner: the reference plan in
+ * reference mode, else the saved plan while the spec's structure is the one
+ * it was made for. Undefined when the planner has to run.
+ */
+export function reusablePlan(
+  specIndex: SpecIndex,
+  manifest: Manifest | null,
+  config: Config
+): { plan: DocPlan; source: Exclude<PlanSource, "planner"> } | undefined {
+  if (config.mode === "reference") return { plan: planReference(specIndex), source: "reference" };
+  if (!config.replan && manifest?.plan && manifest.structureHash === computeStructureHash(specIndex)) {
+    return { plan: manifest.plan, source: "saved" };
+  }
+  return undefined;
+}
+
+/**
+ * Ask the planner for a plan. Unless replanning, it starts from the saved
+ * plan, and the result keeps that plan's ids and paths. Locked sections of
+ * the saved plan are kept as they are, even when replanning.
+ */
+export async function runPlanner(
+  specIndex: SpecIndex,
+  manifest: Manifest | null,
+  config: Config,
+  backend: LlmBackend,
+  guides: Guide[]
+): Promise<{ plan: DocPlan; usage: LlmUsage }> {
+  const baseline = config.replan ? undefined : manifest?.plan;
+  const planner = createPlanningAgent(specIndex, {
+    backend,
+    instructions: config.instructions,
+    model: config.model,
+    sectionIds: Object.keys(config.overrides?.sections ?? {}),
+    locked: manifest?.plan?.sections.filter((section) => isLocked(section, config)),
+    guides,
+    baseline,
+  });
+
+  const { result, usage } = await planner.run(
+    "Analyze the API spec and create a documentation plan."
+  );
+  const plan = baseline ? stabilizePlan(result, baseline) : result;
+  return { plan: keepLocked(plan, manifest?.plan, config), usage };
+}
+
+/** Whether `locked` in the config lists a section, by id or output path */
+export function isLocked(section: { id: string; outputPath: string }, config: Config): boolean {
+  return config.locked?.some((key) => key === section.id || key === section.outputPath) ?? false;
+}
+
+/** Paths of the locked pages from the last run, which are never deleted as orphans */
+export function lockedPaths(manifest: Manifest | null, config: Config): string[] {
+  return Object.entries(manifest?.sections ?? {})
+    .filter(([id, entry]) => isLocked({ id, outputPath: entry.outputPath }, config))
+    .map(([, entry]) => entry.outputPath);
+}
+
+/**
+ * Put the locked sections of the previous plan back as they were, in case
+ * the planner changed or dropped them. A section planned onto a locked
+ * section's path gets a free name.
+ */
+export function keepLocked(plan: DocPlan, previous: DocPlan | undefined, config: Config): DocPlan {
+  const locked = previous?.sections.filter((section) => isLocked(section, config)) ?? [];
+  if (locked.length === 0) return plan;
+
+  const lockedIds = new Set(locked.map((s) => s.id));
+  const taken = new Set(locked.map((s) => s.outputPath));
+  const others = plan.sections
+    .filter((section) => !lockedIds.has(section.id))
+    .map((section) => {
+      const outputPath = freePath(section.outputPath, taken);
+      taken.add(outputPath);
+      return { ...section, outputPath };
+    });
+  return { sections: [...others, ...locked].sort((a, b) => a.order - b.order) };
+}
+
+/**
+ * Carry ids and output paths over from the previous plan so cached pages
+ * stay cached and don't move. A section keeps the baseline's outputPath when
+ * its id matches; a section with a new id takes over the baseline section it
+ * replaces, matched by type and related tags, or by outputPath.
+ */
+export function stabilizePlan(plan: DocPlan, baseline: DocPlan): DocPlan {
+  const newIds = new Set(plan.sections.map((s) => s.id));
+  const claimed = new Set<string>();
+  const byId = new Map(baseline.sections.map((s) => [s.id, s]));
+
+  const matched = new Set<number>();
+  const sections = plan.sections.map((section, i) => {
+    const match =
+      byId.get(section.id) ??
+      baseline.sections.find(
+        (old) =>
+          !newIds.has(old.id) &&
+          !claimed.has(old.id) &&
+          old.type === section.type &&
+          (old.outputPath === section.outputPath || sameTags(old, section))
+      );
+    if (!match) return section;
+
+    claimed.add(match.id);
+    matched.add(i);
+    return { ...section, id: match.id, outputPath: match.outputPath };
+  });
+
+  // Carried-over paths win; a new section planned onto one gets a free name
+  const taken = new Set(sections.filter((_, i) => matched.has(i)).map((s) => s.outputPath));
+  return {
+    sections: sections.map((section, i) => {
+      if (matched.has(i)) return section;
+      const outputPath = freePath(section.outputPath, taken);
+      taken.add(outputPath);
+      return { ...section, outputPath };
+    }),
+  };
+}
+
+/** `outputPath`, or the first of "name-2.md", "name-3.md"... not in `taken` */
+function freePath(outputPath: string, taken: Set<string>): string {
+  let path = outputPath;
+  for (let n = 2; taken.has(path); n++) {
+    path = outputPath.replace(/(\.md)?$/, `-${n}$1`);
+  }
+  return path;
+}
+
+function sameTags(a: Section, b: Section): boolean {
+  const tags = (s: Section) => (s.relatedTags ?? []).toSorted().join("\n");
+  return (a.relatedTags?.length ?? 0) > 0 && tags(a) === tags(b);
+}
+
+export type StaleReason = "forced" | "new" | "moved" | "content changed" | "instructions changed";
+
+/**
+ * Why a planned section has to be written again, or undefined when the page
+ * on disk is still current. `manifest` is the output directory's manifest
+ * from the last run.
+ */
+export function staleReason(
+  section: Section,
+  specIndex: SpecIndex,
+  manifest: Manifest | null,
+  config: Config
+): StaleReason | undefined {
+  if (config.force || !manifest) return "forced";
+
+  const cached = manifest.sections[section.id];
+  if (!cached) return "new";
+  // A section that moved has no file at its new path yet
+  if (cached.outputPath !== section.outputPath) return "moved";
+  if (cached.contentHash !== computeSectionHash(section, specIndex)) return "content changed";
+
+  // Manifests from before per-section hashes only have the global one
+  const cachedInstructions = cached.instructionsHash ?? manifest.instructionsHash;
+  if (cachedInstructions !== sectionInstructionsHash(section, config)) return "instructions changed";
+  return undefined;
+}
+
+/**
+ * The inputs of a section whose content changed since its page was written,
+ * e.g. "schema Pet changed" or "store endpoints added". Empty for manifests
+ * from before input hashes were recorded.
+ */
+export function describeChanges(section: Section, specIndex: SpecIndex, manifest: Manifest | null): string[] {
+  const before = manifest?.sections[section.id]?.inputHashes;
+  if (!before) return [];
+
+  const after = computeInputHashes(section, specIndex);
+  const changes: string[] = [];
+  for (const [label, hash] of Object.entries(after)) {
+    if (!(label in before)) changes.push(`${label} added`);
+    else if (before[label] !== hash) changes.push(`${label} changed`);
+  }
+  for (const label of Object.keys(before)) {
+    if (!(label in after)) changes.push(`${label} removed`);
+  }
+  return changes;
+}
+
+/**
+ * Pages from the last run that the plan no longer has, and which a run
+ * deletes. Paths in `keep`, such as guides, are never orphans.
+ */
+export function findOrphans(
+  manifest: Manifest | null,
+  plan: DocPlan,
+  keep: Iterable<string> = []
+): { id: string; outputPath: string }[] {
+  const currentPaths = new Set([...plan.sections.map((s) => s.outputPath), ...keep]);
+  return Object.entries(manifest?.sections ?? {})
+    .filter(([, cached]) => !currentPaths.has(cached.outputPath))
+    .map(([id, cached]) => ({ id, outputPath: cached.outputPath }));
+}
@@ -0,0 +1,365 @@
+import { readFile } from "fs/promises";
+import { resolve, join, posix } from "path";
+import type { Config } from "./config.js";
+import { buildSpecIndex, formatConversion } from "./spec-index.js";
+import type { SpecIndex } from "./spec-index.js";
+import { filterSpecIndex } from "./audience.js";
+import { readManifest, sha256 } from "./manifest.js";
+import type { Manifest, SectionManifest } from "./manifest.js";
+import type { DocPlan, Section } from "./agents/planner.js";
+import { computeSpecHash } from "./hashing.js";
+import { reusablePlan, runPlanner, staleReason, describeChanges, findOrphans, isLocked, lockedPaths } from "./plan.js";
+import type { PlanSource, StaleReason } from "./plan.js";
+import { planReference } from "./reference.js";
+import { loadGuides } from "./guides.js";
+import type { Guide } from "./guides.js";
+import { localeInstructions, translationInstructionsHash } from "./i18n.js";
+import { createBackend } from "./backends/index.js";
+import { withRetries } from "./backends/retry.js";
+import type { LlmBackend } from "./backends/types.js";
+import { readEdited } from "./edits.js";
+import type { EditPolicy } from "./edits.js";
+import { instructionsHashFor, resolveSectionSettings } from "./overrides.js";
+
+export interface SectionPreview {
+  id: string;
+  title: string;
+  outputPath: string;
+  /** Why the page would be written again; absent when it is cached */
+  reason?: StaleReason;
+  /** For "content changed": the inputs that changed, e.g. "schema Pet changed" */
+  changes?: string[];
+  /** Set when a stale page was edited by hand: what a run would do about it */
+  edited?: EditPolicy;
+  /** Set when a stale page is locked in the config, so a run leaves it as it is */
+  locked?: boolean;
+}
+
+export interface OutputPreview {
+  /** Output directory relative to `output`, "." for the root */
+  output: string;
+  /** "translation" for a locale translated from the root docs */
+  kind: "spec" | "translation";
+  plan: {
+    /** "unchanged" when spec and instructions match the last run, so nothing is planned or written */
+    source: PlanSource | "unchanged";
+    /** The planner would run, but the saved or reference plan stood in for it */
+    plannerSkipped?: boolean;
+  };
+  sections: SectionPreview[];
+  /** Files a run would delete */
+  orphans: string[];
+}
+
+export interface Preview {
+  outputs: OutputPreview[];
+}
+
+export interface PreviewOptions {
+  /** Backend for the planner, when it has to run */
+  backend?: LlmBackend;
+  /**
+   * Never run the planner: when the spec's structure changed, preview with
+   * the saved plan, or the reference plan when there is none
+   */
+  reusePlan?: boolean;
+}
+
+/** What a preview found for one output, with what it was worked out from */
+export interface OutputState extends OutputPreview {
+  manifest: Manifest | null;
+  /** Spec outputs: the filtered spec and the planned sections by id */
+  specIndex?: SpecIndex;
+  planned?: Map<string, Section>;
+  /** Translations: length of each source page, by output path */
+  sourceChars?: Map<string, number>;
+}
+
+/**
+ * Report what `generate` would do, without writing anything: for every
+ * output directory, which sections are cached and which would be written
+ * again and why, and which files would be deleted as orphans.
+ */
+export async function previewGenerate(config: Config, options: PreviewOptions = {}): Promise<Preview> {
+  const outputs = await inspectOutputs(config, options);
+  return {
+    outputs: outputs.map(({ output, kind, plan, sections, orphans }) => ({ output, kind, plan, sections, orphans })),
+  };
+}
+
+/** `previewGenerate` with the state behind each output, e.g. for cost estimates */
+export async function inspectOutputs(config: Config, options: PreviewOptions = {}): Promise<OutputState[]> {
+  const rootDir = resolve(config.output);
+  const guides = config.guides ? await loadGuides(config.guides) : [];
+  let backend: LlmBackend | undefined;
+  const planner = () =>
+    (backend ??= withRetries(options.backend ?? createBackend(config.backend), { retries: config.retries ?? 2 }));
+  const inspect = (specPath: string, output: string, specConfig: Config, specGuides: Guide[], publishGuides = true) =>
+    inspectSpec(specPath, rootDir, output, specConfig, specGuides, publishGuides, options.reusePlan ? undefined : planner);
+
+  const outputs: OutputState[] = [];
+  if (config.specs?.length) {
+    for (const spec of config.specs) {
+      const output = spec.output ?? spec.namespace;
+      const specGuides = guides.map((g) => ({ ...g, outputPath: posix.relative(output, g.outputPath) }));
+      outputs.push(await inspect(spec.spec, output, config, specGuides, false));
+    }
+  } else if (config.versions?.length) {
+    for (const { version, spec } of config.versions) {
+      outputs.push(await inspect(spec, version, config, guides));
+    }
+  } else {
+    const root = await inspect(config.spec, ".", config, guides);
+    outputs.push(root);
+    for (const locale of config.locales ?? []) {
+      outputs.push(
+        config.localeMode === "generate"
+          ? await inspect(config.spec, locale, { ...config, instructions: localeInstructions(config.instructions, locale) }, guides)
+          : await inspectTranslations(rootDir, locale, root, config)
+      );
+    }
+  }
+  return outputs;
+}
+
+async function inspectSpec(
+  specPath: string,
+  rootDir: string,
+  output: string,
+  config: Config,
+  guides: Guide[],
+  publishGuides: boolean,
+  planner: (() => LlmBackend) | undefined
+): Promise<OutputState> {
+  let specIndex = await buildSpecIndex(specPath, {
+    onConvert: (warnings) => console.warn(formatConversion(warnings)),
+  });
+  if (config.audience) {
+    specIndex = filterSpecIndex(specIndex, config.audience);
+  }
+  const manifest = await readManifest(resolve(join(rootDir, output)));
+  const guideOrphans = publishGuides ? removedGuides(manifest, guides) : [];
+
+  if (
+    !config.force &&
+    manifest &&
+    manifest.specHash === computeSpecHash(specIndex) &&
+    manifest.instructionsHash === instructionsHashFor(config)
+  ) {
+    return {
+      output,
+      kind: "spec",
+      plan: { source: "unchanged" },
+      sections: Object.entries(manifest.sections).map(([id, entry]) => cachedPage(id, entry)),
+      orphans: guideOrphans,
+      manifest,
+      specIndex,
+      planned: new Map(),
+    };
+  }
+
+  let plan: DocPlan;
+  let source: PlanSource;
+  let plannerSkipped = false;
+  const reusable = reusablePlan(specIndex, manifest, config);
+  if (reusable) {
+    ({ plan, source } = reusable);
+  } else if (planner) {
+    ({ plan } = await runPlanner(specIndex, manifest, config, planner(), guides));
+    source = "planner";
+  } else {
+    plan = (!config.replan && manifest?.plan) || planReference(specIndex);
+    source = plan === manifest?.plan ? "saved" : "reference";
+    plannerSkipped = true;
+  }
+
+  const outputDir = resolve(join(rootDir, output));
+  const sections: SectionPreview[] = [];
+  for (const section of plan.sections) {
+    const reason = staleReason(section, specIndex, manifest, config);
+    const changes = reason === "content changed" ? describeChanges(section, specIndex, manifest) : [];
+    const entry = manifest?.sections[section.id];
+    const locked = reason !== undefined && entry !== undefined && isLocked(section, config);
+    const edited =
+      reason && !locked && entry?.outputPath === section.outputPath && (await readEdited(outputDir, entry)) !== undefined
+        ? resolveSectionSettings(section, config).onEdit
+        : undefined;
+    sections.push({
+      id: section.id,
+      title: section.title,
+      outputPath: section.outputPath,
+      ...(reason && { reason }),
+      ...(changes.length > 0 && { changes }),
+      ...(edited && { edited }),
+      ...(locked && { locked }),
+    });
+  }
+
+  // Locked pages and orphans edited by hand are kept
+  const keep = [...(publishGuides ? guides.map((g) => g.outputPath) : []), ...lockedPaths(manifest, config)];
+  const orphans: string[] = [];
+  for (const orphan of findOrphans(manifest, plan, keep)) {
+    if ((await readEdited(outputDir, manifest?.sections[orphan.id])) === undefined) {
+      orphans.push(orphan.outputPath);
+    }
+  }
+
+  return {
+    output,
+    kind: "spec",
+    plan: { source, ...(plannerSkipped && { plannerSkipped }) },
+    sections,
+    orphans: [...orphans, ...guideOrphans],
+    manifest,
+    specIndex,
+    planned: new Map(plan.sections.map((s) => [s.id, s])),
+  };
+}
+
+/**
+ * A locale's translations go stale when their source page changes or will be
+ * written again; translations of pages the source no longer has are deleted.
+ */
+async function inspectTranslations(
+  rootDir: string,
+  locale: string,
+  root: OutputState,
+  config: Config
+): Promise<OutputState> {
+  const source = await readManifest(rootDir);
+  const manifest = await readManifest(resolve(join(rootDir, locale)));
+  const instructionsHash = translationInstructionsHash(locale, config.instructions);
+  const rewritten = new Map(root.sections.filter((s) => s.reason).map((s) => [s.outputPath, s]));
+  const sections: SectionPreview[] = [];
+  const sourceChars = new Map<string, number>();
+
+  for (const kind of ["sections", "guides"] as const) {
+    for (const [id, entry] of Object.entries(source?.[kind] ?? {})) {
+      let markdown = "";
+      try {
+        markdown = await readFile(resolve(join(rootDir, entry.outputPath)), "utf-8");
+      } catch {
+        // Not written yet
+      }
+      sourceChars.set(entry.outputPath, markdown.length);
+
+      const cached = manifest?.[kind]?.[id];
+      const reason = translationReason(cached, entry, sha256(markdown), instructionsHash, config, rewritten.has(entry.outputPath));
+      sections.push({ ...cachedPage(id, entry), ...(reason && { reason }) });
+      rewritten.delete(entry.outputPath);
+    }
+  }
+
+  // Pages the root docs would get for the first time
+  for (const page of rewritten.values()) {
+    if (page.reason === "new" || page.reason === "forced") {
+      sections.push({ id: page.id, title: page.title, outputPath: page.outputPath, reason: "new" });
+    }
+  }
+
+  const sourcePaths = new Set(sections.map((s) => s.outputPath));
+  const orphans = (["sections", "guides"] as const).flatMap((kind) =>
+    Object.values(manifest?.[kind] ?? {})
+      .map((entry) => entry.outputPath)
+      .filter((path) => !sourcePaths.has(path))
+  );
+
+  return {
+    output: locale,
+    kind: "translation",
+    plan: { source: "unchanged" },
+    sections,
+    orphans,
+    manifest,
+    sourceChars,
+  };
+}
+
+function translationReason(
+  cached: SectionManifest | undefined,
+  entry: SectionManifest,
+  sourceHash: string,
+  instructionsHash: string,
+  config: Config,
+  rewritten: boolean
+): StaleReason | undefined {
+  if (config.force) return "forced";
+  if (!cached) return "new";
+  if (cached.outputPath !== entry.outputPath) return "moved";
+  if (cached.instructionsHash !== instructionsHash) return "instructions changed";
+  if (rewritten || cached.sourceHash !== sourceHash) return "content changed";
+  return undefined;
+}
+
+function cachedPage(id: string, entry: SectionManifest): SectionPreview {
+  return { id, title: entry.title, outputPath: entry.outputPath };
+}
+
+/** Copies of guides that were removed from the guides directory */
+function removedGuides(manifest: Manifest | null, guides: Guide[]): string[] {
+  const ids = new Set(guides.map((g) => g.id));
+  return Object.entries(manifest?.guides ?? {})
+    .filter(([id]) => !ids.has(id))
+    .map(([, entry]) => entry.outputPath);
+}
+
+/** A readable report of a preview */
+export function formatPreview(preview: Preview): string {
+  const lines: string[] = ["Dry run: nothing was written."];
+  let regenerate = 0;
+  let deleted = 0;
+
+  for (const output of preview.outputs) {
+    lines.push("", `[${output.output}] ${describePlan(output)}`);
+    for (const section of output.sections) {
+      if (!section.reason) {
+        lines.push(`  cached      ${section.title} (${section.outputPath})`);
+        continue;
+      }
+      const changes = section.changes ? `: ${section.changes.join(", ")}` : "";
+      if (section.locked) {
+        lines.push(`  locked      ${section.title} (${section.outputPath}), ${section.reason}${changes}`);
+        continue;
+      }
+      if (section.edited === "skip") {
+        lines.push(`  skip        ${section.title} (${section.outputPath}), ${section.reason}${changes}, but edited by hand`);
+        continue;
+      }
+      regenerate++;
+      const edited = section.edited ? ` [edited by hand: ${EDIT_ACTIONS[section.edited]}]` : "";
+      const verb = output.kind === "translation" ? "translate " : "regenerate";
+      lines.push(`  ${verb}  ${section.title} (${section.outputPath}), ${section.reason}${changes}${edited}`);
+    }
+    for (const orphan of output.orphans) {
+      deleted++;
+      lines.push(`  delete      ${orphan}`);
+    }
+  }
+
+  const cached = preview.outputs.reduce((n, o) => n + o.sections.filter((s) => !s.reason).length, 0);
+  lines.push("", `${regenerate} to write, ${cached} cached, ${deleted} to delete`);
+  return lines.join("\n");
+}
+
+const EDIT_ACTIONS: Record<Exclude<EditPolicy, "skip">, string> = {
+  new: "new version goes to .new.md",
+  merge: "merged into the edits",
+};
+
+function describePlan(output: OutputPreview): string {
+  if (output.kind === "translation") return "translated from the root docs";
+  switch (output.plan.source) {
+    case "unchanged":
+      return "spec and instructions unchanged, nothing to do";
+    case "reference":
+      return output.plan.plannerSkipped
+        ? "planner skipped, reference plan standing in (no saved plan)"
+        : "reference plan";
+    case "saved":
+      return output.plan.plannerSkipped
+        ? "planner skipped, saved plan standing in (spec structure changed)"
+        : "saved plan reused (spec structure unchanged)";
+    case "planner":
+      return "planned by the planner";
+  }
+}
@@ -0,0 +1,432 @@
+import { posix } from "path";
+import type { OpenAPIV3 } from "openapi-types";
+import type { EndpointInfo, SpecIndex } from "./spec-index.js";
+import type { DocPlan, Section } from "./agents/planner.js";
+import { generateOperationExample } from "./examples.js";
+import { generateSnippets, snippetOptionsFor, formatSamplesMarkdown } from "./snippets.js";
+import type { SnippetLanguage } from "./snippets.js";
+import { slugify } from "./renderer.js";
+
+/**
+ * Plan reference docs straight from the spec: overview, authentication when
+ * there are security schemes, one page per tag, webhooks when there are
+ * webhooks or callbacks, then schemas and errors.
+ */
+export function planReference(specIndex: SpecIndex): DocPlan {
+  const sections: Section[] = [
+    {
+      id: "overview",
+      title: "Overview",
+      outputPath: "index.md",
+      type: "overview",
+      description: "API title, description and base URLs",
+      order: 0,
+    },
+  ];
+
+  if (Object.keys(specIndex.security).length > 0) {
+    sections.push({
+      id: "auth",
+      title: "Authentication",
+      outputPath: "authentication.md",
+      type: "auth",
+      description: "Security schemes",
+      order: sections.length,
+    });
+  }
+
+  for (const [tag, endpoints] of specIndex.pathsByTag) {
+    if (endpoints.length === 0) continue;
+    const info = specIndex.tags.find((t) => t.name === tag);
+    sections.push({
+      id: `tag:${tag}`,
+      title: tag === "untagged" ? "Other endpoints" : titleCase(tag),
+      outputPath: `endpoints/${fileSlug(tag)}.md`,
+      type: "endpoint-group",
+      description: info?.description ?? `Endpoints tagged ${tag}`,
+      group: "Endpoints",
+      relatedTags: [tag],
+      order: sections.length,
+    });
+  }
+
+  if (specIndex.webhooks.length > 0 || specIndex.callbacks.length > 0) {
+    sections.push({
+      id: "webhooks",
+      title: "Webhooks",
+      outputPath: "webhooks.md",
+      type: "webhooks",
+      description: "Webhooks and callbacks the API sends",
+      order: sections.length,
+    });
+  }
+
+  if (specIndex.schemas.size > 0) {
+    sections.push({
+      id: "schemas",
+      title: "Schemas",
+      outputPath: "schemas.md",
+      type: "schemas",
+      description: "Data models",
+      order: sections.length,
+    });
+  }
+
+  if (errorResponses(specIndex).length > 0) {
+    sections.push({
+      id: "errors",
+      title: "Errors",
+      outputPath: "errors.md",
+      type: "errors",
+      description: "Error responses",
+      order: sections.length,
+    });
+  }
+
+  return { sections };
+}
+
+/** Markdown for one section of a reference plan, including its `# Title`. */
+export function renderReferenceSection(
+  section: Section,
+  plan: DocPlan,
+  specIndex: SpecIndex,
+  languages?: SnippetLanguage[]
+): string {
+  const context: RenderContext = { section, plan, specIndex };
+  let body: string[];
+  switch (section.type) {
+    case "overview":
+      body = renderOverview(context);
+      break;
+    case "auth":
+      body = renderAuth(specIndex);
+      break;
+    case "endpoint-group":
+      body = renderEndpointGroup(context, languages);
+      break;
+    case "webhooks":
+      body = renderWebhooks(context);
+      break;
+    case "schemas":
+      body = renderSchemas(context);
+      break;
+    case "errors":
+      body = renderErrors(context);
+      break;
+    default:
+      throw new Error(`Reference mode can't render '${section.type}' sections`);
+  }
+  return [`# ${section.title}`, "", ...body].join("\n").replace(/\n{3,}/g, "\n\n").trimEnd() + "\n";
+}
+
+interface RenderContext {
+  section: Section;
+  plan: DocPlan;
+  specIndex: SpecIndex;
+}
+
+function renderOverview({ section, plan, specIndex }: RenderContext): string[] {
+  const lines = [specIndex.info.description ?? "", "", `**Version:** ${specIndex.info.version}`, ""];
+
+  if (specIndex.servers.length > 0) {
+    lines.push("## Base URLs", "", "| URL | Description |", "|-----|-------------|");
+    for (const server of specIndex.servers) {
+      lines.push(`| \`${server.url}\` | ${cell(server.description)} |`);
+    }
+    lines.push("");
+  }
+
+  const groups = plan.sections.filter((s) => s.type === "endpoint-group");
+  if (groups.length > 0) {
+    lines.push("## Endpoints", "", "| Group | Description |", "|-------|-------------|");
+    for (const group of groups) {
+      const tag = specIndex.tags.find((t) => group.relatedTags?.includes(t.name));
+      lines.push(`| [${group.title}](${linkTo(section, group.outputPath)}) | ${cell(tag?.description)} |`);
+    }
+  }
+  return lines;
+}
+
+function renderAuth(specIndex: SpecIndex): string[] {
+  const lines: string[] = [];
+  for (const [name, scheme] of Object.entries(specIndex.security)) {
+    lines.push(`## ${name}`, "", scheme.description ?? "", "");
+    lines.push("| Property | Value |", "|----------|-------|");
+
+    if (scheme.type === "apiKey") {
+      lines.push("| Type | API key |", `| Sent in | ${scheme.in} |`, `| Name | \`${scheme.name}\` |`, "");
+      const example =
+        scheme.in === "header" ? `${scheme.name}: YOUR_API_KEY`
+        : scheme.in === "cookie" ? `Cookie: ${scheme.name}=YOUR_API_KEY`
+        : `GET /resource?${scheme.name}=YOUR_API_KEY`;
+      lines.push("```http", example, "```", "");
+    } else if (scheme.type === "http") {
+      lines.push(`| Type | HTTP ${scheme.scheme} |`);
+      if (scheme.bearerFormat) lines.push(`| Bearer format | ${scheme.bearerFormat} |`);
+      lines.push("");
+      const example = scheme.scheme.toLowerCase() === "basic"
+        ? "Authorization: Basic BASE64(username:password)"
+        : `Authorization: ${titleCase(scheme.scheme)} YOUR_TOKEN`;
+      lines.push("```http", example, "```", "");
+    } else if (scheme.type === "oauth2") {
+      lines.push("| Type | OAuth 2.0 |", "");
+      for (const [flowName, flow] of Object.entries(scheme.flows)) {
+        lines.push(`### ${flowName} flow`, "");
+        if ("authorizationUrl" in flow) lines.push(`Authorization URL: \`${flow.authorizationUrl}\``, "");
+        if ("tokenUrl" in flow) lines.push(`Token URL: \`${flow.tokenUrl}\``, "");
+        const scopes = Object.entries(flow.scopes ?? {});
+        if (scopes.length > 0) {
+          lines.push("| Scope | Description |", "|-------|-------------|");
+          for (const [scope, description] of scopes) lines.push(`| \`${scope}\` | ${cell(description)} |`);
+          lines.push("");
+        }
+      }
+      lines.push("```http", "Authorization: Bearer YOUR_TOKEN", "```", "");
+    } else {
+      lines.push("| Type | OpenID Connect |", `| Discovery URL | \`${scheme.openIdConnectUrl}\` |`, "");
+    }
+  }
+  return lines;
+}
+
+function renderEndpointGroup(context: RenderContext, languages?: SnippetLanguage[]): string[] {
+  const { section, specIndex } = context;
+  const tag = specIndex.tags.find((t) => section.relatedTags?.includes(t.name));
+  const lines = [tag?.description ?? "", ""];
+
+  for (const endpoint of (section.relatedTags ?? []).flatMap((t) => specIndex.pathsByTag.get(t) ?? [])) {
+    const { operation } = endpoint;
+    const ref = `${endpoint.method.toUpperCase()} ${endpoint.path}`;
+    lines.push(`## ${operation.summary ?? ref}`, "", `\`${ref}\``, "");
+    if (operation.deprecated) lines.push("> **Deprecated.**", "");
+    if (operation.description) lines.push(operation.description, "");
+
+    const params = (operation.parameters ?? []) as OpenAPIV3.ParameterObject[];
+    if (params.length > 0) {
+      lines.push("### Parameters", "", "| Name | In | Type | Required | Description |", "|------|----|------|----------|-------------|");
+      for (const param of params) {
+        const schema = param.schema as OpenAPIV3.SchemaObject | undefined;
+        lines.push(
+          `| \`${param.name}\` | ${param.in} | ${schema ? typeOf(schema, context) : ""} | ${param.required ? "Yes" : "No"} | ${cell(param.description, schema)} |`
+        );
+      }
+      lines.push("");
+    }
+
+    const requestBody = operation.requestBody as OpenAPIV3.RequestBodyObject | undefined;
+    const [requestType, requestMedia] = Object.entries(requestBody?.content ?? {})[0] ?? [];
+    if (requestMedia) {
+      lines.push("### Request body", "", `Content type: \`${requestType}\``, "");
+      const example = generateOperationExample(endpoint, "request");
+      if (example !== undefined) {
+        lines.push("Example request body:", "", "```json", JSON.stringify(example, null, 2), "```", "");
+      }
+      lines.push(...fieldTable(requestMedia.schema as OpenAPIV3.SchemaObject | undefined, context, "request"));
+    }
+
+    const responses = Object.entries(operation.responses ?? {}) as [string, OpenAPIV3.ResponseObject][];
+    if (responses.length > 0) {
+      lines.push("### Responses", "", "| Status | Description |", "|--------|-------------|");
+      for (const [status, response] of responses) {
+        lines.push(`| \`${status}\` | ${cell(response.description)} |`);
+      }
+      lines.push("");
+
+      const success = responses.find(([status]) => status.startsWith("2"));
+      const schema = success && (Object.values(success[1].content ?? {})[0]?.schema as OpenAPIV3.SchemaObject | undefined);
+      const example = success && generateOperationExample(endpoint, "response", success[0]);
+      if (success && schema) {
+        lines.push(`#### Response ${success[0]}`, "", `Schema: ${typeOf(schema, context)}`, "");
+        if (example !== undefined) {
+          lines.push(`Example response (${success[0]}):`, "", "```json", JSON.stringify(example, null, 2), "```", "");
+        }
+      }
+    }
+
+    lines.push(formatSamplesMarkdown(generateSnippets(endpoint, snippetOptionsFor(endpoint, specIndex, languages))), "");
+  }
+  return lines;
+}
+
+function renderWebhooks(context: RenderContext): string[] {
+  const { section, plan, specIndex } = context;
+  const lines: string[] = [];
+
+  if (specIndex.webhooks.length > 0) {
+    lines.push("## Webhooks", "", "Requests the API sends to the URLs you register for these events.", "");
+    for (const { name, method, operation } of specIndex.webhooks) {
+      lines.push(`### ${operation.summary ?? name}`, "", `\`${method.toUpperCase()} ${name}\``, "");
+      lines.push(...renderIncomingRequest({ path: name, method, operation }, context));
+    }
+  }
+
+  if (specIndex.callbacks.length > 0) {
+    lines.push("## Callbacks", "", "Requests the API sends back to a URL given in an earlier request.", "");
+    for (const { name, expression, method, operation, parent } of specIndex.callbacks) {
+      const ref = `\`${parent.method.toUpperCase()} ${parent.path}\``;
+      const tags = parent.tags.length > 0 ? parent.tags : ["untagged"];
+      const group = plan.sections.find(
+        (s) => s.type === "endpoint-group" && s.relatedTags?.some((t) => tags.includes(t))
+      );
+      lines.push(`### ${operation.summary ?? name}`, "", `\`${method.toUpperCase()} ${expression}\``, "");
+      lines.push(
+        `Registered by ${group ? `[${ref}](${linkTo(section, group.outputPath)})` : ref}, ` +
+          `and sent to the URL the expression \`${expression}\` resolves to.`,
+        ""
+      );
+      lines.push(...renderIncomingRequest({ path: expression, method, operation }, context));
+    }
+  }
+  return lines;
+}
+
+/** Description, payload and expected responses of a webhook or callback. */
+function renderIncomingRequest(endpoint: EndpointInfo, context: RenderContext): string[] {
+  const { operation } = endpoint;
+  const lines: string[] = [];
+  if (operation.description) lines.push(operation.description, "");
+
+  const requestBody = operation.requestBody as OpenAPIV3.RequestBodyObject | undefined;
+  const [payloadType, payloadMedia] = Object.entries(requestBody?.content ?? {})[0] ?? [];
+  if (payloadMedia) {
+    const schema = payloadMedia.schema as OpenAPIV3.SchemaObject | undefined;
+    lines.push("#### Payload", "", `Content type: \`${payloadType}\``, "");
+    if (schema) lines.push(`Schema: ${typeOf(schema, context)}`, "");
+    const example = generateOperationExample(endpoint, "request");
+    if (example !== undefined) {
+      lines.push("Example payload:", "", "```json", JSON.stringify(example, null, 2), "```", "");
+    }
+    lines.push(...fieldTable(schema, context, "request"));
+  }
+
+  const responses = Object.entries(operation.responses ?? {}) as [string, OpenAPIV3.ResponseObject][];
+  if (responses.length > 0) {
+    lines.push("#### Expected responses", "", "| Status | Description |", "|--------|-------------|");
+    for (const [status, response] of responses) {
+      lines.push(`| \`${status}\` | ${cell(response.description)} |`);
+    }
+    lines.push("");
+  }
+  return lines;
+}
+
+function renderSchemas(context: RenderContext): string[] {
+  const lines: string[] = [];
+  const names = Array.from(context.specIndex.schemas.keys()).sort((a, b) => a.localeCompare(b));
+  for (const name of names) {
+    const schema = context.specIndex.schemas.get(name)!;
+    lines.push(`## ${name}`, "", schema.description ?? "", "");
+    if (schema.properties) {
+      lines.push(...fieldTable(schema, context));
+    } else {
+      lines.push(`Type: ${typeOf(schema, context, name)}`, "");
+    }
+  }
+  return lines;
+}
+
+function renderErrors({ specIndex }: RenderContext): string[] {
+  const byStatus = new Map<string, { descriptions: Set<string>; refs: string[] }>();
+  for (const { endpoint, status, response } of errorResponses(specIndex)) {
+    const entry = byStatus.get(status) ?? { descriptions: new Set<string>(), refs: [] };
+    if (response.description) entry.descriptions.add(response.description);
+    entry.refs.push(`\`${endpoint.method.toUpperCase()} ${endpoint.path}\``);
+    byStatus.set(status, entry);
+  }
+
+  const lines = [
+    "Error responses returned by the API, by HTTP status.",
+    "",
+    "| Status | Description | Returned by |",
+    "|--------|-------------|-------------|",
+  ];
+  for (const [status, { descriptions, refs }] of Array.from(byStatus).sort(([a], [b]) => a.localeCompare(b))) {
+    lines.push(`| \`${status}\` | ${cell(Array.from(descriptions).join("; "))} | ${refs.join(", ")} |`);
+  }
+  return lines;
+}
+
+function errorResponses(specIndex: SpecIndex): { endpoint: EndpointInfo; status: string; response: OpenAPIV3.ResponseObject }[] {
+  const result: { endpoint: EndpointInfo; status: string; response: OpenAPIV3.ResponseObject }[] = [];
+  for (const endpoints of specIndex.pathsByTag.values()) {
+    for (const endpoint of endpoints) {
+      for (const [status, response] of Object.entries(endpoint.operation.responses ?? {})) {
+        if (status.startsWith("4") || status.startsWith("5")) {
+          result.push({ endpoint, status, response: response as OpenAPIV3.ResponseObject });
+        }
+      }
+    }
+  }
+  return result;
+}
+
+/** Top-level properties of an object schema as a table. */
+function fieldTable(
+  schema: OpenAPIV3.SchemaObject | undefined,
+  context: RenderContext,
+  direction?: "request" | "response"
+): string[] {
+  const properties = Object.entries(schema?.properties ?? {}) as [string, OpenAPIV3.SchemaObject][];
+  const visible = properties.filter(([, prop]) => !(direction === "request" && prop.readOnly));
+  if (visible.length === 0) return [];
+
+  const required = new Set(schema?.required ?? []);
+  const lines = ["| Field | Type | Required | Description |", "|-------|------|----------|-------------|"];
+  for (const [name, prop] of visible) {
+    lines.push(`| \`${name}\` | ${typeOf(prop, context)} | ${required.has(name) ? "Yes" : "No"} | ${cell(prop.description, prop)} |`);
+  }
+  lines.push("");
+  return lines;
+}
+
+/** Short type label, linking named schemas to the schemas page when there is one. */
+function typeOf(schema: OpenAPIV3.SchemaObject, context: RenderContext, self?: string): string {
+  const name = schemaName(schema, context.specIndex);
+  const schemasPage = context.plan.sections.find((s) => s.type === "schemas");
+  if (name && name !== self) {
+    return schemasPage ? `[${name}](${linkTo(context.section, schemasPage.outputPath)}#${slugify(name)})` : name;
+  }
+
+  if (schema.type === "array") {
+    return `array of ${typeOf(schema.items as OpenAPIV3.SchemaObject, context)}`;
+  }
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (variants) {
+    return variants.map((v) => typeOf(v as OpenAPIV3.SchemaObject, context)).join(" or ");
+  }
+  const type = Array.isArray(schema.type) ? (schema.type as string[]).join(" or ") : schema.type ?? (schema.properties ? "object" : "any");
+  const label = schema.format ? `${type} (${schema.format})` : type;
+  return schema.nullable ? `${label} or null` : label;
+}
+
+function schemaName(schema: OpenAPIV3.SchemaObject, specIndex: SpecIndex): string | undefined {
+  for (const [name, candidate] of specIndex.schemas) {
+    if (candidate === schema) return name;
+  }
+  return undefined;
+}
+
+/** Table cell text: description plus allowed values, with pipes and newlines escaped. */
+function cell(description?: string, schema?: OpenAPIV3.SchemaObject): string {
+  const parts = [description ?? ""];
+  if (schema?.enum) parts.push(`One of: ${schema.enum.map((v) => `\`${v}\``).join(", ")}`);
+  if (schema?.default !== undefined) parts.push(`Default: \`${JSON.stringify(schema.default)}\``);
+  if (schema?.example !== undefined && !schema.enum) {
+    const { example } = schema;
+    parts.push(`Example: \`${typeof example === "string" ? example : JSON.stringify(example)}\``);
+  }
+  return parts.filter(Boolean).join(". ").replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+function linkTo(from: Section, outputPath: string): string {
+  return posix.relative(posix.dirname(from.outputPath), outputPath);
+}
+
+function fileSlug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "endpoints";
+}
+
+function titleCase(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
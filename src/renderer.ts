@@ -2,13 +2,23 @@ import { readFile, writeFile, mkdir, copyFile } from "fs/promises";
 import { resolve, join, dirname } from "path";
 import { Marked } from "marked";
 import { createHighlighter } from "shiki";
+import { readManifest } from "./manifest.js";
 import type { Manifest } from "./manifest.js";
+import { checkLinks, formatLinkReport } from "./links.js";
+import type { LinkCheckOptions, LinkReport } from "./links.js";
 
 export interface SiteConfig {
   title?: string;
   icon?: string;
 }
 
+export interface RenderOptions extends LinkCheckOptions {
+  /** Fail when internal links or anchors are broken */
+  strictLinks?: boolean;
+}
+
+const LINK_REPORT_FILENAME = ".openapi-docs-links.json";
+
 interface Heading {
   level: number;
   text: string;
@@ -29,11 +39,40 @@ interface NavGroup {
 
 type NavEntry = NavItem | NavGroup;
 
+interface SiteSection {
+  id: string;
+  outputPath: string;
+  title: string;
+  group?: string;
+  order: number;
+  /** Title of the spec this section belongs to, for multi-spec portals */
+  spec?: string;
+}
+
+/** An entry in the version or language switcher */
+interface SwitcherOption {
+  label: string;
+  href: string;
+  selected: boolean;
+}
+
+type Switcher = (htmlPath: string, rootPath: string) => SwitcherOption[];
+
+interface PageOptions {
+  /** Language of the pages, for `<html lang>` */
+  lang?: string;
+  versionSwitcher?: Switcher;
+  localeSwitcher?: Switcher;
+}
+
+// Explicit heading id, e.g. "## Haustiere {#pets}", kept by translations
+const HEADING_ID = /\s*\{#([\w-]+)\}\s*$/;
+
 function isGroup(entry: NavEntry): entry is NavGroup {
   return "items" in entry;
 }
 
-function slugify(text: string): string {
+export function slugify(text: string): string {
   return text
     .toLowerCase()
     .replace(/[^\w\s-]/g, "")
@@ -48,26 +87,29 @@ function extractHeadings(markdown: string): Heading[] {
   const regex = /^(#{2,2})\s+(.+)$/gm;
   let match;
   while ((match = regex.exec(markdown)) !== null) {
+    const explicit = match[2].match(HEADING_ID);
+    const text = explicit ? match[2].slice(0, explicit.index) : match[2];
     headings.push({
       level: match[1].length,
-      text: match[2].replace(/`/g, ""),
-      slug: slugify(match[2]),
+      text: text.replace(/`/g, ""),
+      slug: explicit?.[1] ?? slugify(text),
     });
   }
   return headings;
 }
 
-export async function renderSite(docsDir: string): Promise<string> {
+export async function renderSite(
+  docsDir: string,
+  options: RenderOptions = {}
+): Promise<string> {
   const siteDir = resolve(join(docsDir, "_site"));
   await mkdir(siteDir, { recursive: true });
 
   // Read manifest to get section order and groups
-  const manifestPath = resolve(join(docsDir, ".openapi-docs-manifest.json"));
-  const manifest: Manifest = JSON.parse(await readFile(manifestPath, "utf-8"));
-
-  const sections = Object.entries(manifest.sections)
-    .map(([id, sec]) => ({ id, ...sec }))
-    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  const manifest = await readManifest(docsDir);
+  if (!manifest) {
+    throw new Error(`No manifest found in ${docsDir}. Run 'generate' first.`);
+  }
 
   // Read optional site config for branding
   let siteConfig: SiteConfig = {};
@@ -78,6 +120,40 @@ export async function renderSite(docsDir: string): Promise<string> {
     // No site config, use defaults
   }
 
+  const { marked, highlighter } = await createMarkdownRenderer();
+
+  let linkReport: LinkReport;
+  try {
+    if (manifest.versions && manifest.versions.length > 0) {
+      linkReport = await renderVersionedSite(docsDir, siteDir, manifest, siteConfig, marked, options);
+    } else if (manifest.locales && manifest.locales.length > 0) {
+      linkReport = await renderLocalizedSite(docsDir, siteDir, manifest, siteConfig, marked, options);
+    } else {
+      const sections = await collectSections(docsDir, manifest);
+      linkReport = await renderPages(docsDir, siteDir, sections, siteConfig, marked, options, {
+        lang: manifest.defaultLocale,
+      });
+    }
+  } finally {
+    highlighter.dispose();
+  }
+
+  // A build artifact, so it goes with the site rather than the docs sources
+  await writeFile(
+    resolve(join(siteDir, LINK_REPORT_FILENAME)),
+    JSON.stringify(linkReport, null, 2) + "\n"
+  );
+  console.log(formatLinkReport(linkReport));
+
+  const broken = linkReport.issues.filter((issue) => !issue.fixedTo).length;
+  if (options.strictLinks && broken > 0) {
+    throw new Error(`${broken} broken link(s). See ${join("_site", LINK_REPORT_FILENAME)} for details.`);
+  }
+
+  return siteDir;
+}
+
+async function createMarkdownRenderer() {
   // Set up markdown renderer with shiki + heading IDs
   const highlighter = await createHighlighter({
     themes: ["github-light", "github-dark"],
@@ -97,8 +173,10 @@ export async function renderSite(docsDir: string): Promise<string> {
   const marked = new Marked({
     renderer: {
       heading({ text, depth }) {
-        const slug = slugify(text.replace(/<[^>]*>/g, ""));
-        return `<h${depth} id="${slug}">${text}</h${depth}>\n`;
+        const explicit = text.match(HEADING_ID);
+        const label = explicit ? text.slice(0, explicit.index) : text;
+        const slug = explicit?.[1] ?? slugify(label.replace(/<[^>]*>/g, ""));
+        return `<h${depth} id="${slug}">${label}</h${depth}>\n`;
       },
       link({ href, text }) {
         // Rewrite relative .md links to .html for the static site
@@ -106,20 +184,188 @@ export async function renderSite(docsDir: string): Promise<string> {
         return `<a href="${rewritten}">${text}</a>`;
       },
       code({ text, lang }) {
-        const language = lang || "text";
+        // A word after the language names a variant, e.g. "python httpx"
+        const [language = "text", variant] = (lang ?? "").split(/\s+/).filter(Boolean);
+        const tab = variant ? `${language}-${variant}` : language;
         try {
-          return highlighter.codeToHtml(text, {
+          const html = highlighter.codeToHtml(text, {
             lang: language,
             themes: { light: "github-light", dark: "github-dark" },
             defaultColor: "light",
           });
+          // Tag the block with its language so code sample tabs can label it
+          return html.replace(/^<pre/, `<pre data-lang="${escapeHtml(tab)}"`);
         } catch {
-          return `<pre><code class="language-${language}">${escapeHtml(text)}</code></pre>`;
+          return `<pre data-lang="${escapeHtml(tab)}"><code class="language-${language}">${escapeHtml(text)}</code></pre>`;
         }
       },
     },
   });
 
+  return { marked, highlighter };
+}
+
+/**
+ * Render each version's docs as its own site under `_site/<version>/`, plus a
+ * `latest/` alias and a root redirect. Every page gets a version switcher that
+ * links to the same page in the other versions when it exists there.
+ */
+async function renderVersionedSite(
+  docsDir: string,
+  siteDir: string,
+  manifest: Manifest,
+  siteConfig: SiteConfig,
+  marked: Marked,
+  options: RenderOptions
+): Promise<LinkReport> {
+  const versions = manifest.versions!;
+  const latest = manifest.latestVersion ?? versions[versions.length - 1];
+
+  const sitesByVersion = new Map<string, { sections: SiteSection[]; pages: Set<string> }>();
+  for (const version of versions) {
+    const versionDir = resolve(join(docsDir, version));
+    const versionManifest = await readManifest(versionDir);
+    if (!versionManifest) {
+      throw new Error(`No manifest found for version "${version}" in ${versionDir}`);
+    }
+    const sections = await collectSections(versionDir, versionManifest);
+    const pages = new Set(sections.map((s) => toHtmlPath(s.outputPath)));
+    sitesByVersion.set(version, { sections, pages });
+  }
+
+  const switcherFor = (current: string): Switcher => (htmlPath, rootPath) =>
+    versions.map((version) => {
+      const { sections, pages } = sitesByVersion.get(version)!;
+      const target = pages.has(htmlPath) ? htmlPath : toHtmlPath(sections[0]?.outputPath ?? "index.md");
+      return {
+        label: version === latest ? `${version} (latest)` : version,
+        href: `${rootPath}../${version}/${target}`,
+        selected: version === current,
+      };
+    });
+
+  const linkReport: LinkReport = { checked: 0, issues: [] };
+  for (const version of versions) {
+    const { sections } = sitesByVersion.get(version)!;
+    const versionDir = resolve(join(docsDir, version));
+    const report = await renderPages(versionDir, resolve(join(siteDir, version)), sections, siteConfig, marked, options, {
+      versionSwitcher: switcherFor(version),
+    });
+    linkReport.checked += report.checked;
+    linkReport.issues.push(...report.issues.map((issue) => ({ ...issue, page: `${version}/${issue.page}` })));
+  }
+
+  // "latest" alias, so links to the newest docs never go stale. Its pages sit
+  // at a different path, so relative links out of them are checked again.
+  const { sections: latestSections } = sitesByVersion.get(latest)!;
+  const latestReport = await renderPages(resolve(join(docsDir, latest)), resolve(join(siteDir, "latest")), latestSections, siteConfig, marked, options, {
+    versionSwitcher: switcherFor(latest),
+  });
+  linkReport.checked += latestReport.checked;
+  linkReport.issues.push(...latestReport.issues.map((issue) => ({ ...issue, page: `latest/${issue.page}` })));
+
+  const landing = `latest/${toHtmlPath(latestSections[0]?.outputPath ?? "index.md")}`;
+  await writeFile(
+    resolve(join(siteDir, "index.html")),
+    `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="refresh" content="0; url=${landing}">
+  <title>Redirecting…</title>
+</head>
+<body>
+  <a href="${landing}">Latest documentation</a>
+</body>
+</html>
+`
+  );
+
+  return linkReport;
+}
+
+/**
+ * Render the default locale's docs at the site root and each other locale
+ * under `_site/<locale>/`. Every page gets a language switcher that links to
+ * the same page in the other languages when it exists there.
+ */
+async function renderLocalizedSite(
+  docsDir: string,
+  siteDir: string,
+  manifest: Manifest,
+  siteConfig: SiteConfig,
+  marked: Marked,
+  options: RenderOptions
+): Promise<LinkReport> {
+  const defaultLocale = manifest.defaultLocale ?? "en";
+  const locales = [defaultLocale, ...manifest.locales!];
+  const subdir = (locale: string) => (locale === defaultLocale ? "" : `${locale}/`);
+
+  const sitesByLocale = new Map<string, { sections: SiteSection[]; pages: Set<string> }>();
+  for (const locale of locales) {
+    const localeDir = resolve(join(docsDir, subdir(locale)));
+    const localeManifest = locale === defaultLocale ? manifest : await readManifest(localeDir);
+    if (!localeManifest) {
+      throw new Error(`No manifest found for locale "${locale}" in ${localeDir}`);
+    }
+    const sections = await collectSections(localeDir, localeManifest);
+    const pages = new Set(sections.map((s) => toHtmlPath(s.outputPath)));
+    sitesByLocale.set(locale, { sections, pages });
+  }
+
+  const switcherFor = (current: string): Switcher => (htmlPath, rootPath) => {
+    const siteRoot = current === defaultLocale ? rootPath : `${rootPath}../`;
+    return locales.map((locale) => {
+      const { sections, pages } = sitesByLocale.get(locale)!;
+      const target = pages.has(htmlPath) ? htmlPath : toHtmlPath(sections[0]?.outputPath ?? "index.md");
+      return {
+        label: localeLabel(locale),
+        href: `${siteRoot}${subdir(locale)}${target}`,
+        selected: locale === current,
+      };
+    });
+  };
+
+  const linkReport: LinkReport = { checked: 0, issues: [] };
+  for (const locale of locales) {
+    const { sections } = sitesByLocale.get(locale)!;
+    const report = await renderPages(
+      resolve(join(docsDir, subdir(locale))),
+      resolve(join(siteDir, subdir(locale))),
+      sections,
+      siteConfig,
+      marked,
+      options,
+      { lang: locale, localeSwitcher: switcherFor(locale) }
+    );
+    linkReport.checked += report.checked;
+    linkReport.issues.push(...report.issues.map((issue) => ({ ...issue, page: `${subdir(locale)}${issue.page}` })));
+  }
+
+  return linkReport;
+}
+
+/** A locale's name in its own language, e.g. "Deutsch" for "de". */
+function localeLabel(locale: string): string {
+  try {
+    const name = new Intl.DisplayNames([locale], { type: "language" }).of(locale) ?? locale;
+    return name.charAt(0).toLocaleUpperCase(locale) + name.slice(1);
+  } catch {
+    return locale;
+  }
+}
+
+async function renderPages(
+  docsDir: string,
+  siteDir: string,
+  sections: SiteSection[],
+  siteConfig: SiteConfig,
+  marked: Marked,
+  options: RenderOptions,
+  page: PageOptions = {}
+): Promise<LinkReport> {
+  await mkdir(siteDir, { recursive: true });
+
   // First pass: read all markdown and extract headings per section
   const sectionData = new Map<
     string,
@@ -132,22 +378,30 @@ export async function renderSite(docsDir: string): Promise<string> {
     const headings = extractHeadings(mdContent);
     const titleMatch = mdContent.match(/^#\s+(.+)$/m);
     const title = titleMatch ? titleMatch[1] : section.id;
-    const htmlPath = section.outputPath.replace(/\.md$/, ".html");
+    const htmlPath = toHtmlPath(section.outputPath);
     sectionData.set(section.id, { mdContent, headings, title, htmlPath });
   }
 
   // Copy icon if provided
+  const pageConfig = { ...siteConfig };
   if (siteConfig.icon) {
     const iconSrc = resolve(siteConfig.icon);
     const iconFilename = siteConfig.icon.split("/").pop()!;
     await copyFile(iconSrc, resolve(join(siteDir, iconFilename)));
-    siteConfig.icon = iconFilename;
+    pageConfig.icon = iconFilename;
   }
 
-  // Render each section
+  // Render every page body first so links can be checked against all pages
+  const bodies = new Map<string, string>();
   for (const section of sections) {
     const data = sectionData.get(section.id)!;
-    const htmlContent = await marked.parse(data.mdContent);
+    bodies.set(data.htmlPath, renderCodeTabs(await marked.parse(data.mdContent)));
+  }
+  const { pages: checkedBodies, report } = checkLinks(bodies, options);
+
+  for (const section of sections) {
+    const data = sectionData.get(section.id)!;
+    const htmlContent = checkedBodies.get(data.htmlPath)!;
 
     const nav = buildNav(sections, data.htmlPath, sectionData);
 
@@ -155,7 +409,11 @@ export async function renderSite(docsDir: string): Promise<string> {
     const rootPath = depth > 0 ? "../".repeat(depth) : "./";
 
     const mdPath = section.outputPath;
-    const fullHtml = template(data.title, htmlContent, nav, rootPath, siteConfig, mdPath);
+    const fullHtml = template(data.title, htmlContent, nav, rootPath, pageConfig, mdPath, {
+      lang: page.lang,
+      versions: page.versionSwitcher?.(data.htmlPath, rootPath),
+      locales: page.localeSwitcher?.(data.htmlPath, rootPath),
+    });
 
     const outPath = resolve(join(siteDir, data.htmlPath));
     await mkdir(dirname(outPath), { recursive: true });
@@ -166,12 +424,87 @@ export async function renderSite(docsDir: string): Promise<string> {
   await writeFile(resolve(join(siteDir, "style.css")), CSS);
 
   // Generate llms.txt files and copy markdown sources
-  await generateLlmsTxt(siteDir, sections, sectionData, siteConfig);
-
-  highlighter.dispose();
+  await generateLlmsTxt(siteDir, sections, sectionData, pageConfig);
 
   console.log(`  Static site: ${sections.length} pages → ${siteDir}`);
-  return siteDir;
+  return report;
+}
+
+const TAB_LABELS: Record<string, string> = {
+  bash: "cURL",
+  shell: "cURL",
+  python: "Python",
+  "python-httpx": "Python (httpx)",
+  javascript: "JavaScript",
+  typescript: "TypeScript",
+  go: "Go",
+};
+
+/**
+ * Turn each group of code blocks between `<!-- code-samples -->` markers into
+ * language tabs. Without JavaScript the blocks stay stacked.
+ */
+function renderCodeTabs(html: string): string {
+  return html.replace(/<!-- code-samples -->([\s\S]*?)<!-- \/code-samples -->/g, (_, inner: string) => {
+    const blocks = Array.from(inner.matchAll(/<pre data-lang="([^"]*)"[\s\S]*?<\/pre>/g));
+    if (blocks.length === 0) return inner;
+
+    const tabs = blocks.map(([, lang], i) =>
+      `<button type="button" class="code-tab${i === 0 ? " active" : ""}" data-lang="${lang}">${escapeHtml(TAB_LABELS[lang] ?? lang)}</button>`
+    );
+    const panels = blocks.map(([block, lang], i) =>
+      `<div class="code-tab-panel${i === 0 ? " active" : ""}" data-lang="${lang}">${block}</div>`
+    );
+    return `<div class="code-tabs">
+<div class="code-tabs-bar" role="tablist">${tabs.join("")}</div>
+${panels.join("\n")}
+</div>`;
+  });
+}
+
+function toHtmlPath(outputPath: string): string {
+  return outputPath.replace(/\.md$/, ".html");
+}
+
+/**
+ * Flatten the manifest into the ordered list of pages to render. A portal
+ * manifest lists its specs, whose sections live in their own subdirectory
+ * manifests; those are appended in spec order, grouped under the spec's
+ * nav group.
+ */
+async function collectSections(
+  docsDir: string,
+  manifest: Manifest
+): Promise<SiteSection[]> {
+  const sections: SiteSection[] = sortSections(manifest);
+
+  const specs = Object.entries(manifest.specs ?? {}).sort(
+    ([, a], [, b]) => a.order - b.order
+  );
+  for (const [namespace, spec] of specs) {
+    const specManifest = await readManifest(resolve(join(docsDir, spec.output)));
+    if (!specManifest) {
+      throw new Error(`No manifest found for spec "${namespace}" in ${spec.output}`);
+    }
+    for (const sec of sortSections(specManifest)) {
+      sections.push({
+        ...sec,
+        id: `${namespace}/${sec.id}`,
+        outputPath: `${spec.output}/${sec.outputPath}`,
+        group: spec.group,
+        spec: spec.title,
+      });
+    }
+  }
+
+  return sections;
+}
+
+function sortSections(manifest: Manifest): SiteSection[] {
+  // Hand-written guides are interleaved with generated sections by order
+  return [...Object.entries(manifest.sections), ...Object.entries(manifest.guides ?? {})]
+    .map(([id, sec]) => ({ id, ...sec }))
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
 }
 
 function buildNav(
@@ -260,17 +593,31 @@ function template(
   nav: NavEntry[],
   rootPath: string,
   siteConfig: SiteConfig = {},
-  mdPath?: string
+  mdPath?: string,
+  switchers: { lang?: string; versions?: SwitcherOption[]; locales?: SwitcherOption[] } = {}
 ): string {
+  const { versions, locales } = switchers;
   const navHtml = renderNav(nav, rootPath);
   const siteTitle = siteConfig.title ?? "API Docs";
   const iconHtml = siteConfig.icon
     ? `<img src="${rootPath}${escapeHtml(siteConfig.icon)}" alt="" class="logo-icon"> `
     : "";
   const mdHref = mdPath ? `${rootPath}${mdPath}` : "";
+  const versionHtml = versions && versions.length > 0
+    ? `
+        <select class="version-switcher" aria-label="API version" onchange="location.href = this.value">
+          ${versions.map((v) => `<option value="${escapeHtml(v.href)}"${v.selected ? " selected" : ""}>${escapeHtml(v.label)}</option>`).join("\n          ")}
+        </select>`
+    : "";
+  const localeHtml = locales && locales.length > 0
+    ? `
+        <select class="version-switcher locale-switcher" aria-label="Language" onchange="location.href = this.value">
+          ${locales.map((l) => `<option value="${escapeHtml(l.href)}"${l.selected ? " selected" : ""}>${escapeHtml(l.label)}</option>`).join("\n          ")}
+        </select>`
+    : "";
 
   return `<!DOCTYPE html>
-<html lang="en">
+<html lang="${escapeHtml(switchers.lang ?? "en")}">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
@@ -281,7 +628,7 @@ function template(
   <div class="layout">
     <nav class="sidebar">
       <div class="sidebar-header">
-        <a href="${rootPath}index.html" class="logo">${iconHtml}${escapeHtml(siteTitle)}</a>
+        <a href="${rootPath}index.html" class="logo">${iconHtml}${escapeHtml(siteTitle)}</a>${versionHtml}${localeHtml}
       </div>
       <ul>
           ${navHtml}
@@ -318,6 +665,30 @@ function template(
       }
       setTimeout(function() { btn.innerHTML = original; }, 2000); // Safe: restoring original hardcoded SVG
     });
+  </script>` : ""}${content.includes('class="code-tabs"') ? `
+  <script>
+    (function() {
+      document.documentElement.classList.add('code-tabs-enabled');
+      function select(lang) {
+        document.querySelectorAll('.code-tabs').forEach(function(group) {
+          if (!group.querySelector('.code-tab[data-lang="' + lang + '"]')) return;
+          group.querySelectorAll('.code-tab, .code-tab-panel').forEach(function(el) {
+            el.classList.toggle('active', el.getAttribute('data-lang') === lang);
+          });
+        });
+      }
+      document.querySelectorAll('.code-tab').forEach(function(tab) {
+        tab.addEventListener('click', function() {
+          var lang = tab.getAttribute('data-lang');
+          select(lang);
+          try { localStorage.setItem('code-sample-lang', lang); } catch (e) {}
+        });
+      });
+      try {
+        var saved = localStorage.getItem('code-sample-lang');
+        if (saved) select(saved);
+      } catch (e) {}
+    })();
   </script>` : ""}
 </body>
 </html>
@@ -326,7 +697,7 @@ function template(
 
 async function generateLlmsTxt(
   siteDir: string,
-  sections: Array<{ id: string; outputPath: string; title: string; group?: string; order?: number }>,
+  sections: SiteSection[],
   sectionData: Map<string, { mdContent: string; headings: Heading[]; title: string; htmlPath: string }>,
   siteConfig: SiteConfig
 ): Promise<void> {
@@ -351,8 +722,14 @@ async function generateLlmsTxt(
     }
   }
   llmsLines.push("## Docs", "");
+  let currentSpec: string | undefined;
   for (const section of sections) {
     const data = sectionData.get(section.id)!;
+    // Portal sections are listed under one heading per spec
+    if (section.spec && section.spec !== currentSpec) {
+      currentSpec = section.spec;
+      llmsLines.push("", `## ${currentSpec}`, "");
+    }
     llmsLines.push(`- [${data.title}](${section.outputPath}): ${section.title}`);
   }
   llmsLines.push("");
@@ -364,7 +741,8 @@ async function generateLlmsTxt(
     const data = sectionData.get(section.id)!;
     // Strip the H1 title from each section since we have our own
     const contentWithoutH1 = data.mdContent.replace(/^#\s+.+\n+/, "");
-    fullLines.push(`## ${data.title}`, "", contentWithoutH1.trim(), "", "---", "");
+    const heading = section.spec ? `${section.spec}: ${data.title}` : data.title;
+    fullLines.push(`## ${heading}`, "", contentWithoutH1.trim(), "", "---", "");
   }
   await writeFile(resolve(join(siteDir, "llms-full.txt")), fullLines.join("\n"));
 }
@@ -444,6 +822,18 @@ body {
   width: auto;
 }
 
+.version-switcher {
+  margin-top: 0.75rem;
+  width: 100%;
+  padding: 0.3rem 0.5rem;
+  font-family: var(--font-sans);
+  font-size: 0.8rem;
+  color: var(--color-text);
+  background: var(--color-bg);
+  border: 1px solid var(--color-border);
+  border-radius: 4px;
+}
+
 .sidebar > ul {
   list-style: none;
 }
@@ -670,6 +1060,41 @@ article .shiki {
   border: 1px solid var(--color-border);
 }
 
+/* Code sample tabs */
+.code-tabs {
+  margin-bottom: 1rem;
+}
+
+.code-tabs-bar {
+  display: none;
+  gap: 0.25rem;
+  margin-bottom: 0.5rem;
+}
+
+.code-tabs-enabled .code-tabs-bar {
+  display: flex;
+}
+
+.code-tab {
+  padding: 0.25rem 0.75rem;
+  font-family: var(--font-sans);
+  font-size: 0.8rem;
+  color: var(--color-text-secondary);
+  background: none;
+  border: 1px solid var(--color-border);
+  border-radius: 4px;
+  cursor: pointer;
+}
+
+.code-tab.active {
+  color: var(--color-text);
+  background: var(--color-code-bg);
+}
+
+.code-tabs-enabled .code-tab-panel:not(.active) {
+  display: none;
+}
+
 /* Tables */
 article table {
   width: 100%;
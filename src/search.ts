@@ -0,0 +1,194 @@
+import type { OpenAPIV3 } from "openapi-types";
+import { listEndpoints } from "./spec-index.js";
+import type { SpecIndex } from "./spec-index.js";
+
+export interface OperationHit {
+  kind: "operation" | "webhook";
+  method: string;
+  /** Path for operations, webhook name for webhooks */
+  path: string;
+  operationId?: string;
+  summary?: string;
+  score: number;
+  /** Which fields matched, e.g. "parameter cursor" */
+  matches: string[];
+}
+
+export interface SchemaHit {
+  kind: "schema";
+  name: string;
+  score: number;
+  matches: string[];
+}
+
+export type SearchHit = OperationHit | SchemaHit;
+
+interface Field {
+  label: string;
+  text: string;
+  weight: number;
+}
+
+interface Document {
+  hit: Omit<OperationHit, "score" | "matches"> | Omit<SchemaHit, "score" | "matches">;
+  fields: Field[];
+}
+
+// How deep to look into nested schemas for property names and enum values
+const MAX_SCHEMA_DEPTH = 3;
+
+/**
+ * Ranked keyword search across operations, webhooks and schemas. Matches
+ * operation summaries and descriptions, parameter names, schema property
+ * names and enum values. Returns the best `limit` hits, highest score first.
+ */
+export function searchSpec(
+  specIndex: SpecIndex,
+  query: string,
+  limit = 10
+): SearchHit[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) return [];
+
+  const hits: SearchHit[] = [];
+  for (const doc of buildDocuments(specIndex)) {
+    let score = 0;
+    let matchedTerms = 0;
+    const matches = new Set<string>();
+    const fieldTokens = doc.fields.map((field) => tokenize(field.text));
+
+    for (const term of terms) {
+      let best = 0;
+      for (const [i, field] of doc.fields.entries()) {
+        const tokens = fieldTokens[i];
+        const value = tokens.includes(term)
+          ? field.weight
+          : tokens.some((t) => t.includes(term))
+            ? field.weight / 2
+            : 0;
+        if (value > 0) matches.add(field.label);
+        best = Math.max(best, value);
+      }
+      if (best > 0) matchedTerms++;
+      score += best;
+    }
+
+    if (score === 0) continue;
+    // Prefer documents that match every term over ones that match one term often
+    score *= matchedTerms / terms.length;
+    hits.push({ ...doc.hit, score: Math.round(score * 100) / 100, matches: Array.from(matches) } as SearchHit);
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+function buildDocuments(specIndex: SpecIndex): Document[] {
+  const docs: Document[] = [];
+
+  for (const { path, method, operation } of listEndpoints(specIndex)) {
+    docs.push({
+      hit: { kind: "operation", method, path, operationId: operation.operationId, summary: operation.summary },
+      fields: [
+        { label: "path", text: path, weight: 3 },
+        ...operationFields(operation),
+      ],
+    });
+  }
+
+  for (const { name, method, operation } of specIndex.webhooks) {
+    docs.push({
+      hit: { kind: "webhook", method, path: name, operationId: operation.operationId, summary: operation.summary },
+      fields: [
+        { label: "name", text: name, weight: 3 },
+        ...operationFields(operation),
+      ],
+    });
+  }
+
+  for (const [name, schema] of specIndex.schemas) {
+    docs.push({
+      hit: { kind: "schema", name },
+      fields: [
+        { label: "name", text: name, weight: 3 },
+        { label: "description", text: schema.description ?? "", weight: 1 },
+        ...schemaFields(schema, 2),
+      ],
+    });
+  }
+
+  return docs;
+}
+
+function operationFields(operation: OpenAPIV3.OperationObject): Field[] {
+  const fields: Field[] = [
+    { label: "operationId", text: operation.operationId ?? "", weight: 3 },
+    { label: "summary", text: operation.summary ?? "", weight: 3 },
+    { label: "description", text: operation.description ?? "", weight: 1 },
+  ];
+
+  for (const param of (operation.parameters ?? []) as OpenAPIV3.ParameterObject[]) {
+    fields.push({ label: `parameter ${param.name}`, text: param.name, weight: 2 });
+    if (param.description) {
+      fields.push({ label: `parameter ${param.name}`, text: param.description, weight: 0.5 });
+    }
+    fields.push(...schemaFields(param.schema as OpenAPIV3.SchemaObject | undefined, 1));
+  }
+
+  const body = operation.requestBody as OpenAPIV3.RequestBodyObject | undefined;
+  for (const media of Object.values(body?.content ?? {})) {
+    fields.push(...schemaFields(media.schema as OpenAPIV3.SchemaObject | undefined, 1));
+  }
+  for (const response of Object.values(operation.responses ?? {})) {
+    for (const media of Object.values((response as OpenAPIV3.ResponseObject).content ?? {})) {
+      fields.push(...schemaFields(media.schema as OpenAPIV3.SchemaObject | undefined, 0.5));
+    }
+  }
+
+  return fields;
+}
+
+/** Property names and enum values of a schema, walking nested schemas. */
+function schemaFields(
+  schema: OpenAPIV3.SchemaObject | undefined,
+  weight: number,
+  depth = 0,
+  seen = new Set<object>()
+): Field[] {
+  if (!schema || depth > MAX_SCHEMA_DEPTH || seen.has(schema)) return [];
+  seen.add(schema);
+
+  const fields: Field[] = [];
+  if (schema.enum) {
+    fields.push({ label: "enum", text: schema.enum.map(String).join(" "), weight });
+  }
+  for (const [name, prop] of Object.entries(schema.properties ?? {})) {
+    fields.push({ label: `property ${name}`, text: name, weight });
+    fields.push(...schemaFields(prop as OpenAPIV3.SchemaObject, weight, depth + 1, seen));
+  }
+  if ("items" in schema && schema.items) {
+    fields.push(...schemaFields(schema.items as OpenAPIV3.SchemaObject, weight, depth + 1, seen));
+  }
+  for (const variant of [...(schema.allOf ?? []), ...(schema.oneOf ?? []), ...(schema.anyOf ?? [])]) {
+    fields.push(...schemaFields(variant as OpenAPIV3.SchemaObject, weight, depth + 1, seen));
+  }
+  return fields;
+}
+
+/**
+ * Lowercase word tokens. camelCase and snake_case identifiers yield both
+ * their parts and the whole word, so "createdAt" matches "created" and
+ * "createdat".
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.split(/[^A-Za-z0-9_]+/)) {
+    if (!word) continue;
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .split(/[\s_]+/)
+      .filter(Boolean);
+    tokens.push(word.toLowerCase().replace(/_/g, ""));
+    if (parts.length > 1) tokens.push(...parts.map((p) => p.toLowerCase()));
+  }
+  return tokens;
+}
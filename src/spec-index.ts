@@ -1,5 +1,6 @@
 import SwaggerParser from "@apidevtools/swagger-parser";
-import type { OpenAPI, OpenAPIV3 } from "openapi-types";
+import type { OpenAPI, OpenAPIV2, OpenAPIV3, OpenAPIV3_1 } from "openapi-types";
+import { convertSwagger2 } from "./swagger2.js";
 
 export interface EndpointInfo {
   path: string;
@@ -7,6 +8,24 @@ export interface EndpointInfo {
   operation: OpenAPIV3.OperationObject;
 }
 
+export interface WebhookInfo {
+  /** Webhook name, the key under the top-level `webhooks` object */
+  name: string;
+  method: string;
+  operation: OpenAPIV3.OperationObject;
+}
+
+export interface CallbackInfo {
+  /** Callback name, the key under the operation's `callbacks` object */
+  name: string;
+  /** Runtime expression for the callback URL, e.g. `{$request.body#/callbackUrl}` */
+  expression: string;
+  method: string;
+  operation: OpenAPIV3.OperationObject;
+  /** The operation that registers this callback */
+  parent: { path: string; method: string; operationId?: string; tags: string[] };
+}
+
 export interface SpecIndex {
   info: OpenAPIV3.InfoObject;
   servers: OpenAPIV3.ServerObject[];
@@ -14,19 +33,64 @@ export interface SpecIndex {
   security: Record<string, OpenAPIV3.SecuritySchemeObject>;
   pathsByTag: Map<string, EndpointInfo[]>;
   schemas: Map<string, OpenAPIV3.SchemaObject>;
+  webhooks: WebhookInfo[];
+  callbacks: CallbackInfo[];
+}
+
+const HTTP_METHODS = [
+  "get",
+  "post",
+  "put",
+  "delete",
+  "patch",
+  "options",
+  "head",
+] as const;
+
+function operationsOf(
+  pathItem: OpenAPIV3.PathItemObject
+): Array<{ method: string; operation: OpenAPIV3.OperationObject }> {
+  const operations: Array<{ method: string; operation: OpenAPIV3.OperationObject }> = [];
+  for (const method of HTTP_METHODS) {
+    const operation = (pathItem as Record<string, unknown>)[
+      method
+    ] as OpenAPIV3.OperationObject | undefined;
+    if (operation) operations.push({ method, operation });
+  }
+  return operations;
 }
 
 function isV3Document(doc: OpenAPI.Document): doc is OpenAPIV3.Document {
   return "openapi" in doc;
 }
 
-export async function buildSpecIndex(specPath: string): Promise<SpecIndex> {
-  const doc = await SwaggerParser.dereference(specPath);
+function isV2Document(doc: OpenAPI.Document): doc is OpenAPIV2.Document {
+  return "swagger" in doc;
+}
+
+export interface SpecIndexOptions {
+  /** Called with the conversion warnings when a Swagger 2.0 spec is upconverted */
+  onConvert?: (warnings: string[]) => void;
+}
+
+/** The notice for an upconverted Swagger 2.0 spec, with one line per warning */
+export function formatConversion(warnings: string[]): string {
+  return ["Converted Swagger 2.0 spec to OpenAPI 3.0", ...warnings.map((w) => `  Warning: ${w}`)].join("\n");
+}
+
+export async function buildSpecIndex(specPath: string, options: SpecIndexOptions = {}): Promise<SpecIndex> {
+  const parsed = await SwaggerParser.dereference(specPath);
 
-  if (!isV3Document(doc)) {
-    throw new Error(
-      "Only OpenAPI 3.0/3.1 specs are supported. Swagger 2.0 is not supported."
-    );
+  let doc: OpenAPIV3.Document;
+  if (isV3Document(parsed)) {
+    doc = parsed;
+  } else if (isV2Document(parsed)) {
+    // Upconvert Swagger 2.0 so the rest of the pipeline only sees OpenAPI 3
+    const { document, warnings } = convertSwagger2(parsed);
+    options.onConvert?.(warnings);
+    doc = document;
+  } else {
+    throw new Error("Unrecognized spec format. Expected OpenAPI 3.x or Swagger 2.0.");
   }
 
   const info = doc.info;
@@ -41,29 +105,15 @@ export async function buildSpecIndex(specPath: string): Promise<SpecIndex> {
     security[name] = scheme as OpenAPIV3.SecuritySchemeObject;
   }
 
-  // Group endpoints by tag
+  // Group endpoints by tag, collecting any callbacks they declare
   const pathsByTag = new Map<string, EndpointInfo[]>();
+  const callbacks: CallbackInfo[] = [];
   const paths = doc.paths ?? {};
 
   for (const [path, pathItem] of Object.entries(paths)) {
     if (!pathItem) continue;
 
-    const methods = [
-      "get",
-      "post",
-      "put",
-      "delete",
-      "patch",
-      "options",
-      "head",
-    ] as const;
-
-    for (const method of methods) {
-      const operation = (pathItem as Record<string, unknown>)[
-        method
-      ] as OpenAPIV3.OperationObject | undefined;
-      if (!operation) continue;
-
+    for (const { method, operation } of operationsOf(pathItem)) {
       const endpoint: EndpointInfo = { path, method, operation };
       const operationTags =
         operation.tags && operation.tags.length > 0
@@ -75,6 +125,30 @@ export async function buildSpecIndex(specPath: string): Promise<SpecIndex> {
         existing.push(endpoint);
         pathsByTag.set(tag, existing);
       }
+
+      for (const [name, callback] of Object.entries(operation.callbacks ?? {})) {
+        const expressions = callback as Record<string, OpenAPIV3.PathItemObject>;
+        for (const [expression, callbackItem] of Object.entries(expressions)) {
+          for (const cb of operationsOf(callbackItem)) {
+            callbacks.push({
+              name,
+              expression,
+              method: cb.method,
+              operation: cb.operation,
+              parent: { path, method, operationId: operation.operationId, tags: operationTags },
+            });
+          }
+        }
+      }
+    }
+  }
+
+  // Extract webhooks (OpenAPI 3.1)
+  const webhooks: WebhookInfo[] = [];
+  const webhookItems = (doc as OpenAPIV3_1.Document).webhooks ?? {};
+  for (const [name, webhookItem] of Object.entries(webhookItems)) {
+    for (const { method, operation } of operationsOf(webhookItem as OpenAPIV3.PathItemObject)) {
+      webhooks.push({ name, method, operation });
     }
   }
 
@@ -85,5 +159,53 @@ export async function buildSpecIndex(specPath: string): Promise<SpecIndex> {
     schemas.set(name, schema as OpenAPIV3.SchemaObject);
   }
 
-  return { info, servers, tags, security, pathsByTag, schemas };
+  return { info, servers, tags, security, pathsByTag, schemas, webhooks, callbacks };
+}
+
+/**
+ * All endpoints in the spec, each listed once even when it carries several
+ * tags.
+ */
+export function listEndpoints(specIndex: SpecIndex): EndpointInfo[] {
+  const seen = new Set<OpenAPIV3.OperationObject>();
+  const endpoints: EndpointInfo[] = [];
+  for (const tagEndpoints of specIndex.pathsByTag.values()) {
+    for (const endpoint of tagEndpoints) {
+      if (seen.has(endpoint.operation)) continue;
+      seen.add(endpoint.operation);
+      endpoints.push(endpoint);
+    }
+  }
+  return endpoints;
+}
+
+/**
+ * Find a single endpoint by operationId, or by method and path.
+ */
+export function findEndpoint(
+  specIndex: SpecIndex,
+  query: { operationId?: string; method?: string; path?: string }
+): EndpointInfo | undefined {
+  const method = query.method?.toLowerCase();
+  return listEndpoints(specIndex).find((e) =>
+    query.operationId
+      ? e.operation.operationId === query.operationId
+      : e.method === method && e.path === query.path
+  );
+}
+
+/**
+ * The auth scheme an endpoint's examples use: the scheme of the operation's
+ * first security requirement, or the first declared scheme when the
+ * operation doesn't say.
+ */
+export function securitySchemeFor(
+  endpoint: EndpointInfo,
+  specIndex: SpecIndex
+): OpenAPIV3.SecuritySchemeObject | undefined {
+  const requirement = endpoint.operation.security;
+  const schemeName = requirement
+    ? Object.keys(requirement[0] ?? {})[0]
+    : Object.keys(specIndex.security)[0];
+  return schemeName ? specIndex.security[schemeName] : undefined;
 }
@@ -0,0 +1,429 @@
+import type { OpenAPIV2, OpenAPIV3 } from "openapi-types";
+
+export interface Swagger2Conversion {
+  document: OpenAPIV3.Document;
+  warnings: string[];
+}
+
+const METHODS = [
+  "get",
+  "post",
+  "put",
+  "delete",
+  "patch",
+  "options",
+  "head",
+] as const;
+
+const DEFAULT_MEDIA_TYPE = "application/json";
+
+// Keys that only exist on Swagger 2.0 schema/parameter objects and have no
+// OpenAPI 3 counterpart at the same location.
+const V2_ONLY_KEYS = new Set([
+  "x-nullable",
+  "collectionFormat",
+  "allowEmptyValue",
+  "discriminator",
+]);
+
+/**
+ * Convert an already dereferenced Swagger 2.0 document into an OpenAPI 3.0
+ * document. Constructs that have no exact OpenAPI 3 equivalent are converted
+ * on a best-effort basis and reported in `warnings`.
+ */
+export function convertSwagger2(doc: OpenAPIV2.Document): Swagger2Conversion {
+  const warnings: string[] = [];
+  const schemaCache = new Map<object, OpenAPIV3.SchemaObject>();
+  const convert = (schema: unknown) => convertSchema(schema, schemaCache);
+
+  const globalConsumes = doc.consumes ?? [DEFAULT_MEDIA_TYPE];
+  const globalProduces = doc.produces ?? [DEFAULT_MEDIA_TYPE];
+
+  // Build servers from host, basePath and schemes
+  const servers: OpenAPIV3.ServerObject[] = [];
+  const basePath = doc.basePath ?? "";
+  if (doc.host) {
+    for (const scheme of doc.schemes ?? ["https"]) {
+      servers.push({ url: `${scheme}://${doc.host}${basePath}` });
+    }
+  } else if (basePath) {
+    servers.push({ url: basePath });
+  }
+
+  // Convert security definitions
+  const securitySchemes: Record<string, OpenAPIV3.SecuritySchemeObject> = {};
+  for (const [name, definition] of Object.entries(doc.securityDefinitions ?? {})) {
+    securitySchemes[name] = convertSecurityScheme(definition);
+  }
+
+  // Convert definitions
+  const schemas: Record<string, OpenAPIV3.SchemaObject> = {};
+  for (const [name, definition] of Object.entries(doc.definitions ?? {})) {
+    schemas[name] = convert(definition);
+  }
+
+  // Convert paths
+  const paths: OpenAPIV3.PathsObject = {};
+  for (const [path, pathItem] of Object.entries(doc.paths ?? {})) {
+    if (!pathItem) continue;
+
+    const pathParameters = (pathItem.parameters ?? []) as OpenAPIV2.Parameter[];
+    const convertedItem: OpenAPIV3.PathItemObject = {};
+
+    for (const method of METHODS) {
+      const operation = pathItem[method] as OpenAPIV2.OperationObject | undefined;
+      if (!operation) continue;
+
+      const label = `${method.toUpperCase()} ${path}`;
+      const consumes = operation.consumes ?? globalConsumes;
+      const produces = operation.produces ?? globalProduces;
+
+      // Operation-level parameters override path-level ones with the same name+in
+      const merged = new Map<string, OpenAPIV2.Parameter>();
+      for (const param of [
+        ...pathParameters,
+        ...((operation.parameters ?? []) as OpenAPIV2.Parameter[]),
+      ]) {
+        merged.set(`${param.in}:${param.name}`, param);
+      }
+
+      const parameters: OpenAPIV3.ParameterObject[] = [];
+      const formParameters: OpenAPIV2.GeneralParameterObject[] = [];
+      let requestBody: OpenAPIV3.RequestBodyObject | undefined;
+
+      for (const param of merged.values()) {
+        if (param.in === "body") {
+          const content: Record<string, OpenAPIV3.MediaTypeObject> = {};
+          for (const mediaType of consumes) {
+            content[mediaType] = { schema: convert(param.schema) };
+          }
+          requestBody = {
+            ...(param.description ? { description: param.description } : {}),
+            ...(param.required ? { required: true } : {}),
+            content,
+          };
+        } else if (param.in === "formData") {
+          formParameters.push(param as OpenAPIV2.GeneralParameterObject);
+        } else {
+          parameters.push(convertParameter(param as OpenAPIV2.GeneralParameterObject, label, warnings, convert));
+        }
+      }
+
+      if (formParameters.length > 0) {
+        requestBody = convertFormParameters(formParameters, consumes, label, warnings, convert);
+      }
+
+      if (produces.length > 1) {
+        warnings.push(
+          `${label}: multiple produces types (${produces.join(", ")}); the same response schema is used for each`
+        );
+      }
+
+      const responses: OpenAPIV3.ResponsesObject = {};
+      for (const [code, response] of Object.entries(operation.responses ?? {})) {
+        if (!response) continue;
+        responses[code] = convertResponse(response as OpenAPIV2.ResponseObject, produces, convert);
+      }
+
+      const converted: OpenAPIV3.OperationObject = {
+        ...pickExtensions(operation),
+        responses,
+      };
+      if (operation.tags) converted.tags = operation.tags;
+      if (operation.summary) converted.summary = operation.summary;
+      if (operation.description) converted.description = operation.description;
+      if (operation.externalDocs) converted.externalDocs = operation.externalDocs;
+      if (operation.operationId) converted.operationId = operation.operationId;
+      if (parameters.length > 0) converted.parameters = parameters;
+      if (requestBody) converted.requestBody = requestBody;
+      if (operation.deprecated) converted.deprecated = true;
+      if (operation.security) converted.security = operation.security;
+
+      (convertedItem as Record<string, unknown>)[method] = converted;
+    }
+
+    paths[path] = convertedItem;
+  }
+
+  const document: OpenAPIV3.Document = {
+    ...pickExtensions(doc),
+    openapi: "3.0.3",
+    info: doc.info as OpenAPIV3.InfoObject,
+    paths,
+    components: { schemas, securitySchemes },
+  };
+  if (servers.length > 0) document.servers = servers;
+  if (doc.tags) document.tags = doc.tags;
+  if (doc.security) document.security = doc.security;
+  if (doc.externalDocs) document.externalDocs = doc.externalDocs;
+
+  return { document, warnings };
+}
+
+function pickExtensions(obj: object): Record<string, unknown> {
+  const extensions: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    if (key.startsWith("x-")) extensions[key] = value;
+  }
+  return extensions;
+}
+
+function convertSchema(
+  schema: unknown,
+  cache: Map<object, OpenAPIV3.SchemaObject>
+): OpenAPIV3.SchemaObject {
+  if (!schema || typeof schema !== "object") return {};
+
+  // Dereferenced documents share (and may cycle through) schema objects, so
+  // each source object is converted exactly once.
+  const cached = cache.get(schema);
+  if (cached) return cached;
+
+  const source = schema as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  cache.set(schema, result as OpenAPIV3.SchemaObject);
+
+  for (const [key, value] of Object.entries(source)) {
+    if (V2_ONLY_KEYS.has(key)) continue;
+    result[key] = value;
+  }
+
+  if (source.type === "file") {
+    result.type = "string";
+    result.format = "binary";
+  }
+  if (source["x-nullable"] === true) {
+    result.nullable = true;
+  }
+  if (typeof source.discriminator === "string") {
+    result.discriminator = { propertyName: source.discriminator };
+  }
+
+  if (source.items) {
+    result.items = Array.isArray(source.items)
+      ? convertSchema(source.items[0], cache)
+      : convertSchema(source.items, cache);
+  }
+  if (source.properties && typeof source.properties === "object") {
+    const properties: Record<string, OpenAPIV3.SchemaObject> = {};
+    for (const [name, prop] of Object.entries(source.properties)) {
+      properties[name] = convertSchema(prop, cache);
+    }
+    result.properties = properties;
+  }
+  if (source.additionalProperties && typeof source.additionalProperties === "object") {
+    result.additionalProperties = convertSchema(source.additionalProperties, cache);
+  }
+  if (Array.isArray(source.allOf)) {
+    result.allOf = source.allOf.map((s) => convertSchema(s, cache));
+  }
+
+  return result as OpenAPIV3.SchemaObject;
+}
+
+/**
+ * Build a schema from the type-related fields of a non-body parameter, header
+ * or items object.
+ */
+function schemaFromItems(
+  items: OpenAPIV2.ItemsObject,
+  convert: (schema: unknown) => OpenAPIV3.SchemaObject
+): OpenAPIV3.SchemaObject {
+  const { collectionFormat: _format, ...rest } = items as OpenAPIV2.ItemsObject & Record<string, unknown>;
+  const schema: Record<string, unknown> = {};
+  for (const key of [
+    "type",
+    "format",
+    "default",
+    "maximum",
+    "exclusiveMaximum",
+    "minimum",
+    "exclusiveMinimum",
+    "maxLength",
+    "minLength",
+    "pattern",
+    "maxItems",
+    "minItems",
+    "uniqueItems",
+    "enum",
+    "multipleOf",
+  ]) {
+    if (rest[key] !== undefined) schema[key] = rest[key];
+  }
+  if (rest.items) schema.items = schemaFromItems(rest.items as OpenAPIV2.ItemsObject, convert);
+  return convert(schema);
+}
+
+function convertParameter(
+  param: OpenAPIV2.GeneralParameterObject,
+  label: string,
+  warnings: string[],
+  convert: (schema: unknown) => OpenAPIV3.SchemaObject
+): OpenAPIV3.ParameterObject {
+  const converted: OpenAPIV3.ParameterObject = {
+    ...pickExtensions(param),
+    name: param.name,
+    in: param.in,
+    schema: schemaFromItems(param, convert),
+  };
+  if (param.description) converted.description = param.description;
+  if (param.required || param.in === "path") converted.required = true;
+  if (param.allowEmptyValue) converted.allowEmptyValue = true;
+
+  if (param.type === "array" && param.collectionFormat) {
+    Object.assign(converted, collectionFormatStyle(param, label, warnings));
+  }
+
+  return converted;
+}
+
+function collectionFormatStyle(
+  param: OpenAPIV2.GeneralParameterObject,
+  label: string,
+  warnings: string[]
+): Pick<OpenAPIV3.ParameterObject, "style" | "explode"> {
+  const format = param.collectionFormat;
+  const where = `${label}: parameter "${param.name}" (${param.in})`;
+
+  switch (format) {
+    case "csv":
+      return param.in === "query" || param.in === "cookie"
+        ? { style: "form", explode: false }
+        : { style: "simple" };
+    case "multi":
+      if (param.in !== "query") {
+        warnings.push(`${where} uses collectionFormat "multi", which is only valid for query parameters; treated as csv`);
+        return { style: "simple" };
+      }
+      return { style: "form", explode: true };
+    case "ssv":
+    case "pipes":
+      if (param.in !== "query") {
+        warnings.push(`${where} uses collectionFormat "${format}", which has no OpenAPI 3 equivalent outside query; treated as csv`);
+        return { style: "simple" };
+      }
+      return { style: format === "ssv" ? "spaceDelimited" : "pipeDelimited", explode: false };
+    default:
+      warnings.push(`${where} uses collectionFormat "${format}", which has no OpenAPI 3 equivalent; treated as csv`);
+      return param.in === "query" ? { style: "form", explode: false } : { style: "simple" };
+  }
+}
+
+function convertFormParameters(
+  params: OpenAPIV2.GeneralParameterObject[],
+  consumes: string[],
+  label: string,
+  warnings: string[],
+  convert: (schema: unknown) => OpenAPIV3.SchemaObject
+): OpenAPIV3.RequestBodyObject {
+  const hasFile = params.some((p) => (p.type as string) === "file");
+  const formTypes = consumes.filter(
+    (t) => t === "multipart/form-data" || t === "application/x-www-form-urlencoded"
+  );
+  const mediaTypes =
+    formTypes.length > 0
+      ? formTypes
+      : [hasFile ? "multipart/form-data" : "application/x-www-form-urlencoded"];
+
+  warnings.push(
+    `${label}: formData parameters (${params.map((p) => p.name).join(", ")}) converted to a ${mediaTypes.join(" / ")} request body`
+  );
+
+  const properties: Record<string, OpenAPIV3.SchemaObject> = {};
+  const required: string[] = [];
+  for (const param of params) {
+    const schema = { ...schemaFromItems(param, convert) };
+    if (param.description) schema.description = param.description;
+    properties[param.name] = schema;
+    if (param.required) required.push(param.name);
+    if (param.type === "array" && param.collectionFormat && param.collectionFormat !== "multi") {
+      warnings.push(
+        `${label}: form field "${param.name}" uses collectionFormat "${param.collectionFormat}", which is not preserved`
+      );
+    }
+  }
+
+  const schema: OpenAPIV3.SchemaObject = { type: "object", properties };
+  if (required.length > 0) schema.required = required;
+
+  const content: Record<string, OpenAPIV3.MediaTypeObject> = {};
+  for (const mediaType of mediaTypes) {
+    content[mediaType] = { schema };
+  }
+
+  return { ...(required.length > 0 ? { required: true } : {}), content };
+}
+
+function convertResponse(
+  response: OpenAPIV2.ResponseObject,
+  produces: string[],
+  convert: (schema: unknown) => OpenAPIV3.SchemaObject
+): OpenAPIV3.ResponseObject {
+  const converted: OpenAPIV3.ResponseObject = {
+    ...pickExtensions(response),
+    description: response.description ?? "",
+  };
+
+  if (response.headers) {
+    const headers: Record<string, OpenAPIV3.HeaderObject> = {};
+    for (const [name, header] of Object.entries(response.headers)) {
+      headers[name] = {
+        ...(header.description ? { description: header.description } : {}),
+        schema: schemaFromItems(header, convert),
+      };
+    }
+    converted.headers = headers;
+  }
+
+  if (response.schema) {
+    const examples = (response.examples ?? {}) as Record<string, unknown>;
+    const content: Record<string, OpenAPIV3.MediaTypeObject> = {};
+    for (const mediaType of produces) {
+      content[mediaType] = { schema: convert(response.schema) };
+      if (examples[mediaType] !== undefined) {
+        content[mediaType].example = examples[mediaType];
+      }
+    }
+    converted.content = content;
+  }
+
+  return converted;
+}
+
+function convertSecurityScheme(
+  definition: OpenAPIV2.SecuritySchemeObject
+): OpenAPIV3.SecuritySchemeObject {
+  const description = definition.description ? { description: definition.description } : {};
+
+  switch (definition.type) {
+    case "basic":
+      return { type: "http", scheme: "basic", ...description };
+    case "apiKey":
+      return { type: "apiKey", name: definition.name, in: definition.in, ...description };
+    case "oauth2": {
+      const scopes = definition.scopes ?? {};
+      let flows: OpenAPIV3.OAuth2SecurityScheme["flows"];
+      switch (definition.flow) {
+        case "implicit":
+          flows = { implicit: { authorizationUrl: definition.authorizationUrl, scopes } };
+          break;
+        case "password":
+          flows = { password: { tokenUrl: definition.tokenUrl, scopes } };
+          break;
+        case "application":
+          flows = { clientCredentials: { tokenUrl: definition.tokenUrl, scopes } };
+          break;
+        case "accessCode":
+          flows = {
+            authorizationCode: {
+              authorizationUrl: definition.authorizationUrl,
+              tokenUrl: definition.tokenUrl,
+              scopes,
+            },
+          };
+          break;
+      }
+      return { type: "oauth2", flows, ...description };
+    }
+  }
+}
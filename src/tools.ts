@@ -1,9 +1,24 @@
-import { createFunctionTool } from "@opperai/agents";
+import { defineTool } from "./backends/types.js";
 import { z } from "zod";
+import { findEndpoint } from "./spec-index.js";
 import type { SpecIndex } from "./spec-index.js";
+import { searchSpec } from "./search.js";
+import { generateExample, generateOperationExample } from "./examples.js";
+import type { Guide } from "./guides.js";
+import { detectPatterns } from "./patterns.js";
+import { generateSnippets, snippetOptionsFor, formatSamplesMarkdown, SNIPPET_LANGUAGES } from "./snippets.js";
+import type { SnippetLanguage } from "./snippets.js";
 
-export function createSpecTools(specIndex: SpecIndex) {
-  const listTagsTool = createFunctionTool(
+export interface SpecToolOptions {
+  guides?: Guide[];
+  /** Languages code samples are generated in by default */
+  languages?: SnippetLanguage[];
+}
+
+export function createSpecTools(specIndex: SpecIndex, options: SpecToolOptions = {}) {
+  const guides = options.guides ?? [];
+
+  const listTagsTool = defineTool(
     () =>
       specIndex.tags.map((t) => ({
         name: t.name,
@@ -16,7 +31,7 @@ export function createSpecTools(specIndex: SpecIndex) {
     }
   );
 
-  const readEndpointsTool = createFunctionTool(
+  const readEndpointsTool = defineTool(
     (input: { tag: string }) => {
       const endpoints = specIndex.pathsByTag.get(input.tag) ?? [];
       return endpoints;
@@ -29,7 +44,36 @@ export function createSpecTools(specIndex: SpecIndex) {
     }
   );
 
-  const readSchemaTool = createFunctionTool(
+  const readOperationTool = defineTool(
+    (input: { operationId?: string; method?: string; path?: string }) =>
+      findEndpoint(specIndex, input) ?? null,
+    {
+      name: "read_operation",
+      description:
+        "Get a single endpoint with full request/response details, by operationId or by method and path. Prefer this over read_endpoints when you only need one operation.",
+      schema: z.object({
+        operationId: z.string().optional(),
+        method: z.string().optional().describe("HTTP method, e.g. 'get'"),
+        path: z.string().optional().describe("Path template, e.g. '/pets/{petId}'"),
+      }),
+    }
+  );
+
+  const searchSpecTool = defineTool(
+    (input: { query: string; limit?: number }) =>
+      searchSpec(specIndex, input.query, input.limit),
+    {
+      name: "search_spec",
+      description:
+        "Ranked keyword search across operation summaries and descriptions, parameter names, schema property names and enum values. Returns compact hits with operationId, method and path, or schema name, to pass to read_operation or read_schema.",
+      schema: z.object({
+        query: z.string().describe("Keywords, e.g. 'cursor pagination'"),
+        limit: z.number().optional().describe("Maximum number of hits (default 10)"),
+      }),
+    }
+  );
+
+  const readSchemaTool = defineTool(
     (input: { name: string }) => specIndex.schemas.get(input.name) ?? null,
     {
       name: "read_schema",
@@ -39,7 +83,64 @@ export function createSpecTools(specIndex: SpecIndex) {
     }
   );
 
-  const listSchemasTool = createFunctionTool(
+  const generateExampleTool = defineTool(
+    (input: {
+      schema?: string;
+      operationId?: string;
+      method?: string;
+      path?: string;
+      part?: "request" | "response";
+      status?: string;
+    }) => {
+      if (input.schema) {
+        const schema = specIndex.schemas.get(input.schema);
+        return schema ? { example: generateExample(schema) } : null;
+      }
+      const endpoint = findEndpoint(specIndex, input);
+      if (!endpoint) return null;
+      const example = generateOperationExample(endpoint, input.part ?? "response", input.status);
+      return example === undefined ? null : { example };
+    },
+    {
+      name: "generate_example",
+      description:
+        "Generate a schema-valid example payload, either for a named schema or for an operation's request or response body. Use it for every JSON example instead of writing one by hand.",
+      schema: z.object({
+        schema: z.string().optional().describe("Schema name, e.g. 'Pet'"),
+        operationId: z.string().optional(),
+        method: z.string().optional().describe("HTTP method, e.g. 'post'"),
+        path: z.string().optional().describe("Path template, e.g. '/pets'"),
+        part: z.enum(["request", "response"]).optional().describe("Body to generate for (default 'response')"),
+        status: z.string().optional().describe("Response status code, defaults to the first 2xx"),
+      }),
+    }
+  );
+
+  const generateCodeSamplesTool = defineTool(
+    (input: { operationId?: string; method?: string; path?: string; languages?: SnippetLanguage[] }) => {
+      const endpoint = findEndpoint(specIndex, input);
+      if (!endpoint) return null;
+      const languages = input.languages ?? options.languages;
+      const samples = generateSnippets(endpoint, snippetOptionsFor(endpoint, specIndex, languages));
+      return { markdown: formatSamplesMarkdown(samples) };
+    },
+    {
+      name: "generate_code_samples",
+      description:
+        "Generate request code samples for an operation (curl, Python with requests or httpx, JavaScript, Go, TypeScript) with the server URL, auth and an example body filled in. Returns markdown to paste into the docs unchanged; the site renders it as language tabs.",
+      schema: z.object({
+        operationId: z.string().optional(),
+        method: z.string().optional().describe("HTTP method, e.g. 'post'"),
+        path: z.string().optional().describe("Path template, e.g. '/pets'"),
+        languages: z
+          .array(z.enum(SNIPPET_LANGUAGES as [SnippetLanguage, ...SnippetLanguage[]]))
+          .optional()
+          .describe("Languages to include, defaults to the configured languages"),
+      }),
+    }
+  );
+
+  const listSchemasTool = defineTool(
     () => Array.from(specIndex.schemas.keys()),
     {
       name: "list_schemas",
@@ -48,7 +149,7 @@ export function createSpecTools(specIndex: SpecIndex) {
     }
   );
 
-  const readSecurityTool = createFunctionTool(
+  const readSecurityTool = defineTool(
     () => specIndex.security,
     {
       name: "read_security",
@@ -57,7 +158,7 @@ export function createSpecTools(specIndex: SpecIndex) {
     }
   );
 
-  const readSpecInfoTool = createFunctionTool(
+  const readSpecInfoTool = defineTool(
     () => ({
       info: specIndex.info,
       servers: specIndex.servers,
@@ -70,20 +171,134 @@ export function createSpecTools(specIndex: SpecIndex) {
     }
   );
 
+  const listWebhooksTool = defineTool(
+    () => [
+      ...specIndex.webhooks.map((w) => ({
+        kind: "webhook",
+        name: w.name,
+        method: w.method,
+        summary: w.operation.summary ?? "",
+      })),
+      ...specIndex.callbacks.map((c) => ({
+        kind: "callback",
+        name: c.name,
+        method: c.method,
+        expression: c.expression,
+        registeredBy: `${c.parent.method.toUpperCase()} ${c.parent.path}`,
+        summary: c.operation.summary ?? "",
+      })),
+    ],
+    {
+      name: "list_webhooks",
+      description:
+        "List all top-level webhooks and per-operation callbacks with their methods and summaries",
+      schema: z.object({}),
+    }
+  );
+
+  const readWebhookTool = defineTool(
+    (input: { name: string }) =>
+      specIndex.webhooks.filter((w) => w.name === input.name),
+    {
+      name: "read_webhook",
+      description:
+        "Get a top-level webhook by name with full payload and response details",
+      schema: z.object({ name: z.string() }),
+    }
+  );
+
+  const readCallbacksTool = defineTool(
+    ({ tag }: { tag?: string }) =>
+      tag
+        ? specIndex.callbacks.filter((c) => c.parent.tags.includes(tag))
+        : specIndex.callbacks,
+    {
+      name: "read_callbacks",
+      description:
+        "Get callbacks declared by operations with full payload details and the operation that registers them. Optionally filter by the registering operation's tag.",
+      schema: z.object({ tag: z.string().optional() }),
+    }
+  );
+
+  const detectPatternsTool = defineTool(
+    () => {
+      const patterns = detectPatterns(specIndex);
+      const summarize = (matches: typeof patterns.pagination) =>
+        matches.map(({ location, signals }) => ({ location, signals }));
+      return {
+        pagination: summarize(patterns.pagination),
+        rateLimits: summarize(patterns.rateLimits),
+        versioning: summarize(patterns.versioning),
+      };
+    },
+    {
+      name: "detect_patterns",
+      description:
+        "Find cross-cutting conventions in the spec: pagination (cursor/page/limit parameters, next/has_more fields, Link headers), rate limits (X-RateLimit-* and Retry-After headers, 429 responses) and versioning (/v1 URLs, version headers or parameters). Each list is empty when the spec doesn't show the pattern.",
+      schema: z.object({}),
+    }
+  );
+
+  const listGuidesTool = defineTool(
+    () =>
+      guides.map((g) => ({
+        id: g.id,
+        title: g.title,
+        outputPath: g.outputPath,
+        group: g.group ?? "",
+        description: g.description ?? "",
+      })),
+    {
+      name: "list_guides",
+      description:
+        "List hand-written guides (tutorials, migration guides) that are published next to the generated docs, with the outputPath to link to",
+      schema: z.object({}),
+    }
+  );
+
+  const readGuideTool = defineTool(
+    (input: { id: string }) => guides.find((g) => g.id === input.id)?.content ?? null,
+    {
+      name: "read_guide",
+      description: "Get the markdown content of a hand-written guide by id",
+      schema: z.object({ id: z.string() }),
+    }
+  );
+
   return {
     listTagsTool,
     readEndpointsTool,
+    readOperationTool,
+    searchSpecTool,
     readSchemaTool,
+    generateExampleTool,
+    generateCodeSamplesTool,
     listSchemasTool,
     readSecurityTool,
     readSpecInfoTool,
+    listWebhooksTool,
+    readWebhookTool,
+    readCallbacksTool,
+    detectPatternsTool,
+    listGuidesTool,
+    readGuideTool,
     all: [
       listTagsTool,
       readEndpointsTool,
+      readOperationTool,
+      searchSpecTool,
       readSchemaTool,
+      generateExampleTool,
+      generateCodeSamplesTool,
       listSchemasTool,
       readSecurityTool,
       readSpecInfoTool,
+      listWebhooksTool,
+      readWebhookTool,
+      readCallbacksTool,
+      detectPatternsTool,
+      // Only offer guide tools when there are guides to find
+      ...(guides.length > 0 ? [listGuidesTool, readGuideTool] : []),
     ],
   };
 }
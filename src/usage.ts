@@ -0,0 +1,113 @@
+import type { LlmBackend, LlmUsage } from "./backends/types.js";
+import { emptyUsage, failedUsage } from "./backends/types.js";
+
+/** USD per million tokens, for backends that don't report cost */
+export interface Pricing {
+  input: number;
+  output: number;
+}
+
+export interface Budget {
+  /** Stop starting new sections once this many USD are spent */
+  maxCost?: number;
+  /** Stop starting new sections once this many tokens are used */
+  maxTokens?: number;
+}
+
+/** Running usage of one `generate` run, checked against its budget */
+export interface UsageMeter {
+  readonly total: LlmUsage;
+  add(usage: LlmUsage): void;
+  /** Why the budget is spent, or undefined while some is left */
+  exceeded(): string | undefined;
+}
+
+export function createUsageMeter(budget: Budget = {}): UsageMeter {
+  let total = emptyUsage();
+
+  return {
+    get total() {
+      return total;
+    },
+    add(usage) {
+      total = addUsage(total, usage);
+    },
+    exceeded() {
+      if (budget.maxTokens !== undefined && total.totalTokens >= budget.maxTokens) {
+        return `${formatTokens(total.totalTokens)} tokens used of the ${formatTokens(budget.maxTokens)} token budget`;
+      }
+      if (budget.maxCost !== undefined && (total.cost ?? 0) >= budget.maxCost) {
+        return `${formatCost(total.cost ?? 0)} spent of the ${formatCost(budget.maxCost)} budget`;
+      }
+      return undefined;
+    },
+  };
+}
+
+/** Sum two usages. The cost is unknown only when both are. */
+export function addUsage(a: LlmUsage, b: LlmUsage): LlmUsage {
+  const cost = a.cost === undefined && b.cost === undefined ? undefined : (a.cost ?? 0) + (b.cost ?? 0);
+  return {
+    requests: a.requests + b.requests,
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    ...(cost !== undefined && { cost }),
+  };
+}
+
+/** Fill in the cost from `pricing` when the backend didn't report one */
+export function priceUsage(usage: LlmUsage, pricing?: Pricing): LlmUsage {
+  if (usage.cost !== undefined || !pricing) return usage;
+  return {
+    ...usage,
+    cost: (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000,
+  };
+}
+
+/**
+ * Wrap a backend so every agent run is priced and counted on the meter as
+ * soon as it finishes, including the planner's and reviewer's, and runs
+ * that fail. Wrap it inside the retries so each attempt is counted.
+ */
+export function withUsageMeter(backend: LlmBackend, meter: UsageMeter, pricing?: Pricing): LlmBackend {
+  return {
+    name: backend.name,
+    createAgent(definition) {
+      const agent = backend.createAgent(definition);
+      return {
+        async run(input) {
+          let run;
+          try {
+            run = await agent.run(input);
+          } catch (err) {
+            const spent = failedUsage(err);
+            if (spent) meter.add(priceUsage(spent, pricing));
+            throw err;
+          }
+          const { result, usage } = run;
+          const priced = priceUsage(usage, pricing);
+          meter.add(priced);
+          return { result, usage: priced };
+        },
+      };
+    },
+  };
+}
+
+/** e.g. "12 requests, 84,210 tokens (70,000 in, 14,210 out), $0.4213" */
+export function formatUsage(usage: LlmUsage): string {
+  const cost = usage.cost !== undefined ? `, ${formatCost(usage.cost)}` : "";
+  return (
+    `${usage.requests} request(s), ${formatTokens(usage.totalTokens)} tokens ` +
+    `(${formatTokens(usage.inputTokens)} in, ${formatTokens(usage.outputTokens)} out)${cost}`
+  );
+}
+
+function formatTokens(tokens: number): string {
+  return Math.round(tokens).toLocaleString("en-US");
+}
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(4)}`;
+}
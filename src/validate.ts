@@ -0,0 +1,512 @@
+import type { OpenAPIV3 } from "openapi-types";
+import { listEndpoints, securitySchemeFor } from "./spec-index.js";
+import type { EndpointInfo, SpecIndex } from "./spec-index.js";
+
+export interface ExampleIssue {
+  /** 1-based index of the fenced code block within the section */
+  block: number;
+  /** What the block was checked against, e.g. "POST /pets request body" */
+  location: string;
+  message: string;
+}
+
+type Schema = OpenAPIV3.SchemaObject & { const?: unknown };
+type Direction = "request" | "response";
+
+interface CodeBlock {
+  lang: string;
+  code: string;
+  /** Prose between the previous block and this one */
+  leadIn: string;
+}
+
+const OPERATION_REF = /\b(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+`?(\/[^\s`*)\]]*)/g;
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  "date-time": /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  email: /^[^\s@]+@[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  uri: /^[a-z][a-z0-9+.-]*:/i,
+};
+
+/**
+ * Check the fenced JSON and curl blocks in a generated section against the
+ * spec. curl commands are matched to an operation by method and URL and their
+ * query parameters and `-d` body are validated. JSON blocks are matched to the
+ * most recently mentioned operation ("POST /pets" in prose, or a preceding
+ * curl command) and validated as its request or response body, depending on
+ * the text that introduces them. Blocks that can't be matched are skipped.
+ */
+export function validateExamples(markdown: string, specIndex: SpecIndex): ExampleIssue[] {
+  const endpoints = listEndpoints(specIndex);
+  const issues: ExampleIssue[] = [];
+  let current: EndpointInfo | undefined;
+
+  for (const [i, block] of extractCodeBlocks(markdown).entries()) {
+    const blockNumber = i + 1;
+    current = lastOperationRef(block.leadIn, endpoints) ?? current;
+
+    if (block.lang === "bash" || block.lang === "sh" || block.lang === "shell" || /^\s*curl\s/.test(block.code)) {
+      const curl = parseCurl(block.code);
+      if (!curl) continue;
+      const endpoint = matchEndpoint(endpoints, curl.method, curl.path);
+      if (!endpoint) continue;
+      current = endpoint;
+      const label = `${endpoint.method.toUpperCase()} ${endpoint.path}`;
+
+      const credentials = credentialQueryParams(securitySchemeFor(endpoint, specIndex));
+      const query = curl.query.filter(([name]) => !credentials.includes(name));
+      for (const message of checkQuery(endpoint, query)) {
+        issues.push({ block: blockNumber, location: `${label} query`, message });
+      }
+      if (curl.body !== undefined) {
+        const schema = bodySchema(endpoint, "request");
+        let body: unknown;
+        try {
+          body = JSON.parse(curl.body);
+        } catch {
+          continue; // Form data or a shell variable, not JSON
+        }
+        if (schema) {
+          for (const message of validateValue(body, schema, "request")) {
+            issues.push({ block: blockNumber, location: `${label} request body`, message });
+          }
+        }
+      }
+      continue;
+    }
+
+    if (block.lang !== "json" || !current) continue;
+
+    const target = classifyJsonBlock(block.leadIn);
+    if (!target) continue;
+    const label = `${current.method.toUpperCase()} ${current.path}`;
+    const location = target.direction === "request"
+      ? `${label} request body`
+      : `${label} response ${target.status ?? firstSuccessStatus(current) ?? ""}`.trimEnd();
+
+    let value: unknown;
+    try {
+      value = JSON.parse(block.code);
+    } catch (err) {
+      issues.push({ block: blockNumber, location, message: `Invalid JSON: ${(err as Error).message}` });
+      continue;
+    }
+
+    const schema = bodySchema(current, target.direction, target.status);
+    if (!schema) continue;
+    for (const message of validateValue(value, schema, target.direction)) {
+      issues.push({ block: blockNumber, location, message });
+    }
+  }
+
+  return issues;
+}
+
+/** Format issues as one line each, for logs and writer feedback. */
+export function formatExampleIssues(issues: ExampleIssue[]): string[] {
+  return issues.map((issue) => `Code block ${issue.block} (${issue.location}): ${issue.message}`);
+}
+
+/**
+ * Validate a value against a dereferenced schema. Returns one message per
+ * violation, each prefixed with a JSON path like `$.items[0].status`. A
+ * value must match exactly one `oneOf` variant, unless the schema has a
+ * discriminator, and at least one `anyOf` variant.
+ */
+export function validateValue(
+  value: unknown,
+  schema: OpenAPIV3.SchemaObject,
+  direction: Direction,
+  path = "$"
+): string[] {
+  const s = schema as Schema;
+  const errors: string[] = [];
+
+  if (value === null) {
+    return allowsNull(s) ? [] : [`${path}: null is not allowed`];
+  }
+
+  if (s.const !== undefined && JSON.stringify(s.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: expected ${JSON.stringify(s.const)}`);
+  }
+  if (s.enum && !s.enum.some((v) => JSON.stringify(v) === JSON.stringify(value))) {
+    errors.push(`${path}: ${JSON.stringify(value)} is not one of ${s.enum.map((v) => JSON.stringify(v)).join(", ")}`);
+  }
+
+  for (const part of s.allOf ?? []) {
+    errors.push(...validateValue(value, part as Schema, direction, path));
+  }
+  for (const keyword of ["oneOf", "anyOf"] as const) {
+    const variants = s[keyword] ?? [];
+    if (variants.length === 0) continue;
+    const matching = variants.filter((v) => validateValue(value, v as Schema, direction, path).length === 0).length;
+    if (matching === 0) {
+      errors.push(`${path}: does not match any of the ${variants.length} allowed variants`);
+    } else if (keyword === "oneOf" && matching > 1 && !s.discriminator) {
+      // With a discriminator, its property picks the variant even when others would fit
+      errors.push(`${path}: matches ${matching} oneOf variants, expected exactly one`);
+    }
+  }
+
+  const types = schemaTypes(s).filter((t) => t !== "null");
+  if (types.length > 0 && !types.some((t) => hasType(value, t))) {
+    return [...errors, `${path}: expected ${types.join(" or ")}, got ${describeType(value)}`];
+  }
+
+  if (typeof value === "string") {
+    if (s.minLength !== undefined && value.length < s.minLength) {
+      errors.push(`${path}: shorter than minLength ${s.minLength}`);
+    }
+    if (s.maxLength !== undefined && value.length > s.maxLength) {
+      errors.push(`${path}: longer than maxLength ${s.maxLength}`);
+    }
+    const pattern = s.pattern ? safeRegExp(s.pattern) : undefined;
+    if (pattern && !pattern.test(value)) {
+      errors.push(`${path}: does not match pattern ${s.pattern}`);
+    }
+    if (s.format && FORMAT_PATTERNS[s.format] && !FORMAT_PATTERNS[s.format].test(value)) {
+      errors.push(`${path}: ${JSON.stringify(value)} is not a valid ${s.format}`);
+    }
+  } else if (typeof value === "number") {
+    errors.push(...checkRange(value, s, path));
+  } else if (Array.isArray(value)) {
+    if (s.minItems !== undefined && value.length < s.minItems) {
+      errors.push(`${path}: fewer than minItems ${s.minItems}`);
+    }
+    if (s.maxItems !== undefined && value.length > s.maxItems) {
+      errors.push(`${path}: more than maxItems ${s.maxItems}`);
+    }
+    const items = (s as OpenAPIV3.ArraySchemaObject).items as Schema | undefined;
+    if (items) {
+      value.forEach((item, i) => errors.push(...validateValue(item, items, direction, `${path}[${i}]`)));
+    }
+  } else if (typeof value === "object") {
+    errors.push(...checkObject(value as Record<string, unknown>, s, direction, path));
+  }
+
+  return errors;
+}
+
+function checkObject(
+  value: Record<string, unknown>,
+  schema: Schema,
+  direction: Direction,
+  path: string
+): string[] {
+  const errors: string[] = [];
+  const properties = (schema.properties ?? {}) as Record<string, Schema>;
+
+  for (const name of schema.required ?? []) {
+    const prop = properties[name];
+    // readOnly fields aren't sent in requests, writeOnly fields aren't returned
+    if (direction === "request" && prop?.readOnly) continue;
+    if (direction === "response" && prop?.writeOnly) continue;
+    if (!(name in value)) errors.push(`${path}: missing required property '${name}'`);
+  }
+
+  for (const [name, propValue] of Object.entries(value)) {
+    const prop = properties[name];
+    if (prop) {
+      errors.push(...validateValue(propValue, prop, direction, `${path}.${name}`));
+    } else if (schema.additionalProperties === false) {
+      errors.push(`${path}: unknown property '${name}'`);
+    } else if (typeof schema.additionalProperties === "object") {
+      errors.push(...validateValue(propValue, schema.additionalProperties as Schema, direction, `${path}.${name}`));
+    }
+  }
+
+  return errors;
+}
+
+function checkRange(value: number, schema: Schema, path: string): string[] {
+  const errors: string[] = [];
+  // OpenAPI 3.0 uses boolean exclusive flags, 3.1 uses numeric bounds
+  const exclusiveMin = schema.exclusiveMinimum as boolean | number | undefined;
+  const exclusiveMax = schema.exclusiveMaximum as boolean | number | undefined;
+
+  if (schema.minimum !== undefined) {
+    const ok = exclusiveMin === true ? value > schema.minimum : value >= schema.minimum;
+    if (!ok) errors.push(`${path}: ${value} is below minimum ${schema.minimum}`);
+  }
+  if (typeof exclusiveMin === "number" && value <= exclusiveMin) {
+    errors.push(`${path}: ${value} must be greater than ${exclusiveMin}`);
+  }
+  if (schema.maximum !== undefined) {
+    const ok = exclusiveMax === true ? value < schema.maximum : value <= schema.maximum;
+    if (!ok) errors.push(`${path}: ${value} is above maximum ${schema.maximum}`);
+  }
+  if (typeof exclusiveMax === "number" && value >= exclusiveMax) {
+    errors.push(`${path}: ${value} must be less than ${exclusiveMax}`);
+  }
+  if (schema.multipleOf && Math.abs(value / schema.multipleOf - Math.round(value / schema.multipleOf)) > 1e-9) {
+    errors.push(`${path}: ${value} is not a multiple of ${schema.multipleOf}`);
+  }
+  return errors;
+}
+
+/**
+ * Query parameters that carry the auth scheme's credential rather than an
+ * operation parameter. Header credentials (-u, Authorization, Cookie or an
+ * apiKey header) aren't checked at all, so need no allowance.
+ */
+function credentialQueryParams(scheme: OpenAPIV3.SecuritySchemeObject | undefined): string[] {
+  return scheme?.type === "apiKey" && scheme.in === "query" ? [scheme.name] : [];
+}
+
+function checkQuery(endpoint: EndpointInfo, query: [string, string][]): string[] {
+  const params = ((endpoint.operation.parameters ?? []) as OpenAPIV3.ParameterObject[]).filter(
+    (p) => p.in === "query"
+  );
+  const errors: string[] = [];
+  const given = new Set(query.map(([name]) => name));
+
+  for (const param of params) {
+    if (param.required && !given.has(param.name)) {
+      errors.push(`missing required query parameter '${param.name}'`);
+    }
+  }
+
+  for (const [name, raw] of query) {
+    const param = params.find((p) => p.name === name);
+    if (!param) {
+      errors.push(`unknown query parameter '${name}'`);
+      continue;
+    }
+    // Placeholders like {limit}, <limit> or $LIMIT aren't real values
+    if (!param.schema || /[{<$]/.test(raw)) continue;
+    const schema = param.schema as Schema;
+    const itemSchema = (schema as OpenAPIV3.ArraySchemaObject).items as Schema | undefined;
+    const values = schemaTypes(schema).includes("array") && itemSchema
+      ? raw.split(",").map((v) => [v, itemSchema] as const)
+      : [[raw, schema] as const];
+    for (const [v, s] of values) {
+      errors.push(...validateValue(coerceQueryValue(v, s), s, "request", name));
+    }
+  }
+
+  return errors;
+}
+
+function coerceQueryValue(raw: string, schema: Schema): unknown {
+  const types = schemaTypes(schema);
+  if ((types.includes("integer") || types.includes("number")) && raw.trim() !== "" && !isNaN(Number(raw))) {
+    return Number(raw);
+  }
+  if (types.includes("boolean") && (raw === "true" || raw === "false")) {
+    return raw === "true";
+  }
+  return raw;
+}
+
+function extractCodeBlocks(markdown: string): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+  const fence = /^```([\w-]*)[^\n]*\n([\s\S]*?)^```[ \t]*$/gm;
+  let lastEnd = 0;
+  let match: RegExpExecArray | null;
+  while ((match = fence.exec(markdown))) {
+    blocks.push({
+      lang: match[1].toLowerCase(),
+      code: match[2],
+      leadIn: markdown.slice(lastEnd, match.index),
+    });
+    lastEnd = match.index + match[0].length;
+  }
+  return blocks;
+}
+
+/** The last "METHOD /path" in a piece of prose that names a real operation. */
+function lastOperationRef(text: string, endpoints: EndpointInfo[]): EndpointInfo | undefined {
+  let found: EndpointInfo | undefined;
+  for (const match of text.matchAll(OPERATION_REF)) {
+    found = matchEndpoint(endpoints, match[1], match[2]) ?? found;
+  }
+  return found;
+}
+
+/**
+ * Decide whether a JSON block is a request or response example from the
+ * last lines of prose before it. Returns undefined when the prose doesn't say.
+ */
+function classifyJsonBlock(leadIn: string): { direction: Direction; status?: string } | undefined {
+  const tail = leadIn.trim().split("\n").slice(-3).join("\n");
+  const status = tail.match(/\b([1-5]\d\d)\b/)?.[1];
+  if (/response/i.test(tail) || status) return { direction: "response", status };
+  if (/request|payload|body/i.test(tail)) return { direction: "request" };
+  return undefined;
+}
+
+function matchEndpoint(
+  endpoints: EndpointInfo[],
+  method: string,
+  path: string
+): EndpointInfo | undefined {
+  const candidates = endpoints.filter((e) => e.method === method.toLowerCase());
+  const exact = candidates.find((e) => e.path === path);
+  if (exact) return exact;
+
+  // Concrete paths may carry a server base path, e.g. /v1/pets/123
+  const matches = candidates.filter((e) => templateRegExp(e.path).test(path));
+  return matches.sort((a, b) => literalLength(b.path) - literalLength(a.path))[0];
+}
+
+function templateRegExp(template: string): RegExp {
+  const pattern = template
+    .split(/(\{[^}]+\})/)
+    .map((part) => (part.startsWith("{") ? "[^/]+" : part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`(^|/)${pattern.replace(/^\//, "")}$`);
+}
+
+function literalLength(template: string): number {
+  return template.replace(/\{[^}]+\}/g, "").length;
+}
+
+interface CurlCommand {
+  method: string;
+  path: string;
+  query: [string, string][];
+  body?: string;
+}
+
+function parseCurl(code: string): CurlCommand | undefined {
+  const command = code.replace(/\\\r?\n/g, " ").split("\n").find((line) => /^\s*curl\s/.test(line));
+  if (!command) return undefined;
+
+  const args = shellSplit(command.trim()).slice(1);
+  let method: string | undefined;
+  let url: string | undefined;
+  let body: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "-X" || arg === "--request") {
+      method = args[++i];
+    } else if (["-d", "--data", "--data-raw", "--data-binary", "--json"].includes(arg)) {
+      body = args[++i];
+    } else if (["-H", "--header", "-u", "--user", "-o", "--output", "-F", "--form"].includes(arg)) {
+      i++;
+    } else if (!arg.startsWith("-") && !url) {
+      url = arg;
+    }
+  }
+  if (!url) return undefined;
+
+  const withoutOrigin = url.replace(/^[a-z]+:\/\/[^/]*/i, "").replace(/^\$\{?\w+\}?/, "");
+  const [pathPart, queryPart = ""] = withoutOrigin.split("?");
+  const query = queryPart
+    .split("&")
+    .filter(Boolean)
+    .map((pair) => {
+      const [name, value = ""] = pair.split("=");
+      return [decodeComponent(name), decodeComponent(value)] as [string, string];
+    });
+
+  return {
+    method: (method ?? (body !== undefined ? "POST" : "GET")).toLowerCase(),
+    path: pathPart || "/",
+    query,
+    body,
+  };
+}
+
+/** Split a shell command into words, honoring single and double quotes. */
+function shellSplit(command: string): string[] {
+  const words: string[] = [];
+  let word = "";
+  let quote: string | undefined;
+  let inWord = false;
+
+  for (const ch of command) {
+    if (quote) {
+      if (ch === quote) quote = undefined;
+      else word += ch;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+      inWord = true;
+    } else if (/\s/.test(ch)) {
+      if (inWord) words.push(word);
+      word = "";
+      inWord = false;
+    } else {
+      word += ch;
+      inWord = true;
+    }
+  }
+  if (inWord) words.push(word);
+  return words;
+}
+
+function bodySchema(
+  endpoint: EndpointInfo,
+  direction: Direction,
+  status?: string
+): Schema | undefined {
+  let content: Record<string, OpenAPIV3.MediaTypeObject> | undefined;
+  if (direction === "request") {
+    content = (endpoint.operation.requestBody as OpenAPIV3.RequestBodyObject | undefined)?.content;
+  } else {
+    const code = status ?? firstSuccessStatus(endpoint);
+    const responses = (endpoint.operation.responses ?? {}) as Record<string, OpenAPIV3.ResponseObject>;
+    content = code ? (responses[code] ?? responses.default)?.content : undefined;
+  }
+  const media = Object.entries(content ?? {}).find(
+    ([type]) => type === "application/json" || type.endsWith("+json")
+  )?.[1];
+  return media?.schema as Schema | undefined;
+}
+
+function firstSuccessStatus(endpoint: EndpointInfo): string | undefined {
+  return Object.keys(endpoint.operation.responses ?? {}).find((code) => code.startsWith("2"));
+}
+
+function schemaTypes(schema: Schema): string[] {
+  const type = schema.type as string | string[] | undefined;
+  if (Array.isArray(type)) return type;
+  return type ? [type] : [];
+}
+
+function allowsNull(schema: Schema): boolean {
+  if (schema.nullable || schemaTypes(schema).includes("null")) return true;
+  if (schema.enum?.includes(null)) return true;
+  const variants = schema.oneOf ?? schema.anyOf;
+  return !!variants?.some((v) => allowsNull(v as Schema));
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "number":
+      return typeof value === "number";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function safeRegExp(pattern: string): RegExp | undefined {
+  try {
+    return new RegExp(pattern, "u");
+  } catch {
+    return undefined;
+  }
+}
+
+function decodeComponent(text: string): string {
+  try {
+    return decodeURIComponent(text.replace(/\+/g, " "));
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { buildSpecIndex } from "../src/spec-index.js";
+import { filterSpecIndex, isVisibleTo } from "../src/audience.js";
+import { resolve } from "path";
+
+const FIXTURE = resolve(import.meta.dirname, "fixtures/audiences.yaml");
+
+describe("isVisibleTo", () => {
+  it("treats objects without extensions as public", () => {
+    expect(isVisibleTo({ type: "string" }, "public")).toBe(true);
+  });
+
+  it("hides x-internal objects from everyone but internal", () => {
+    expect(isVisibleTo({ "x-internal": true }, "public")).toBe(false);
+    expect(isVisibleTo({ "x-internal": true }, "partner")).toBe(false);
+    expect(isVisibleTo({ "x-internal": true }, "internal")).toBe(true);
+  });
+
+  it("shows x-audience objects only to the listed audiences", () => {
+    expect(isVisibleTo({ "x-audience": ["partner"] }, "partner")).toBe(true);
+    expect(isVisibleTo({ "x-audience": ["partner"] }, "public")).toBe(false);
+    expect(isVisibleTo({ "x-audience": "partner" }, "partner")).toBe(true);
+  });
+});
+
+describe("filterSpecIndex", () => {
+  it("removes internal operations and tags left without endpoints", async () => {
+    const index = filterSpecIndex(await buildSpecIndex(FIXTURE), "public");
+    expect(Array.from(index.pathsByTag.keys())).toEqual(["accounts"]);
+    expect(index.tags.map((t) => t.name)).toEqual(["accounts"]);
+  });
+
+  it("keeps audience-specific operations for that audience", async () => {
+    const index = filterSpecIndex(await buildSpecIndex(FIXTURE), "partner");
+    expect(Array.from(index.pathsByTag.keys())).toEqual(["accounts", "partners"]);
+    expect(index.tags.map((t) => t.name)).toEqual(["accounts", "partners"]);
+  });
+
+  it("removes internal parameters, servers and schemas", async () => {
+    const index = filterSpecIndex(await buildSpecIndex(FIXTURE), "public");
+    const listAccounts = index.pathsByTag.get("accounts")![0];
+    expect(listAccounts.operation.parameters).toEqual([]);
+    expect(index.servers.map((s) => s.url)).toEqual(["https://api.example.com"]);
+    expect(Array.from(index.schemas.keys())).toEqual(["Account"]);
+  });
+
+  it("removes schemas used only by operations the audience can't see", async () => {
+    const original = await buildSpecIndex(FIXTURE);
+    expect(Array.from(filterSpecIndex(original, "public").schemas.keys())).toEqual(["Account"]);
+    expect(Array.from(filterSpecIndex(original, "partner").schemas.keys())).toEqual(["Account", "Settlement"]);
+    expect(Array.from(filterSpecIndex(original, "internal").schemas.keys())).toEqual([
+      "Account",
+      "ReindexJob",
+      "Settlement",
+      "AuditEntry",
+    ]);
+  });
+
+  it("removes hidden properties everywhere and drops them from required", async () => {
+    const index = filterSpecIndex(await buildSpecIndex(FIXTURE), "public");
+    const account = index.schemas.get("Account")!;
+    expect(Object.keys(account.properties!)).toEqual(["id"]);
+    expect(account.required).toEqual(["id"]);
+
+    const listAccounts = index.pathsByTag.get("accounts")![0];
+    const items = (listAccounts.operation.responses["200"] as any).content["application/json"].schema.items;
+    expect(Object.keys(items.properties)).toEqual(["id"]);
+  });
+
+  it("does not serialize hidden content", async () => {
+    const index = filterSpecIndex(await buildSpecIndex(FIXTURE), "public");
+    const serialized = JSON.stringify(index, (_key, value) =>
+      value instanceof Map ? Array.from(value.entries()) : value
+    );
+    expect(serialized).not.toContain("riskScore");
+    expect(serialized).not.toContain("partnerRef");
+    expect(serialized).not.toContain("reindex");
+  });
+
+  it("leaves the original index untouched", async () => {
+    const original = await buildSpecIndex(FIXTURE);
+    filterSpecIndex(original, "public");
+    expect(original.pathsByTag.get("admin")).toHaveLength(1);
+    expect(Object.keys(original.schemas.get("Account")!.properties!)).toContain("riskScore");
+  });
+
+  it("keeps everything for the internal audience", async () => {
+    const original = await buildSpecIndex(FIXTURE);
+    const index = filterSpecIndex(original, "internal");
+    expect(Array.from(index.pathsByTag.keys())).toEqual(Array.from(original.pathsByTag.keys()));
+    expect(index.schemas.size).toBe(original.schemas.size);
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { z } from "zod";
+import { readFile, rm } from "fs/promises";
+import { resolve, join } from "path";
+import { tmpdir } from "os";
+import { createOpenAICompatibleBackend } from "../src/backends/openai.js";
+import { createScriptedBackend } from "../src/backends/scripted.js";
+import { withRetries, isTransientError } from "../src/backends/retry.js";
+import { defineTool } from "../src/backends/types.js";
+import type { AgentDefinition } from "../src/backends/types.js";
+import { generate } from "../src/generate.js";
+import { readManifest } from "../src/manifest.js";
+import type { WriterInput } from "../src/agents/writer.js";
+import { petDocs } from "./fixtures/pet-docs.js";
+
+const FIXTURE = resolve(import.meta.dirname, "fixtures/petstore.yaml");
+const OUTPUT_DIR = resolve(join(tmpdir(), "opper-docs-backends-test"));
+
+afterAll(async () => {
+  await rm(OUTPUT_DIR, { recursive: true, force: true });
+});
+
+const lookupTool = defineTool((input: { name: string }) => ({ found: input.name === "Pet" }), {
+  name: "lookup_schema",
+  description: "Look up a schema",
+  schema: z.object({ name: z.string() }),
+});
+
+const definition: AgentDefinition<{ answer: string }> = {
+  name: "test-agent",
+  instructions: "Answer the question.",
+  tools: [lookupTool],
+  outputSchema: z.object({ answer: z.string() }),
+  model: "local-model",
+  maxIterations: 4,
+};
+
+/** A fetch that replays chat completion responses in order and records the request bodies */
+function replayFetch(responses: object[]) {
+  const requests: any[] = [];
+  const fetch = async (_url: string | URL | Request, init?: RequestInit) => {
+    requests.push(JSON.parse(init!.body as string));
+    const body = responses[requests.length - 1];
+    return new Response(JSON.stringify(body), { status: 200 });
+  };
+  return { fetch: fetch as typeof globalThis.fetch, requests };
+}
+
+function reply(message: object, tokens = 10) {
+  return {
+    choices: [{ message: { role: "assistant", content: null, ...message } }],
+    usage: { prompt_tokens: tokens, completion_tokens: 1, total_tokens: tokens + 1 },
+  };
+}
+
+describe("createOpenAICompatibleBackend", () => {
+  it("runs tool calls, then parses and validates the final JSON", async () => {
+    const { fetch, requests } = replayFetch([
+      reply({
+        tool_calls: [{ id: "call_1", type: "function", function: { name: "lookup_schema", arguments: '{"name":"Pet"}' } }],
+      }),
+      reply({ content: '```json\n{"answer": "yes"}\n```' }),
+    ]);
+    const backend = createOpenAICompatibleBackend({ baseUrl: "http://localhost:8000/v1/", fetch });
+
+    const { result, usage } = await backend.createAgent<string, { answer: string }>(definition).run("Is there a Pet?");
+
+    expect(result).toEqual({ answer: "yes" });
+    expect(usage).toEqual({ requests: 2, inputTokens: 20, outputTokens: 2, totalTokens: 22 });
+    expect(requests[0].model).toBe("local-model");
+    expect(requests[0].tools[0].function.name).toBe("lookup_schema");
+    expect(requests[0].tools[0].function.parameters.properties.name.type).toBe("string");
+    expect(requests[1].messages.at(-1)).toEqual({ role: "tool", tool_call_id: "call_1", content: '{"found":true}' });
+  });
+
+  it("sends invalid answers back with the validation error", async () => {
+    const { fetch, requests } = replayFetch([
+      reply({ content: '{"answer": 42}' }),
+      reply({ content: '{"answer": "fixed"}' }),
+    ]);
+    const backend = createOpenAICompatibleBackend({ baseUrl: "http://localhost:8000/v1", fetch });
+
+    const { result } = await backend.createAgent<string, { answer: string }>(definition).run("Question");
+
+    expect(result).toEqual({ answer: "fixed" });
+    expect(requests[1].messages.at(-1).role).toBe("user");
+    expect(requests[1].messages.at(-1).content).toContain("not valid");
+  });
+
+  it("returns tool errors to the model instead of failing the run", async () => {
+    const { fetch, requests } = replayFetch([
+      reply({
+        tool_calls: [{ id: "call_1", type: "function", function: { name: "lookup_schema", arguments: "{}" } }],
+      }),
+      reply({ content: '{"answer": "no"}' }),
+    ]);
+    const backend = createOpenAICompatibleBackend({ baseUrl: "http://localhost:8000/v1", fetch });
+
+    await backend.createAgent<string, { answer: string }>(definition).run("Question");
+
+    expect(requests[1].messages.at(-1).content).toMatch(/^Error: invalid arguments/);
+  });
+
+  it("reports what a run spent when it finds no valid answer", async () => {
+    const { fetch } = replayFetch(Array.from({ length: 4 }, () => reply({ content: "not json" })));
+    const backend = createOpenAICompatibleBackend({ baseUrl: "http://localhost:8000/v1", fetch });
+
+    const err = await backend.createAgent(definition).run("Question").catch((e: unknown) => e);
+
+    expect(err).toMatchObject({
+      message: "test-agent: no valid answer after 4 iterations",
+      usage: { requests: 4, inputTokens: 40, outputTokens: 4, totalTokens: 44 },
+    });
+  });
+
+  it("throws on HTTP errors", async () => {
+    const fetch = (async () => new Response("model not found", { status: 404 })) as unknown as typeof globalThis.fetch;
+    const backend = createOpenAICompatibleBackend({ baseUrl: "http://localhost:8000/v1", fetch });
+
+    await expect(backend.createAgent(definition).run("Question")).rejects.toThrow(/404.*model not found/);
+  });
+});
+
+describe("createScriptedBackend", () => {
+  it("records calls and checks answers against the output schema", async () => {
+    const backend = createScriptedBackend(({ input }) => ({ answer: input === "ok" ? "fine" : 1 }));
+    const agent = backend.createAgent<string, { answer: string }>(definition);
+
+    expect((await agent.run("ok")).result).toEqual({ answer: "fine" });
+    await expect(agent.run("bad")).rejects.toThrow(/doesn't match its schema/);
+    expect(backend.calls.map((c) => [c.agent, c.input])).toEqual([
+      ["test-agent", "ok"],
+      ["test-agent", "bad"],
+    ]);
+  });
+
+  it("drives a full AI-mode generate run", async () => {
+    const backend = createScriptedBackend(petDocs);
+
+    await generate({ spec: FIXTURE, output: OUTPUT_DIR, mode: "ai" }, { backend });
+
+    expect(backend.calls.map((c) => c.agent).sort()).toEqual(["doc-planner", "doc-writer", "doc-writer"]);
+    expect(await readFile(join(OUTPUT_DIR, "index.md"), "utf-8")).toContain("Written by the script.");
+    const manifest = await readManifest(OUTPUT_DIR);
+    expect(Object.keys(manifest!.sections).sort()).toEqual(["overview", "tag:pets"]);
+  });
+});
+
+describe("withRetries", () => {
+  function flaky(errors: unknown[]) {
+    return createScriptedBackend(() => {
+      const error = errors.shift();
+      if (error) throw error;
+      return { answer: "ok" };
+    });
+  }
+
+  it("retries transient failures with backoff until one succeeds", async () => {
+    const inner = flaky([Object.assign(new Error("Too Many Requests"), { status: 429 }), new Error("fetch failed")]);
+    const retried: number[] = [];
+    const backend = withRetries(inner, { retries: 2, baseDelayMs: 1, onRetry: (_err, attempt) => retried.push(attempt) });
+
+    const { result } = await backend.createAgent(definition).run("Question");
+
+    expect(result).toEqual({ answer: "ok" });
+    expect(retried).toEqual([1, 2]);
+    expect(inner.calls).toHaveLength(3);
+  });
+
+  it("gives up after the configured retries", async () => {
+    const inner = flaky([new Error("timed out"), new Error("timed out"), new Error("timed out")]);
+    const backend = withRetries(inner, { retries: 1, baseDelayMs: 1 });
+
+    await expect(backend.createAgent(definition).run("Question")).rejects.toThrow("timed out");
+    expect(inner.calls).toHaveLength(2);
+  });
+
+  it("doesn't retry errors that won't pass", async () => {
+    const inner = flaky([Object.assign(new Error("Unauthorized"), { status: 401 })]);
+    const backend = withRetries(inner, { retries: 3, baseDelayMs: 1 });
+
+    await expect(backend.createAgent(definition).run("Question")).rejects.toThrow("Unauthorized");
+    expect(inner.calls).toHaveLength(1);
+  });
+
+  it("classifies errors", () => {
+    expect(isTransientError(Object.assign(new Error("x"), { status: 503 }))).toBe(true);
+    expect(isTransientError(Object.assign(new Error("x"), { status: 400 }))).toBe(false);
+    expect(isTransientError(new Error("Scripted answer for doc-writer doesn't match its schema"))).toBe(true);
+    expect(isTransientError(new Error("ECONNRESET"))).toBe(true);
+    expect(isTransientError(new Error("Model not found"))).toBe(false);
+    expect(isTransientError("boom")).toBe(false);
+  });
+});
+
+describe("generate with failing sections", () => {
+  const output = join(OUTPUT_DIR, "partial");
+
+  it("leaves failed sections out of the manifest, throws, and writes them on the next run", async () => {
+    const failing = createScriptedBackend((request) => {
+      if (request.agent === "doc-writer" && (request.input as WriterInput).section.id === "tag:pets") {
+        throw new Error("Invalid API key");
+      }
+      return petDocs(request);
+    });
+
+    await expect(
+      generate({ spec: FIXTURE, output, mode: "ai", concurrency: 1 }, { backend: failing })
+    ).rejects.toThrow("1 page(s) failed: endpoints/pets.md");
+
+    const partial = await readManifest(output);
+    expect(Object.keys(partial!.sections)).toEqual(["overview"]);
+    expect(partial!.specHash).toBe("");
+
+    const working = createScriptedBackend(petDocs);
+    await generate({ spec: FIXTURE, output, mode: "ai" }, { backend: working });
+
+    // The plan is reused and the overview is cached, so only the failed page is written
+    expect(working.calls.map((c) => [c.agent, (c.input as WriterInput).section.id])).toEqual([
+      ["doc-writer", "tag:pets"],
+    ]);
+    const manifest = await readManifest(output);
+    expect(Object.keys(manifest!.sections).sort()).toEqual(["overview", "tag:pets"]);
+    expect(manifest!.specHash).not.toBe("");
+  });
+});
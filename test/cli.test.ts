@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { resolve } from "path";
+
+const run = promisify(execFile);
+const ROOT = resolve(import.meta.dirname, "..");
+const TSX = resolve(ROOT, "node_modules/.bin/tsx");
+const SWAGGER2_FIXTURE = resolve(import.meta.dirname, "fixtures/petstore-swagger2.yaml");
+
+describe("cli diff", () => {
+  it("keeps Swagger 2.0 conversion notices out of the JSON report", async () => {
+    const { stdout, stderr } = await run(
+      TSX,
+      ["src/cli.ts", "diff", "--base", SWAGGER2_FIXTURE, "--head", SWAGGER2_FIXTURE, "--format", "json"],
+      { cwd: ROOT, timeout: 60_000 }
+    );
+    expect(JSON.parse(stdout).changes).toEqual([]);
+    expect(stderr).toContain("Converted Swagger 2.0 spec to OpenAPI 3.0");
+    expect(stderr).toContain("Warning:");
+  }, 60_000);
+});
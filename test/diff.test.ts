@@ -0,0 +1,184 @@
+import { describe, it, expect } from "vitest";
+import { buildSpecIndex } from "../src/spec-index.js";
+import { diffSpecs, formatDiffMarkdown } from "../src/diff.js";
+import type { SpecIndex } from "../src/spec-index.js";
+import type { OpenAPIV3 } from "openapi-types";
+import { resolve } from "path";
+
+const FIXTURE = resolve(import.meta.dirname, "fixtures/petstore.yaml");
+
+function findOperation(index: SpecIndex, method: string, path: string): OpenAPIV3.OperationObject {
+  for (const endpoints of index.pathsByTag.values()) {
+    const endpoint = endpoints.find((e) => e.method === method && e.path === path);
+    if (endpoint) return endpoint.operation;
+  }
+  throw new Error(`No operation ${method} ${path}`);
+}
+
+async function load(): Promise<[SpecIndex, SpecIndex]> {
+  return [await buildSpecIndex(FIXTURE), await buildSpecIndex(FIXTURE)];
+}
+
+describe("diffSpecs", () => {
+  it("reports no changes for identical specs", async () => {
+    const [base, head] = await load();
+    expect(diffSpecs(base, head).changes).toEqual([]);
+  });
+
+  it("classifies removed endpoints as breaking and added ones as non-breaking", async () => {
+    const [base, head] = await load();
+    head.pathsByTag.delete("store");
+    base.pathsByTag.delete("untagged");
+
+    const { changes } = diffSpecs(base, head);
+    expect(changes).toContainEqual({ kind: "breaking", location: "GET /store/inventory", message: "Endpoint removed" });
+    expect(changes).toContainEqual({ kind: "non-breaking", location: "GET /health", message: "Endpoint added" });
+  });
+
+  it("classifies parameter changes", async () => {
+    const [base, head] = await load();
+    const listPets = findOperation(head, "get", "/pets");
+    listPets.parameters = [
+      { name: "limit", in: "query", required: true, schema: { type: "integer" } },
+      { name: "cursor", in: "query", schema: { type: "string" } },
+    ];
+
+    const messages = diffSpecs(base, head).changes.map((c) => `${c.kind}: ${c.message}`);
+    expect(messages).toContain('breaking: Parameter "limit" (query) is now required');
+    expect(messages).toContain('non-breaking: Optional parameter "cursor" (query) added');
+  });
+
+  it("classifies schema changes by direction", async () => {
+    const [base, head] = await load();
+    const pet = structuredClone(head.schemas.get("Pet")!);
+    delete pet.properties!.tag;
+    pet.properties!.age = { type: "integer" };
+    const getPet = findOperation(head, "get", "/pets/{petId}");
+    (getPet.responses["200"] as any).content["application/json"].schema = pet;
+
+    const createPet = findOperation(head, "post", "/pets");
+    const request = (createPet.requestBody as any).content["application/json"].schema;
+    request.properties.owner = { type: "string" };
+    request.required = ["name", "owner"];
+
+    const messages = diffSpecs(base, head).changes.map((c) => `${c.kind}: ${c.location}: ${c.message}`);
+    expect(messages).toContain('breaking: GET /pets/{petId}: Response 200 property "tag" removed');
+    expect(messages).toContain('non-breaking: GET /pets/{petId}: Response 200 property "age" added');
+    expect(messages).toContain('breaking: POST /pets: Required request body property "owner" added');
+  });
+
+  it("compares properties declared in allOf branches and oneOf variants", async () => {
+    const [base, head] = await load();
+    const pet = base.schemas.get("Pet")!;
+    for (const index of [base, head]) {
+      const getPet = findOperation(index, "get", "/pets/{petId}");
+      (getPet.responses["200"] as any).content["application/json"].schema = {
+        allOf: [structuredClone(pet), { type: "object", properties: { owner: { type: "string" } } }],
+      };
+      const createPet = findOperation(index, "post", "/pets");
+      (createPet.requestBody as any).content["application/json"].schema = {
+        oneOf: [{ type: "object", properties: { name: { type: "string" } } }],
+      };
+    }
+    const getPet = findOperation(head, "get", "/pets/{petId}");
+    (getPet.responses["200"] as any).content["application/json"].schema.allOf[1].properties.age = { type: "integer" };
+    const createPet = findOperation(head, "post", "/pets");
+    const request = (createPet.requestBody as any).content["application/json"].schema;
+    request.oneOf[0].properties.name.type = "integer";
+    request.oneOf.push({ type: "string" });
+
+    const messages = diffSpecs(base, head).changes.map((c) => `${c.kind}: ${c.location}: ${c.message}`);
+    expect(messages).toEqual([
+      'breaking: POST /pets: Request body oneOf variant 1 property "name" type changed from string to integer',
+      "non-breaking: POST /pets: Request body oneOf variant 2 added",
+      'non-breaking: GET /pets/{petId}: Response 200 property "age" added',
+    ]);
+  });
+
+  it("matches oneOf variants by schema name or shape, not position", async () => {
+    const [base, head] = await load();
+    for (const index of [base, head]) {
+      const getPet = findOperation(index, "get", "/pets/{petId}");
+      (getPet.responses["200"] as any).content["application/json"].schema = {
+        oneOf: [index.schemas.get("Pet")!, index.schemas.get("CreatePetRequest")!, { type: "string" }, { type: "integer" }],
+      };
+    }
+    const getPet = findOperation(head, "get", "/pets/{petId}");
+    (getPet.responses["200"] as any).content["application/json"].schema.oneOf.reverse();
+    expect(diffSpecs(base, head).changes).toEqual([]);
+
+    head.schemas.get("Pet")!.description = "A pet in the store";
+    const messages = diffSpecs(base, head).changes.map((c) => `${c.kind}: ${c.location}: ${c.message}`);
+    expect(messages).toContain("docs-only: GET /pets/{petId}: Response 200 oneOf variant 1 description changed");
+  });
+
+  it("classifies a schema appearing or disappearing by direction", async () => {
+    const [base, head] = await load();
+    const baseCreatePet = findOperation(base, "post", "/pets");
+    delete (baseCreatePet.responses["201"] as any).content["application/json"].schema;
+    const headCreatePet = findOperation(head, "post", "/pets");
+    delete (headCreatePet.requestBody as any).content["application/json"].schema;
+    const headGetPet = findOperation(head, "get", "/pets/{petId}");
+    delete (headGetPet.responses["200"] as any).content["application/json"].schema;
+
+    const messages = diffSpecs(base, head).changes.map((c) => `${c.kind}: ${c.location}: ${c.message}`);
+    expect(messages).toEqual([
+      "breaking: GET /pets/{petId}: Response 200 schema removed",
+      "non-breaking: POST /pets: Request body schema removed",
+      "non-breaking: POST /pets: Response 201 schema added",
+    ]);
+  });
+
+  it("treats enum changes differently for requests and responses", async () => {
+    const [base, head] = await load();
+    for (const index of [base, head]) {
+      const listPets = findOperation(index, "get", "/pets");
+      (listPets.parameters![0] as any).schema = { type: "string", enum: ["a", "b"] };
+      (listPets.responses["200"] as any).content["application/json"].schema = { type: "string", enum: ["x", "y"] };
+    }
+    const listPets = findOperation(head, "get", "/pets");
+    (listPets.parameters![0] as any).schema.enum = ["a"];
+    (listPets.responses["200"] as any).content["application/json"].schema.enum = ["x", "y", "z"];
+
+    const messages = diffSpecs(base, head).changes.map((c) => `${c.kind}: ${c.message}`);
+    expect(messages).toContain('breaking: Parameter "limit" (query) enum values removed: "b"');
+    expect(messages).toContain('breaking: Response 200 enum values added: "z"');
+  });
+
+  it("classifies description edits as docs-only", async () => {
+    const [base, head] = await load();
+    findOperation(head, "get", "/pets").summary = "List every pet";
+
+    const { changes, counts } = diffSpecs(base, head);
+    expect(changes).toEqual([{ kind: "docs-only", location: "GET /pets", message: "Summary or description changed" }]);
+    expect(counts).toEqual({ breaking: 0, "non-breaking": 0, "docs-only": 1 });
+  });
+
+  it("classifies security scheme changes", async () => {
+    const [base, head] = await load();
+    head.security = { bearer: { type: "http", scheme: "bearer" } };
+
+    const { changes } = diffSpecs(base, head);
+    expect(changes).toContainEqual({ kind: "breaking", location: "security apiKey", message: "Security scheme removed" });
+    expect(changes).toContainEqual({ kind: "non-breaking", location: "security bearer", message: "Security scheme added" });
+  });
+});
+
+describe("formatDiffMarkdown", () => {
+  it("groups changes under headings by kind", async () => {
+    const [base, head] = await load();
+    head.pathsByTag.delete("store");
+    findOperation(head, "get", "/pets").summary = "List every pet";
+
+    const markdown = formatDiffMarkdown(diffSpecs(base, head));
+    expect(markdown).toContain("**1 breaking**, 0 non-breaking, 1 docs-only");
+    expect(markdown).toContain("## Breaking changes\n\n- `GET /store/inventory`: Endpoint removed");
+    expect(markdown).toContain("## Documentation changes");
+    expect(markdown).not.toContain("## Non-breaking changes");
+  });
+
+  it("says so when nothing changed", () => {
+    const markdown = formatDiffMarkdown({ changes: [], counts: { breaking: 0, "non-breaking": 0, "docs-only": 0 } });
+    expect(markdown).toContain("No changes.");
+  });
+});
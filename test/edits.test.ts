@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { readFile, writeFile, rm } from "fs/promises";
+import { resolve, join } from "path";
+import { tmpdir } from "os";
+import { mergeThreeWay, newVersionPath } from "../src/edits.js";
+import { createScriptedBackend } from "../src/backends/scripted.js";
+import type { ScriptedRequest } from "../src/backends/scripted.js";
+import type { WriterInput } from "../src/agents/writer.js";
+import { generate } from "../src/generate.js";
+import { readManifest } from "../src/manifest.js";
+import { previewGenerate } from "../src/preview.js";
+import type { Config } from "../src/config.js";
+import { petDocs } from "./fixtures/pet-docs.js";
+
+const FIXTURE = resolve(import.meta.dirname, "fixtures/petstore.yaml");
+const OUTPUT_DIR = resolve(join(tmpdir(), "opper-docs-edits-test"));
+const petsPage = join(OUTPUT_DIR, "endpoints/pets.md");
+const config: Config = { spec: FIXTURE, output: OUTPUT_DIR, mode: "ai", force: true };
+const EDIT = "\nEdited by a tech writer.\n";
+
+/** Like `petDocs`, but writes each section with a different body */
+function rewrittenDocs(request: ScriptedRequest) {
+  if (request.agent !== "doc-writer") return petDocs(request);
+  const { section } = request.input as WriterInput;
+  return { title: section.title, markdown: `# ${section.title}\n\nWritten again.` };
+}
+
+function writerCalls(backend: ReturnType<typeof createScriptedBackend>): string[] {
+  return backend.calls.filter((c) => c.agent === "doc-writer").map((c) => (c.input as WriterInput).section.id);
+}
+
+beforeAll(async () => {
+  await generate({ ...config, force: false }, { backend: createScriptedBackend(petDocs) });
+});
+
+afterAll(async () => {
+  await rm(OUTPUT_DIR, { recursive: true, force: true });
+});
+
+describe("mergeThreeWay", () => {
+  it("keeps edits and generated changes to different lines", () => {
+    const base = "# Pets\n\nIntro.\n\n## List pets\n";
+    const edited = "# Pets\n\nIntro, polished.\n\n## List pets\n";
+    const generated = "# Pets\n\nIntro.\n\n## List pets\n\nNow paginated.\n";
+
+    expect(mergeThreeWay(base, edited, generated)).toEqual({
+      text: "# Pets\n\nIntro, polished.\n\n## List pets\n\nNow paginated.\n",
+      conflicts: 0,
+    });
+  });
+
+  it("marks lines both sides changed differently", () => {
+    const { text, conflicts } = mergeThreeWay("a\nb\nc", "a\nB by hand\nc", "a\nB generated\nc");
+
+    expect(conflicts).toBe(1);
+    expect(text).toBe("a\n<<<<<<< edited\nB by hand\n=======\nB generated\n>>>>>>> generated\nc");
+  });
+});
+
+describe("generate with pages edited by hand", () => {
+  let edited = "";
+
+  it("records a file hash and skips edited pages by default", async () => {
+    expect((await readManifest(OUTPUT_DIR))!.sections["tag:pets"].fileHash).toBeDefined();
+    edited = (await readFile(petsPage, "utf-8")) + EDIT;
+    await writeFile(petsPage, edited);
+
+    const preview = await previewGenerate(config, { reusePlan: true });
+    expect(preview.outputs[0].sections.find((s) => s.id === "tag:pets")!.edited).toBe("skip");
+
+    const backend = createScriptedBackend(rewrittenDocs);
+    await generate(config, { backend });
+
+    expect(writerCalls(backend)).toEqual(["overview"]);
+    expect(await readFile(petsPage, "utf-8")).toBe(edited);
+    // Still stale, so the next run warns again
+    expect((await readManifest(OUTPUT_DIR))!.specHash).toBe("");
+  });
+
+  it("writes the new version next to an edited page", async () => {
+    await generate({ ...config, onEdit: "new" }, { backend: createScriptedBackend(rewrittenDocs) });
+
+    expect(await readFile(petsPage, "utf-8")).toBe(edited);
+    expect(await readFile(join(OUTPUT_DIR, newVersionPath("endpoints/pets.md")), "utf-8")).toBe(
+      edited.replace("Written by the script.", "Written again.").replace(EDIT, "")
+    );
+  });
+
+  it("merges the new version into the edits, per section", async () => {
+    // Put back the page as generated, and edit it again
+    await generate({ ...config, onEdit: "skip" }, { backend: createScriptedBackend(petDocs) });
+    await rm(petsPage);
+    await generate(config, { backend: createScriptedBackend(petDocs) });
+    await writeFile(petsPage, edited);
+
+    await generate(
+      { ...config, overrides: { sections: { "tag:pets": { onEdit: "merge" } } } },
+      { backend: createScriptedBackend(rewrittenDocs) }
+    );
+
+    expect(await readFile(petsPage, "utf-8")).toBe(edited.replace("Written by the script.", "Written again."));
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import type { OpenAPIV3 } from "openapi-types";
+import { buildSpecIndex, findEndpoint } from "../src/spec-index.js";
+import { generateExample, generateOperationExample } from "../src/examples.js";
+import { resolve } from "path";
+
+const FIXTURE = resolve(import.meta.dirname, "fixtures/petstore.yaml");
+
+describe("generateExample", () => {
+  it("prefers explicit examples over synthesized values", () => {
+    expect(generateExample({ type: "string", example: "rex" })).toBe("rex");
+    expect(
+      generateExample({ type: "string", examples: ["first", "second"] } as OpenAPIV3.SchemaObject)
+    ).toBe("first");
+    expect(generateExample({ type: "string", enum: ["available", "sold"] })).toBe("available");
+  });
+
+  it("uses format-specific values", () => {
+    const example = generateExample({
+      type: "object",
+      properties: {
+        id: { type: "string", format: "uuid" },
+        email: { type: "string", format: "email" },
+        createdAt: { type: "string", format: "date-time" },
+      },
+    });
+    expect(example).toEqual({
+      id: "3fa85f64-5717-4562-b3fc-2c963f66afa6",
+      email: "user@example.com",
+      createdAt: "2024-01-15T09:30:00Z",
+    });
+  });
+
+  it("respects numeric and length constraints", () => {
+    expect(generateExample({ type: "integer", minimum: 10, maximum: 20 })).toBe(10);
+    expect(generateExample({ type: "integer", minimum: 10, exclusiveMinimum: true })).toBe(11);
+    expect(generateExample({ type: "number", maximum: -5 })).toBe(-5);
+    expect(generateExample({ type: "integer", minimum: 7, multipleOf: 5 })).toBe(10);
+    expect(generateExample({ type: "string", minLength: 10 })).toHaveLength(10);
+    expect(generateExample({ type: "string", maxLength: 3 })).toBe("str");
+    expect(
+      generateExample({ type: "array", items: { type: "boolean" }, minItems: 2 })
+    ).toEqual([true, true]);
+  });
+
+  it("fills uniqueItems arrays with distinct items", () => {
+    const unique = (items: OpenAPIV3.SchemaObject, minItems = 3) =>
+      generateExample({ type: "array", items, minItems, uniqueItems: true });
+
+    expect(unique({ type: "string" })).toEqual(["string", "string1", "string2"]);
+    expect(unique({ type: "string", maxLength: 4 })).toEqual(["stri", "str1", "str2"]);
+    expect(unique({ type: "integer", minimum: 5, multipleOf: 5 })).toEqual([5, 10, 15]);
+    expect(unique({ type: "string", enum: ["a", "b", "c"] })).toEqual(["a", "b", "c"]);
+    expect(unique({ type: "string", format: "uuid" }, 2)).toEqual([
+      "3fa85f64-5717-4562-b3fc-2c963f66afa6",
+      "3fa85f64-5717-4562-b3fc-000000000001",
+    ]);
+    expect(unique({ type: "object", properties: { tag: { type: "string", format: "email" } } }, 2)).toEqual([
+      { tag: "user@example.com" },
+      { tag: "user1@example.com" },
+    ]);
+    // Only as many as the schema allows
+    expect(unique({ type: "boolean" })).toEqual([true, false]);
+  });
+
+  it("keeps formatted strings whole and matches patterns", () => {
+    expect(generateExample({ type: "string", format: "uuid", maxLength: 10 })).toBe(
+      "3fa85f64-5717-4562-b3fc-2c963f66afa6"
+    );
+    expect(generateExample({ type: "string", format: "password", minLength: 10 })).toBe("**********");
+
+    for (const pattern of [
+      "^[A-Z]{3}-\\d{4}$",
+      "^(?:sk|pk)_(live|test)_[a-zA-Z0-9]{8,}$",
+      "^\\+?[1-9]\\d{1,14}$",
+      "^[a-z0-9-]+\\.example\\.com$",
+    ]) {
+      const value = generateExample({ type: "string", pattern }) as string;
+      expect(value).toMatch(new RegExp(pattern, "u"));
+    }
+    expect(generateExample({ type: "string", pattern: "^[A-Z]{3}-\\d{4}$" })).toBe("AAA-0000");
+    // Lookarounds aren't synthesized
+    expect(generateExample({ type: "string", pattern: "^(?=.*\\d).{8,}$" })).toBe("string");
+  });
+
+  it("merges allOf and picks the first non-null oneOf variant", () => {
+    const merged = generateExample({
+      allOf: [
+        { type: "object", properties: { id: { type: "integer" } } },
+        { type: "object", properties: { name: { type: "string" } } },
+      ],
+    });
+    expect(merged).toEqual({ id: 1, name: "string" });
+
+    const variant = generateExample({
+      oneOf: [{ type: "null" } as unknown as OpenAPIV3.SchemaObject, { type: "integer" }],
+    });
+    expect(variant).toBe(1);
+    expect(generateExample({ type: ["string", "null"] } as unknown as OpenAPIV3.SchemaObject)).toBe("string");
+  });
+
+  it("omits readOnly properties from requests and honors requiredOnly", () => {
+    const schema: OpenAPIV3.SchemaObject = {
+      type: "object",
+      required: ["name"],
+      properties: {
+        id: { type: "string", readOnly: true },
+        name: { type: "string" },
+        password: { type: "string", format: "password", writeOnly: true },
+      },
+    };
+    expect(generateExample(schema, { direction: "request" })).toEqual({
+      name: "string",
+      password: "********",
+    });
+    expect(generateExample(schema, { direction: "response" })).toEqual({
+      id: "string",
+      name: "string",
+    });
+    expect(generateExample(schema, { requiredOnly: true })).toEqual({ name: "string" });
+  });
+
+  it("stops at recursive schemas and is stable across runs", () => {
+    const node: OpenAPIV3.SchemaObject = {
+      type: "object",
+      properties: { value: { type: "integer" } },
+    };
+    node.properties!.children = { type: "array", items: node };
+
+    const first = generateExample(node);
+    expect(first).toEqual({ value: 1, children: [{}] });
+    expect(generateExample(node)).toEqual(first);
+  });
+});
+
+describe("generateOperationExample", () => {
+  it("builds request and response bodies for an operation", async () => {
+    const index = await buildSpecIndex(FIXTURE);
+    const endpoint = findEndpoint(index, { operationId: "createPet" })!;
+
+    expect(generateOperationExample(endpoint, "request")).toEqual({ name: "string", tag: "string" });
+    expect(generateOperationExample(endpoint, "response")).toEqual({
+      id: "string",
+      name: "string",
+      tag: "string",
+    });
+    expect(generateOperationExample(endpoint, "response", "400")).toBeUndefined();
+  });
+});
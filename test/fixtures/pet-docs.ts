@@ -0,0 +1,24 @@
+import type { ScriptedRequest } from "../../src/backends/scripted.js";
+import type { WriterInput } from "../../src/agents/writer.js";
+
+/** Plans an overview and a pets page, and writes each section as its title */
+export function petDocs({ agent, input }: ScriptedRequest) {
+  if (agent === "doc-planner") {
+    return {
+      sections: [
+        { id: "overview", title: "Overview", outputPath: "index.md", type: "overview", description: "Intro", order: 0 },
+        {
+          id: "tag:pets",
+          title: "Pets",
+          outputPath: "endpoints/pets.md",
+          type: "endpoint-group",
+          description: "Pet endpoints",
+          relatedTags: ["pets"],
+          order: 1,
+        },
+      ],
+    };
+  }
+  const { section } = input as WriterInput;
+  return { title: section.title, markdown: `# ${section.title}\n\nWritten by the script.` };
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { loadGuides, parseFrontmatter } from "../src/guides.js";
+import { resolve } from "path";
+
+const GUIDES_DIR = resolve(import.meta.dirname, "fixtures/guides");
+
+describe("loadGuides", () => {
+  it("reads every markdown file with its frontmatter", async () => {
+    const guides = await loadGuides(GUIDES_DIR);
+
+    expect(guides.map((g) => g.id)).toEqual([
+      "guide:faq",
+      "guide:getting-started",
+      "guide:migrations/v2",
+    ]);
+    expect(guides[1]).toMatchObject({
+      title: "Getting Started",
+      group: "Guides",
+      order: 1,
+      description: "Make your first request in five minutes",
+      outputPath: "guides/getting-started.md",
+    });
+  });
+
+  it("adds a title heading and strips frontmatter from the content", async () => {
+    const guides = await loadGuides(GUIDES_DIR);
+    const started = guides.find((g) => g.id === "guide:getting-started")!;
+
+    expect(started.content).toBe("# Getting Started\n\nInstall the SDK and make your first request.\n");
+  });
+
+  it("falls back to the first heading, then the file name, for the title", async () => {
+    const guides = await loadGuides(GUIDES_DIR);
+
+    expect(guides.find((g) => g.id === "guide:migrations/v2")).toMatchObject({
+      title: "Migrating to v2",
+      outputPath: "guides/migrations/v2.md",
+      order: 1000,
+    });
+    expect(guides.find((g) => g.id === "guide:faq")!.title).toBe("faq");
+  });
+
+  it("throws for a missing directory", async () => {
+    await expect(loadGuides(resolve(GUIDES_DIR, "missing"))).rejects.toThrow(
+      /Guides directory not found/
+    );
+  });
+});
+
+describe("parseFrontmatter", () => {
+  it("returns the whole text as body without frontmatter", () => {
+    expect(parseFrontmatter("# Title\n")).toEqual({ data: {}, body: "# Title\n" });
+  });
+
+  it("rejects frontmatter that isn't a mapping", () => {
+    expect(() => parseFrontmatter("---\n- a\n- b\n---\nBody", "list.md")).toThrow(
+      /Invalid frontmatter in list.md/
+    );
+  });
+});
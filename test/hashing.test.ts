@@ -5,6 +5,8 @@ import type { Section } from "../src/agents/planner.js";
 import { resolve } from "path";
 
 const FIXTURE = resolve(import.meta.dirname, "fixtures/petstore.yaml");
+const EVENTS_FIXTURE = resolve(import.meta.dirname, "fixtures/events.yaml");
+const PATTERNS_FIXTURE = resolve(import.meta.dirname, "fixtures/patterns.yaml");
 
 function makeSection(overrides: Partial<Section>): Section {
   return {
@@ -69,4 +71,75 @@ describe("computeSectionHash", () => {
     );
     expect(withSchemas).not.toBe(withoutSchemas);
   });
+
+  it("changes webhooks hash only when webhook payloads change", async () => {
+    const index = await buildSpecIndex(EVENTS_FIXTURE);
+    const webhooks = makeSection({ type: "webhooks" });
+    const orders = makeSection({ type: "endpoint-group", relatedTags: ["orders"] });
+    const webhooksBefore = computeSectionHash(webhooks, index);
+    const ordersBefore = computeSectionHash(orders, index);
+
+    index.webhooks[0].operation.summary = "An order was placed";
+
+    expect(computeSectionHash(webhooks, index)).not.toBe(webhooksBefore);
+    expect(computeSectionHash(orders, index)).toBe(ordersBefore);
+  });
+
+  it("includes callbacks in webhooks hash", async () => {
+    const index = await buildSpecIndex(EVENTS_FIXTURE);
+    const webhooks = makeSection({ type: "webhooks" });
+    const before = computeSectionHash(webhooks, index);
+
+    index.callbacks[0].operation.summary = "Changed";
+
+    expect(computeSectionHash(webhooks, index)).not.toBe(before);
+  });
+
+  it("leaves callbacks out of the registering endpoint group's hash", async () => {
+    const index = await buildSpecIndex(EVENTS_FIXTURE);
+    const subscriptions = makeSection({ type: "endpoint-group", relatedTags: ["subscriptions"] });
+    const before = computeSectionHash(subscriptions, index);
+
+    index.callbacks[0].operation.summary = "Changed";
+    expect(computeSectionHash(subscriptions, index)).toBe(before);
+
+    index.pathsByTag.get("subscriptions")![0].operation.summary = "Subscribe";
+    expect(computeSectionHash(subscriptions, index)).not.toBe(before);
+  });
+
+  it("changes rate-limits hash only when rate limit headers or 429s change", async () => {
+    const index = await buildSpecIndex(PATTERNS_FIXTURE);
+    const rateLimits = makeSection({ type: "rate-limits" });
+    const pagination = makeSection({ type: "pagination" });
+    const rateLimitsBefore = computeSectionHash(rateLimits, index);
+    const paginationBefore = computeSectionHash(pagination, index);
+
+    const list = index.pathsByTag.get("entries")!.find((e) => e.path === "/entries")!;
+    const tooMany = list.operation.responses!["429"] as { description: string };
+    tooMany.description = "Slow down";
+
+    expect(computeSectionHash(rateLimits, index)).not.toBe(rateLimitsBefore);
+    expect(computeSectionHash(pagination, index)).toBe(paginationBefore);
+  });
+
+  it("changes pagination hash when a pagination parameter changes", async () => {
+    const index = await buildSpecIndex(PATTERNS_FIXTURE);
+    const pagination = makeSection({ type: "pagination" });
+    const before = computeSectionHash(pagination, index);
+
+    const list = index.pathsByTag.get("entries")!.find((e) => e.path === "/entries")!;
+    (list.operation.parameters![0] as { description?: string }).description = "Opaque cursor";
+
+    expect(computeSectionHash(pagination, index)).not.toBe(before);
+  });
+
+  it("changes versioning hash when the API version changes", async () => {
+    const index = await buildSpecIndex(PATTERNS_FIXTURE);
+    const versioning = makeSection({ type: "versioning" });
+    const before = computeSectionHash(versioning, index);
+
+    index.info.version = "2024-09-01";
+
+    expect(computeSectionHash(versioning, index)).not.toBe(before);
+  });
 });
@@ -0,0 +1,127 @@
+import { describe, it, expect, afterAll, vi } from "vitest";
+import { readFile, rm } from "fs/promises";
+import { resolve, join } from "path";
+import { tmpdir } from "os";
+import { languageName, protectMarkdown, restoreMarkdown, pinHeadingIds } from "../src/i18n.js";
+import { createScriptedBackend } from "../src/backends/scripted.js";
+import type { ScriptedRequest } from "../src/backends/scripted.js";
+import type { TranslatorInput } from "../src/agents/translator.js";
+import { generate } from "../src/generate.js";
+import { readManifest, writeManifest } from "../src/manifest.js";
+import { petDocs } from "./fixtures/pet-docs.js";
+
+const FIXTURE = resolve(import.meta.dirname, "fixtures/petstore.yaml");
+const OUTPUT_DIR = resolve(join(tmpdir(), "opper-docs-i18n-test"));
+
+afterAll(async () => {
+  await rm(OUTPUT_DIR, { recursive: true, force: true });
+});
+
+const SOURCE = [
+  "# Pets",
+  "",
+  "## Create a pet",
+  "",
+  "<!-- code-samples -->",
+  "",
+  "```bash",
+  "curl -X POST https://api.example.com/pets",
+  "```",
+  "",
+  "<!-- /code-samples -->",
+  "",
+  "## `GET /pets`",
+  "",
+].join("\n");
+
+describe("protectMarkdown", () => {
+  it("swaps code blocks and comments for placeholders and restores them", () => {
+    const { text, kept } = protectMarkdown(SOURCE);
+    expect(kept).toHaveLength(3);
+    expect(text).not.toContain("curl");
+    expect(text).toContain("@@KEEP_1@@");
+
+    const translated = text.replace("Create a pet", "Haustier anlegen");
+    expect(restoreMarkdown(translated, kept)).toBe(SOURCE.replace("Create a pet", "Haustier anlegen"));
+  });
+
+  it("fails when a placeholder is lost", () => {
+    const { text, kept } = protectMarkdown(SOURCE);
+    expect(() => restoreMarkdown(text.replace("@@KEEP_1@@", ""), kept)).toThrow(/dropped 1 code block/);
+  });
+});
+
+describe("pinHeadingIds", () => {
+  it("gives translated headings the ids of their source headings", () => {
+    const translated = SOURCE.replace("## Create a pet", "## ペットを作成");
+    const pinned = pinHeadingIds(SOURCE, translated);
+    expect(pinned).toContain("## ペットを作成 {#create-a-pet}");
+    expect(pinned).toContain("## `GET /pets` {#get-pets}");
+  });
+
+  it("leaves the translation alone when headings don't line up", () => {
+    const translated = "# Haustiere\n\n## Anlegen\n";
+    expect(pinHeadingIds(SOURCE, translated)).toBe(translated);
+  });
+});
+
+describe("languageName", () => {
+  it("names locales in English", () => {
+    expect(languageName("ja")).toBe("Japanese");
+    expect(languageName("pt-BR")).toBe("Brazilian Portuguese");
+  });
+});
+
+/** Like `petDocs`, and translates the script's sentence into German */
+function germanDocs(request: ScriptedRequest) {
+  if (request.agent !== "doc-translator") return petDocs(request);
+  const { markdown } = request.input as TranslatorInput;
+  return { markdown: markdown.replace("Written by the script.", "Vom Skript geschrieben.") };
+}
+
+function translated(backend: ReturnType<typeof createScriptedBackend>): string[] {
+  return backend.calls.filter((c) => c.agent === "doc-translator").map((c) => (c.input as TranslatorInput).markdown);
+}
+
+describe("generate with translated locales", () => {
+  const config = { spec: FIXTURE, output: OUTPUT_DIR, mode: "ai" as const, locales: ["de"] };
+
+  it("translates every page into the locale's directory and records the locales", async () => {
+    const backend = createScriptedBackend(germanDocs);
+    await generate(config, { backend });
+
+    expect(translated(backend)).toHaveLength(2);
+    expect(await readFile(join(OUTPUT_DIR, "de/endpoints/pets.md"), "utf-8")).toContain("Vom Skript geschrieben.");
+    const manifest = (await readManifest(join(OUTPUT_DIR, "de")))!;
+    expect(manifest.locale).toBe("de");
+    expect(Object.values(manifest.sections).map((s) => s.outputPath)).toEqual(["index.md", "endpoints/pets.md"]);
+    expect((await readManifest(OUTPUT_DIR))!.locales).toEqual(["de"]);
+  });
+
+  it("reuses translations whose source is unchanged", async () => {
+    const backend = createScriptedBackend(germanDocs);
+    await generate(config, { backend });
+
+    expect(translated(backend)).toEqual([]);
+  });
+
+  it("reports a source page missing from disk as failed and translates the rest", async () => {
+    await rm(join(OUTPUT_DIR, "endpoints/pets.md"));
+    // And the overview needs translating again
+    const de = (await readManifest(join(OUTPUT_DIR, "de")))!;
+    delete de.sections.overview;
+    await writeManifest(join(OUTPUT_DIR, "de"), de);
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const backend = createScriptedBackend(germanDocs);
+
+    await expect(generate(config, { backend })).rejects.toThrow("1 page(s) failed: de/endpoints/pets.md");
+    error.mockRestore();
+
+    expect(translated(backend)).toHaveLength(1);
+    const { sections } = (await readManifest(join(OUTPUT_DIR, "de")))!;
+    expect(sections.overview).toBeDefined();
+    // The stale pets translation is kept for the retry
+    expect(sections["tag:pets"]).toBeDefined();
+    expect(await readFile(join(OUTPUT_DIR, "de/endpoints/pets.md"), "utf-8")).toContain("Vom Skript geschrieben.");
+  });
+});
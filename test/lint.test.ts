@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { buildSpecIndex } from "../src/spec-index.js";
+import { lintSpec, exceedsThreshold, formatLintReport } from "../src/lint.js";
+import { resolve } from "path";
+
+const FIXTURE = resolve(import.meta.dirname, "fixtures/petstore.yaml");
+
+describe("lintSpec", () => {
+  it("flags untagged operations", async () => {
+    const report = lintSpec(await buildSpecIndex(FIXTURE));
+    const issue = report.issues.find((i) => i.rule === "operation-tags");
+    expect(issue).toMatchObject({ severity: "warning", location: "GET /health" });
+  });
+
+  it("flags error responses without a schema", async () => {
+    const report = lintSpec(await buildSpecIndex(FIXTURE));
+    const locations = report.issues
+      .filter((i) => i.rule === "error-response-schema")
+      .map((i) => i.location);
+    expect(locations).toEqual(["GET /pets", "POST /pets", "GET /pets/{petId}"]);
+  });
+
+  it("flags schema properties without descriptions", async () => {
+    const report = lintSpec(await buildSpecIndex(FIXTURE));
+    const issue = report.issues.find(
+      (i) => i.rule === "schema-property-description" && i.location === "schema Pet"
+    );
+    expect(issue!.message).toContain("id, name, tag");
+  });
+
+  it("flags missing operation descriptions, ids and undeclared tags", async () => {
+    const index = await buildSpecIndex(FIXTURE);
+    const getPet = index.pathsByTag.get("pets")!.find((e) => e.path === "/pets/{petId}")!;
+    delete getPet.operation.summary;
+    delete getPet.operation.operationId;
+    index.tags = index.tags.filter((t) => t.name !== "store");
+
+    const report = lintSpec(index);
+    const rules = report.issues.map((i) => i.rule);
+    expect(rules).toContain("operation-description");
+    expect(rules).toContain("operation-id");
+    expect(rules).toContain("tag-undeclared");
+    expect(report.issues[0].severity).toBe("error");
+  });
+
+  it("counts issues by severity", async () => {
+    const report = lintSpec(await buildSpecIndex(FIXTURE));
+    expect(report.counts.error + report.counts.warning + report.counts.info).toBe(
+      report.issues.length
+    );
+  });
+});
+
+describe("exceedsThreshold", () => {
+  it("compares issues against the severity threshold", async () => {
+    const report = lintSpec(await buildSpecIndex(FIXTURE));
+    expect(report.counts.error).toBe(0);
+    expect(exceedsThreshold(report, "error")).toBe(false);
+    expect(exceedsThreshold(report, "warning")).toBe(true);
+    expect(exceedsThreshold(report, "info")).toBe(true);
+    expect(exceedsThreshold(report, "none")).toBe(false);
+  });
+});
+
+describe("formatLintReport", () => {
+  it("filters issues below the minimum severity but keeps the summary", async () => {
+    const report = lintSpec(await buildSpecIndex(FIXTURE));
+    const text = formatLintReport(report, "warning");
+    expect(text).not.toContain("example-missing");
+    expect(text).toContain("operation-tags");
+    expect(text).toMatch(/Lint: 0 error\(s\), 4 warning\(s\), \d+ info$/);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { resolveSectionSettings, sectionInstructionsHash, instructionsHashFor } from "../src/overrides.js";
+import { sha256 } from "../src/manifest.js";
+import type { Config } from "../src/config.js";
+import type { Section } from "../src/agents/planner.js";
+
+const baseConfig: Config = {
+  spec: "openapi.yaml",
+  output: "./docs",
+  instructions: "Be concise.",
+  model: "default-model",
+  overrides: {
+    types: {
+      auth: { instructions: "Show OAuth flows step by step." },
+      schemas: { model: "cheap-model" },
+    },
+    tags: {
+      ml: { instructions: "Always show Python examples.", model: "ml-model", onEdit: "merge" },
+    },
+    sections: {
+      "tag:ml": { model: "section-model", onEdit: "new" },
+    },
+  },
+};
+
+function section(overrides: Partial<Section>): Section {
+  return {
+    id: "overview",
+    title: "Overview",
+    outputPath: "index.md",
+    type: "overview",
+    description: "",
+    order: 0,
+    ...overrides,
+  };
+}
+
+describe("resolveSectionSettings", () => {
+  it("uses the global settings when nothing matches", () => {
+    expect(resolveSectionSettings(section({}), baseConfig)).toEqual({
+      instructions: "Be concise.",
+      model: "default-model",
+      onEdit: "skip",
+    });
+  });
+
+  it("appends type instructions and applies type models", () => {
+    expect(resolveSectionSettings(section({ id: "auth", type: "auth" }), baseConfig)).toEqual({
+      instructions: "Be concise.\n\nShow OAuth flows step by step.",
+      model: "default-model",
+      onEdit: "skip",
+    });
+    expect(resolveSectionSettings(section({ id: "schemas", type: "schemas" }), baseConfig).model)
+      .toBe("cheap-model");
+  });
+
+  it("lets section id overrides win over tag overrides", () => {
+    const ml = section({ id: "tag:ml", type: "endpoint-group", relatedTags: ["ml"] });
+    expect(resolveSectionSettings(ml, baseConfig)).toEqual({
+      instructions: "Be concise.\n\nAlways show Python examples.",
+      model: "section-model",
+      onEdit: "new",
+    });
+  });
+});
+
+describe("sectionInstructionsHash", () => {
+  it("matches the global instructions hash for sections without overrides", () => {
+    expect(sectionInstructionsHash(section({}), baseConfig)).toBe(sha256("Be concise."));
+  });
+
+  it("changes only for sections an override applies to", () => {
+    const changed: Config = {
+      ...baseConfig,
+      overrides: {
+        ...baseConfig.overrides,
+        types: { ...baseConfig.overrides!.types, auth: { instructions: "Mention token expiry." } },
+      },
+    };
+    const auth = section({ id: "auth", type: "auth" });
+    const overview = section({});
+
+    expect(sectionInstructionsHash(auth, changed)).not.toBe(sectionInstructionsHash(auth, baseConfig));
+    expect(sectionInstructionsHash(overview, changed)).toBe(sectionInstructionsHash(overview, baseConfig));
+    expect(instructionsHashFor(changed)).not.toBe(instructionsHashFor(baseConfig));
+  });
+
+  it("changes when only the model an override picks changes", () => {
+    const changed: Config = {
+      ...baseConfig,
+      overrides: {
+        ...baseConfig.overrides,
+        types: { ...baseConfig.overrides!.types, schemas: { model: "other-model" } },
+      },
+    };
+    const schemas = section({ id: "schemas", type: "schemas" });
+    const overview = section({});
+
+    expect(sectionInstructionsHash(schemas, changed)).not.toBe(sectionInstructionsHash(schemas, baseConfig));
+    expect(sectionInstructionsHash(overview, changed)).toBe(sectionInstructionsHash(overview, baseConfig));
+  });
+});
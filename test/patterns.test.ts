@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { buildSpecIndex } from "../src/spec-index.js";
+import { detectPatterns } from "../src/patterns.js";
+import { resolve } from "path";
+
+const FIXTURE = resolve(import.meta.dirname, "fixtures/patterns.yaml");
+const PETSTORE = resolve(import.meta.dirname, "fixtures/petstore.yaml");
+
+describe("detectPatterns", () => {
+  it("finds pagination parameters and response fields", async () => {
+    const { pagination } = detectPatterns(await buildSpecIndex(FIXTURE));
+
+    expect(pagination).toHaveLength(1);
+    expect(pagination[0].location).toBe("GET /entries");
+    expect(pagination[0].signals).toEqual([
+      "query parameter cursor",
+      "query parameter limit",
+      "response field next_cursor",
+      "response field has_more",
+    ]);
+  });
+
+  it("finds rate limit headers and 429 responses", async () => {
+    const { rateLimits } = detectPatterns(await buildSpecIndex(FIXTURE));
+
+    expect(rateLimits).toEqual([
+      expect.objectContaining({
+        location: "GET /entries",
+        signals: ["header X-RateLimit-Remaining", "429 response", "header Retry-After"],
+      }),
+    ]);
+  });
+
+  it("finds versioned servers and version headers", async () => {
+    const { versioning } = detectPatterns(await buildSpecIndex(FIXTURE));
+
+    expect(versioning.map((m) => [m.location, m.signals])).toEqual([
+      ["servers", ["server URL https://api.example.com/v2"]],
+      ["GET /entries", ["header parameter Ledger-Version"]],
+    ]);
+  });
+
+  it("reports nothing for patterns a spec doesn't show", async () => {
+    const patterns = detectPatterns(await buildSpecIndex(PETSTORE));
+
+    expect(patterns.rateLimits).toEqual([]);
+    // Only its /v1 server URL hints at versioning
+    expect(patterns.versioning.map((m) => m.location)).toEqual(["servers"]);
+  });
+});
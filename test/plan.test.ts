@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, afterAll } from "vitest";
+import { readFile, writeFile, mkdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { buildSpecIndex } from "../src/spec-index.js";
+import { computeStructureHash, stabilizePlan, keepLocked } from "../src/plan.js";
+import type { DocPlan, Section } from "../src/agents/planner.js";
+import { generate } from "../src/generate.js";
+import { readManifest } from "../src/manifest.js";
+import { createScriptedBackend } from "../src/backends/scripted.js";
+import type { ScriptedRequest } from "../src/backends/scripted.js";
+import { petDocs } from "./fixtures/pet-docs.js";
+import { resolve, join } from "path";
+
+const FIXTURE = resolve(import.meta.dirname, "fixtures/petstore.yaml");
+const OUTPUT_DIR = resolve(join(tmpdir(), "opper-docs-plan-test"));
+
+afterAll(async () => {
+  await rm(OUTPUT_DIR, { recursive: true, force: true });
+});
+
+function section(overrides: Partial<Section>): Section {
+  return {
+    id: "overview",
+    title: "Overview",
+    outputPath: "index.md",
+    type: "overview",
+    description: "",
+    order: 0,
+    ...overrides,
+  };
+}
+
+const baseline: DocPlan = {
+  sections: [
+    section({}),
+    section({ id: "tag:pets", title: "Pets", outputPath: "endpoints/pets.md", type: "endpoint-group", relatedTags: ["pets"], order: 1 }),
+    section({ id: "schemas", title: "Schemas", outputPath: "schemas.md", type: "schemas", order: 2 }),
+  ],
+};
+
+describe("computeStructureHash", () => {
+  it("ignores descriptions but not tags", async () => {
+    const specIndex = await buildSpecIndex(FIXTURE);
+    const hash = computeStructureHash(specIndex);
+
+    const described = { ...specIndex, info: { ...specIndex.info, description: "Changed" } };
+    expect(computeStructureHash(described)).toBe(hash);
+
+    const pathsByTag = new Map(specIndex.pathsByTag);
+    pathsByTag.set("owners", []);
+    expect(computeStructureHash({ ...specIndex, pathsByTag })).not.toBe(hash);
+  });
+});
+
+describe("stabilizePlan", () => {
+  it("keeps the baseline's outputPath for sections with the same id", () => {
+    const plan: DocPlan = {
+      sections: [section({ outputPath: "overview.md" }), baseline.sections[1]],
+    };
+    expect(stabilizePlan(plan, baseline).sections[0].outputPath).toBe("index.md");
+  });
+
+  it("restores renamed ids by type and related tags", () => {
+    const plan: DocPlan = {
+      sections: [
+        section({}),
+        section({ id: "pets", title: "Pets", outputPath: "endpoints/pet.md", type: "endpoint-group", relatedTags: ["pets"], order: 1 }),
+        section({ id: "tag:store", title: "Store", outputPath: "endpoints/store.md", type: "endpoint-group", relatedTags: ["store"], order: 2 }),
+      ],
+    };
+    const stable = stabilizePlan(plan, baseline).sections;
+
+    expect(stable[1]).toMatchObject({ id: "tag:pets", outputPath: "endpoints/pets.md" });
+    // New sections are left as planned
+    expect(stable[2]).toMatchObject({ id: "tag:store", outputPath: "endpoints/store.md" });
+  });
+
+  it("never gives two sections the same file", () => {
+    const plan: DocPlan = {
+      sections: [
+        section({ id: "schemas", outputPath: "models.md", type: "schemas" }),
+        section({ id: "models", title: "Models", outputPath: "schemas.md", type: "concepts" }),
+      ],
+    };
+    const paths = stabilizePlan(plan, baseline).sections.map((s) => s.outputPath);
+    expect(new Set(paths).size).toBe(2);
+  });
+});
+
+describe("keepLocked", () => {
+  const locked = { spec: FIXTURE, output: "./docs", locked: ["endpoints/pets.md"] };
+
+  it("puts back locked sections the planner changed or dropped", () => {
+    const plan: DocPlan = {
+      sections: [
+        section({}),
+        section({ id: "tag:pets", title: "Our pets", outputPath: "endpoints/pets.md", type: "endpoint-group", order: 1 }),
+      ],
+    };
+    expect(keepLocked(plan, baseline, locked).sections[1]).toEqual(baseline.sections[1]);
+    expect(keepLocked({ sections: [section({})] }, baseline, locked).sections.map((s) => s.id)).toEqual([
+      "overview",
+      "tag:pets",
+    ]);
+  });
+
+  it("moves other sections off a locked section's path", () => {
+    const plan: DocPlan = {
+      sections: [section({ id: "pets", outputPath: "endpoints/pets.md", type: "endpoint-group", order: 1 })],
+    };
+    expect(keepLocked(plan, baseline, locked).sections.map((s) => [s.id, s.outputPath])).toEqual([
+      ["pets", "endpoints/pets-2.md"],
+      ["tag:pets", "endpoints/pets.md"],
+    ]);
+  });
+});
+
+describe("generate with locked sections", () => {
+  const output = join(OUTPUT_DIR, "locked");
+  const changedSpec = join(OUTPUT_DIR, "petstore.yaml");
+  const petsPage = join(output, "endpoints/pets.md");
+
+  /** A planner that forgets the pets page */
+  function overviewOnly(request: ScriptedRequest) {
+    const answer = petDocs(request);
+    if (request.agent !== "doc-planner") return answer;
+    return { sections: (answer as DocPlan).sections.filter((s) => s.id === "overview") };
+  }
+
+  it("keeps locked pages as they are and warns when their inputs change", async () => {
+    await generate({ spec: FIXTURE, output, mode: "ai" }, { backend: createScriptedBackend(petDocs) });
+    const page = await readFile(petsPage, "utf-8");
+    const { contentHash } = (await readManifest(output))!.sections["tag:pets"];
+
+    await mkdir(OUTPUT_DIR, { recursive: true });
+    const spec = await readFile(FIXTURE, "utf-8");
+    await writeFile(changedSpec, spec.replace("        tag:\n          type: string\n", "$&        age:\n          type: integer\n"));
+
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const backend = createScriptedBackend(overviewOnly);
+    await generate(
+      { spec: changedSpec, output, mode: "ai", replan: true, locked: ["tag:pets"] },
+      { backend }
+    );
+    const warnings = warn.mock.calls.flat().join("\n");
+    warn.mockRestore();
+
+    expect(backend.calls.map((c) => c.agent)).toEqual(["doc-planner"]);
+    expect(backend.calls[0].instructions).toContain("These sections are locked");
+    expect(await readFile(petsPage, "utf-8")).toBe(page);
+    const manifest = (await readManifest(output))!;
+    expect(manifest.plan!.sections.map((s) => s.id)).toEqual(["overview", "tag:pets"]);
+    expect(manifest.sections["tag:pets"].contentHash).toBe(contentHash);
+    expect(warnings).toMatch(
+      /\[locked\] Pets: its spec inputs changed \(pets endpoints changed\), review endpoints\/pets\.md by hand/
+    );
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { allSettledPool } from "../src/pool.js";
+
+describe("allSettledPool", () => {
+  it("runs at most `concurrency` calls at once and keeps the order of results", async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await allSettledPool([30, 10, 20, 5, 15], 2, async (ms) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((r) => setTimeout(r, ms));
+      running--;
+      return ms * 2;
+    });
+
+    expect(peak).toBe(2);
+    expect(results.map((r) => r.status === "fulfilled" && r.value)).toEqual([60, 20, 40, 10, 30]);
+  });
+
+  it("settles rejections without stopping the other calls", async () => {
+    const results = await allSettledPool([1, 2, 3], 1, async (n) => {
+      if (n === 2) throw new Error("two");
+      return n;
+    });
+
+    expect(results[0]).toEqual({ status: "fulfilled", value: 1 });
+    expect(results[1].status).toBe("rejected");
+    expect(results[2]).toEqual({ status: "fulfilled", value: 3 });
+  });
+});
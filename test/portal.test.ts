@@ -0,0 +1,92 @@
+import { describe, it, expect, afterAll, vi } from "vitest";
+import { readFile, rm } from "fs/promises";
+import { resolve, join } from "path";
+import { tmpdir } from "os";
+import { createScriptedBackend } from "../src/backends/scripted.js";
+import { generate } from "../src/generate.js";
+import { readManifest } from "../src/manifest.js";
+import type { Config } from "../src/config.js";
+import { petDocs } from "./fixtures/pet-docs.js";
+
+const FIXTURE = resolve(import.meta.dirname, "fixtures/petstore.yaml");
+const OUTPUT_DIR = resolve(join(tmpdir(), "opper-docs-portal-test"));
+
+const config: Config = {
+  spec: "",
+  output: OUTPUT_DIR,
+  mode: "ai",
+  title: "Acme Developer Portal",
+  specs: [
+    { spec: FIXTURE, namespace: "pets", group: "Animals" },
+    { spec: FIXTURE, namespace: "shop", output: "store" },
+  ],
+};
+
+afterAll(async () => {
+  await rm(OUTPUT_DIR, { recursive: true, force: true });
+});
+
+describe("generate with several specs", () => {
+  it("writes each spec with its own manifest under its output directory", async () => {
+    const backend = createScriptedBackend(petDocs);
+    await generate(config, { backend });
+
+    expect(backend.calls.filter((c) => c.agent === "doc-planner")).toHaveLength(2);
+    for (const output of ["pets", "store"]) {
+      const manifest = (await readManifest(join(OUTPUT_DIR, output)))!;
+      expect(Object.values(manifest.sections).map((s) => s.outputPath)).toEqual(["index.md", "endpoints/pets.md"]);
+      expect(await readFile(join(OUTPUT_DIR, output, "endpoints/pets.md"), "utf-8")).toContain("Written by the script.");
+    }
+  });
+
+  it("records the specs in the root manifest and links them from a landing page", async () => {
+    const root = (await readManifest(OUTPUT_DIR))!;
+    expect(root.specs).toEqual({
+      pets: { output: "pets", title: "Petstore API", group: "Animals", order: 0 },
+      shop: { output: "store", title: "Petstore API", group: "Petstore API", order: 1 },
+    });
+    expect(root.sections.landing.outputPath).toBe("index.md");
+
+    const landing = await readFile(join(OUTPUT_DIR, "index.md"), "utf-8");
+    expect(landing).toContain("# Acme Developer Portal");
+    expect(landing).toContain("| [Petstore API](pets/index.md) | 1.0.0 | A sample API for pets |");
+    expect(landing).toContain("| [Petstore API](store/index.md) | 1.0.0 | A sample API for pets |");
+  });
+
+  it("reuses every spec's pages while nothing changed", async () => {
+    const backend = createScriptedBackend(petDocs);
+    await generate(config, { backend });
+
+    expect(backend.calls).toEqual([]);
+  });
+});
+
+describe("generate with a spec that can't be read", () => {
+  it("reports that spec as failed and still writes the others", async () => {
+    const output = join(OUTPUT_DIR, "partial");
+    const broken = resolve(import.meta.dirname, "fixtures/missing.yaml");
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const run = generate(
+      {
+        ...config,
+        output,
+        specs: [
+          { spec: broken, namespace: "broken" },
+          { spec: FIXTURE, namespace: "pets" },
+        ],
+      },
+      { backend: createScriptedBackend(petDocs) }
+    );
+    await expect(run).rejects.toThrow(/1 page\(s\) failed: broken \(.*missing\.yaml/);
+    const errors = error.mock.calls.map((c) => String(c[0]));
+    error.mockRestore();
+
+    expect(errors.some((e) => e.startsWith("  Failed: broken:"))).toBe(true);
+    expect(await readFile(join(output, "pets/endpoints/pets.md"), "utf-8")).toContain("Written by the script.");
+    expect(Object.keys((await readManifest(output))!.specs!)).toEqual(["pets"]);
+    const landing = await readFile(join(output, "index.md"), "utf-8");
+    expect(landing).toContain("Reference documentation for 1 APIs.");
+    expect(landing).not.toContain("broken");
+  });
+});
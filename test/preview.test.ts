@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdir, readFile, writeFile, rm, readdir } from "fs/promises";
+import { resolve, join } from "path";
+import { tmpdir } from "os";
+import { createScriptedBackend } from "../src/backends/scripted.js";
+import type { ScriptedRequest } from "../src/backends/scripted.js";
+import { generate } from "../src/generate.js";
+import { previewGenerate, formatPreview } from "../src/preview.js";
+import { readManifest, writeManifest } from "../src/manifest.js";
+import { petDocs } from "./fixtures/pet-docs.js";
+
+const FIXTURE = resolve(import.meta.dirname, "fixtures/petstore.yaml");
+const OUTPUT_DIR = resolve(join(tmpdir(), "opper-docs-preview-test"));
+const output = join(OUTPUT_DIR, "docs");
+const changedSpec = join(OUTPUT_DIR, "petstore.yaml");
+
+// The pets page is also written from the Pet schema
+function petDocsWithSchemas(request: ScriptedRequest) {
+  const answer = petDocs(request);
+  if (request.agent !== "doc-planner") return answer;
+  const { sections } = answer as { sections: { id: string }[] };
+  return { sections: sections.map((s) => (s.id === "tag:pets" ? { ...s, relatedSchemas: ["Pet"] } : s)) };
+}
+
+beforeAll(async () => {
+  await mkdir(OUTPUT_DIR, { recursive: true });
+  const spec = await readFile(FIXTURE, "utf-8");
+  // Same structure, one more property on Pet
+  const age = "        age:\n          type: integer\n";
+  await writeFile(changedSpec, spec.replace("        tag:\n          type: string\n", `$&${age}`));
+  await generate({ spec: FIXTURE, output, mode: "ai" }, { backend: createScriptedBackend(petDocsWithSchemas) });
+});
+
+afterAll(async () => {
+  await rm(OUTPUT_DIR, { recursive: true, force: true });
+});
+
+describe("previewGenerate", () => {
+  it("reports everything cached while spec and instructions are unchanged", async () => {
+    const preview = await previewGenerate({ spec: FIXTURE, output, mode: "ai" });
+
+    const [root] = preview.outputs;
+    expect(root.plan.source).toBe("unchanged");
+    expect(root.sections.map((s) => [s.outputPath, s.reason])).toEqual([
+      ["index.md", undefined],
+      ["endpoints/pets.md", undefined],
+    ]);
+    expect(root.orphans).toEqual([]);
+  });
+
+  it("names the inputs that changed and the files that would be deleted, without writing", async () => {
+    const manifest = (await readManifest(output))!;
+    manifest.sections["tag:legacy"] = { ...manifest.sections["tag:pets"], outputPath: "endpoints/legacy.md" };
+    await writeManifest(output, manifest);
+    const before = await readdir(join(output, "endpoints"));
+
+    const backend = createScriptedBackend(petDocs);
+    const preview = await previewGenerate({ spec: changedSpec, output, mode: "ai" }, { backend });
+
+    // The structure didn't change, so the saved plan is reused and nothing is called
+    expect(backend.calls).toEqual([]);
+    const [root] = preview.outputs;
+    expect(root.plan).toEqual({ source: "saved" });
+    const pets = root.sections.find((s) => s.id === "tag:pets")!;
+    expect(pets.reason).toBe("content changed");
+    expect(pets.changes).toEqual(["pets endpoints changed", "schema Pet changed"]);
+    expect(root.orphans).toEqual(["endpoints/legacy.md"]);
+    expect(await readdir(join(output, "endpoints"))).toEqual(before);
+    expect((await readManifest(output))!.sections["tag:legacy"]).toBeDefined();
+
+    const report = formatPreview(preview);
+    expect(report).toMatch(/regenerate\s+Pets \(endpoints\/pets\.md\), content changed: .*schema Pet changed/);
+    expect(report).toContain("delete      endpoints/legacy.md");
+  });
+
+  it("runs the planner when the structure changed, unless told to reuse the plan", async () => {
+    const forced = { spec: FIXTURE, output, mode: "ai" as const, replan: true, force: true };
+
+    const backend = createScriptedBackend(petDocs);
+    const planned = await previewGenerate(forced, { backend });
+    expect(backend.calls.map((c) => c.agent)).toEqual(["doc-planner"]);
+    expect(planned.outputs[0].plan).toEqual({ source: "planner" });
+    expect(planned.outputs[0].sections.every((s) => s.reason === "forced")).toBe(true);
+
+    const reused = await previewGenerate(forced, { reusePlan: true });
+    expect(reused.outputs[0].plan).toEqual({ source: "reference", plannerSkipped: true });
+  });
+});
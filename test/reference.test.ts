@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { buildSpecIndex } from "../src/spec-index.js";
+import type { SpecIndex } from "../src/spec-index.js";
+import { planReference, renderReferenceSection } from "../src/reference.js";
+import { validateExamples } from "../src/validate.js";
+import { generate } from "../src/generate.js";
+import { renderSite } from "../src/renderer.js";
+import { readManifest } from "../src/manifest.js";
+import { readFile, rm } from "fs/promises";
+import { resolve, join } from "path";
+import { tmpdir } from "os";
+
+const FIXTURE = resolve(import.meta.dirname, "fixtures/petstore.yaml");
+const OUTPUT_DIR = resolve(join(tmpdir(), "opper-docs-reference-test"));
+
+let specIndex: SpecIndex;
+
+beforeAll(async () => {
+  specIndex = await buildSpecIndex(FIXTURE);
+});
+
+afterAll(async () => {
+  await rm(OUTPUT_DIR, { recursive: true, force: true });
+});
+
+describe("planReference", () => {
+  it("plans overview, auth, one page per tag, schemas and errors", () => {
+    const plan = planReference(specIndex);
+    expect(plan.sections.map((s) => [s.id, s.outputPath])).toEqual([
+      ["overview", "index.md"],
+      ["auth", "authentication.md"],
+      ["tag:pets", "endpoints/pets.md"],
+      ["tag:store", "endpoints/store.md"],
+      ["tag:untagged", "endpoints/untagged.md"],
+      ["schemas", "schemas.md"],
+      ["errors", "errors.md"],
+    ]);
+  });
+});
+
+describe("renderReferenceSection", () => {
+  it("documents every operation of a tag with tables, examples and samples", () => {
+    const plan = planReference(specIndex);
+    const pets = plan.sections.find((s) => s.id === "tag:pets")!;
+    const markdown = renderReferenceSection(pets, plan, specIndex);
+
+    expect(markdown).toMatch(/^# Pets\n/);
+    expect(markdown).toContain("## Create a pet\n\n`POST /pets`");
+    expect(markdown).toContain("| `limit` | query | integer | No |");
+    expect(markdown).toContain("| `name` | string | Yes |");
+    expect(markdown).toContain("| `201` | Pet created |");
+    expect(markdown).toContain("[Pet](../schemas.md#pet)");
+    expect(markdown).toContain("<!-- code-samples -->");
+    expect(validateExamples(markdown, specIndex)).toEqual([]);
+  });
+
+  it("lists error statuses with the operations that return them", () => {
+    const plan = planReference(specIndex);
+    const errors = plan.sections.find((s) => s.id === "errors")!;
+    const markdown = renderReferenceSection(errors, plan, specIndex);
+
+    expect(markdown).toContain("| `404` | Pet not found | `GET /pets/{petId}` |");
+  });
+
+  it("documents webhooks and callbacks with their payloads", async () => {
+    const events = await buildSpecIndex(resolve(import.meta.dirname, "fixtures/events.yaml"));
+    const plan = planReference(events);
+    expect(plan.sections.map((s) => s.id)).toEqual([
+      "overview",
+      "tag:subscriptions",
+      "tag:orders",
+      "webhooks",
+      "schemas",
+    ]);
+
+    const webhooks = plan.sections.find((s) => s.id === "webhooks")!;
+    const markdown = renderReferenceSection(webhooks, plan, events);
+    expect(markdown).toMatch(/^# Webhooks\n/);
+    expect(markdown).toContain("### An order was created\n\n`POST orderCreated`");
+    expect(markdown).toContain("### Event notification\n\n`POST {$request.body#/callbackUrl}`");
+    expect(markdown).toContain("Registered by [`POST /subscriptions`](endpoints/subscriptions.md)");
+    expect(markdown).toContain("Schema: [Event](schemas.md#event)");
+    expect(markdown).toContain('"type": "string"');
+    expect(markdown).toContain("| `id` | string | Yes |");
+    expect(markdown).toContain("| `200` | Acknowledged |");
+  });
+
+  it("renders the same markdown every time", () => {
+    const plan = planReference(specIndex);
+    for (const section of plan.sections) {
+      expect(renderReferenceSection(section, plan, specIndex)).toBe(
+        renderReferenceSection(section, planReference(specIndex), specIndex)
+      );
+    }
+  });
+});
+
+describe("generate in reference mode", () => {
+  it("writes docs and a manifest the renderer can build, without an LLM", async () => {
+    await generate({ spec: FIXTURE, output: OUTPUT_DIR, mode: "reference" });
+
+    const manifest = await readManifest(OUTPUT_DIR);
+    expect(Object.keys(manifest!.sections)).toContain("tag:pets");
+    expect(manifest!.plan).toBeUndefined();
+
+    const siteDir = await renderSite(OUTPUT_DIR, { strictLinks: true });
+    const html = await readFile(join(siteDir, "endpoints/pets.html"), "utf-8");
+    expect(html).toContain('<div class="code-tabs">');
+  });
+});
@@ -1,12 +1,17 @@
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
 import { renderSite } from "../src/renderer.js";
 import { writeManifest } from "../src/manifest.js";
-import { writeFile, mkdir, readFile, rm } from "fs/promises";
+import { writeFile, mkdir, readFile, rm, access } from "fs/promises";
 import { resolve, join } from "path";
 import { tmpdir } from "os";
 
 const TEST_DIR = resolve(join(tmpdir(), "opper-docs-renderer-test"));
 const BRANDED_DIR = resolve(join(tmpdir(), "opper-docs-renderer-branded-test"));
+const PORTAL_DIR = resolve(join(tmpdir(), "opper-docs-renderer-portal-test"));
+const VERSIONED_DIR = resolve(join(tmpdir(), "opper-docs-renderer-versioned-test"));
+const LINKS_DIR = resolve(join(tmpdir(), "opper-docs-renderer-links-test"));
+const GUIDES_DIR = resolve(join(tmpdir(), "opper-docs-renderer-guides-test"));
+const LOCALES_DIR = resolve(join(tmpdir(), "opper-docs-renderer-locales-test"));
 
 beforeAll(async () => {
   await mkdir(join(TEST_DIR, "endpoints"), { recursive: true });
@@ -60,7 +65,10 @@ beforeAll(async () => {
   await writeFile(join(TEST_DIR, "index.md"), "# Overview\n\nWelcome.\n\nSee [Authentication](authentication.md) and [Pets](endpoints/pets.md#list-pets).\n\n```bash\ncurl https://api.example.com\n```\n");
   await writeFile(join(TEST_DIR, "authentication.md"), "# Authentication\n\nUse Bearer tokens.\n");
   await writeFile(join(TEST_DIR, "endpoints/pets.md"), "# Pets\n\n## List Pets\n\n`GET /pets`\n\n## Create Pet\n\n`POST /pets`\n\n### Request Body\n\nJSON body.\n");
-  await writeFile(join(TEST_DIR, "endpoints/stores.md"), "# Stores\n\n`GET /stores`\n");
+  await writeFile(
+    join(TEST_DIR, "endpoints/stores.md"),
+    "# Stores\n\n`GET /stores`\n\n<!-- code-samples -->\n\n```bash\ncurl https://api.example.com/stores\n```\n\n```python\nrequests.get(\"https://api.example.com/stores\")\n```\n\n```python httpx\nhttpx.get(\"https://api.example.com/stores\")\n```\n\n<!-- /code-samples -->\n"
+  );
   await writeFile(join(TEST_DIR, "endpoints/chat.md"), "# Chat\n\n`POST /chat`\n");
 });
 
@@ -121,6 +129,21 @@ describe("renderSite", () => {
     expect(indexHtml).toContain("shiki");
   });
 
+  it("renders code sample groups as language tabs", async () => {
+    const siteDir = await renderSite(TEST_DIR);
+    const storesHtml = await readFile(join(siteDir, "endpoints/stores.html"), "utf-8");
+    const indexHtml = await readFile(join(siteDir, "index.html"), "utf-8");
+
+    expect(storesHtml).toContain('<div class="code-tabs">');
+    expect(storesHtml).toContain('<button type="button" class="code-tab active" data-lang="bash">cURL</button>');
+    expect(storesHtml).toContain('<button type="button" class="code-tab" data-lang="python">Python</button>');
+    expect(storesHtml).toContain('class="code-tab-panel" data-lang="python"');
+    expect(storesHtml).toContain('<button type="button" class="code-tab" data-lang="python-httpx">Python (httpx)</button>');
+    expect(storesHtml).toContain("localStorage");
+    // Code blocks outside a sample group stay as they are
+    expect(indexHtml).not.toContain("code-tabs");
+  });
+
   it("handles relative paths for nested pages", async () => {
     const siteDir = await renderSite(TEST_DIR);
     const petsHtml = await readFile(join(siteDir, "endpoints/pets.html"), "utf-8");
@@ -332,3 +355,407 @@ describe("renderSite with branding", () => {
     expect(css).toContain(".logo-icon");
   });
 });
+
+describe("renderSite with multiple specs", () => {
+  beforeAll(async () => {
+    await mkdir(join(PORTAL_DIR, "billing/endpoints"), { recursive: true });
+    await mkdir(join(PORTAL_DIR, "users"), { recursive: true });
+
+    await writeManifest(PORTAL_DIR, {
+      version: 1,
+      specHash: "abc",
+      instructionsHash: "def",
+      sections: {
+        landing: {
+          contentHash: "aaa",
+          outputPath: "index.md",
+          title: "Home",
+          order: 0,
+          generatedAt: new Date().toISOString(),
+        },
+      },
+      specs: {
+        users: { output: "users", title: "Users API", group: "Identity", order: 1 },
+        billing: { output: "billing", title: "Billing API", group: "Payments", order: 0 },
+      },
+    });
+
+    await writeManifest(join(PORTAL_DIR, "billing"), {
+      version: 1,
+      specHash: "b",
+      instructionsHash: "def",
+      sections: {
+        "tag:invoices": {
+          contentHash: "bbb",
+          outputPath: "endpoints/invoices.md",
+          title: "Invoices",
+          group: "Core",
+          order: 1,
+          generatedAt: new Date().toISOString(),
+        },
+        overview: {
+          contentHash: "ccc",
+          outputPath: "index.md",
+          title: "Overview",
+          order: 0,
+          generatedAt: new Date().toISOString(),
+        },
+      },
+    });
+
+    await writeManifest(join(PORTAL_DIR, "users"), {
+      version: 1,
+      specHash: "u",
+      instructionsHash: "def",
+      sections: {
+        overview: {
+          contentHash: "ddd",
+          outputPath: "index.md",
+          title: "Overview",
+          order: 0,
+          generatedAt: new Date().toISOString(),
+        },
+      },
+    });
+
+    await writeFile(join(PORTAL_DIR, "index.md"), "# API Docs\n\n| API |\n|-----|\n| [Billing API](billing/index.md) |\n");
+    await writeFile(join(PORTAL_DIR, "billing/index.md"), "# Billing API\n\nBilling overview. See [Invoices](endpoints/invoices.md).\n");
+    await writeFile(join(PORTAL_DIR, "billing/endpoints/invoices.md"), "# Invoices\n\n`GET /invoices`\n");
+    await writeFile(join(PORTAL_DIR, "users/index.md"), "# Users API\n\nUsers overview.\n");
+  });
+
+  afterAll(async () => {
+    await rm(PORTAL_DIR, { recursive: true, force: true });
+  });
+
+  it("renders pages from every spec into one site", async () => {
+    const siteDir = await renderSite(PORTAL_DIR);
+
+    expect(await readFile(join(siteDir, "index.html"), "utf-8")).toContain('href="billing/index.html"');
+    expect(await readFile(join(siteDir, "billing/index.html"), "utf-8")).toContain("Billing overview.");
+    expect(await readFile(join(siteDir, "billing/endpoints/invoices.html"), "utf-8")).toContain("GET /invoices");
+    expect(await readFile(join(siteDir, "users/index.html"), "utf-8")).toContain("Users overview.");
+  });
+
+  it("groups each spec's pages under its nav group in spec order", async () => {
+    const siteDir = await renderSite(PORTAL_DIR);
+    const indexHtml = await readFile(join(siteDir, "index.html"), "utf-8");
+    const sidebar = indexHtml.match(/<nav class="sidebar">([\s\S]*?)<\/nav>/)![1];
+
+    expect(sidebar).toContain("Payments");
+    expect(sidebar).toContain("Identity");
+    expect(sidebar.indexOf("Payments")).toBeLessThan(sidebar.indexOf("Identity"));
+    expect(sidebar).toContain('href="./billing/endpoints/invoices.html"');
+    expect(sidebar).not.toContain(">Core<");
+  });
+
+  it("keeps relative links working inside nested spec pages", async () => {
+    const siteDir = await renderSite(PORTAL_DIR);
+    const billingHtml = await readFile(join(siteDir, "billing/index.html"), "utf-8");
+
+    expect(billingHtml).toContain('href="endpoints/invoices.html"');
+    expect(billingHtml).toContain("../style.css");
+  });
+
+  it("generates one combined llms.txt with a heading per spec", async () => {
+    const siteDir = await renderSite(PORTAL_DIR);
+    const llmsTxt = await readFile(join(siteDir, "llms.txt"), "utf-8");
+
+    expect(llmsTxt).toContain("## Billing API");
+    expect(llmsTxt).toContain("## Users API");
+    expect(llmsTxt).toContain("(billing/endpoints/invoices.md)");
+    expect(llmsTxt).toContain("(users/index.md)");
+  });
+});
+
+describe("renderSite with multiple versions", () => {
+  beforeAll(async () => {
+    await mkdir(join(VERSIONED_DIR, "v1/endpoints"), { recursive: true });
+    await mkdir(join(VERSIONED_DIR, "v2/endpoints"), { recursive: true });
+
+    await writeManifest(VERSIONED_DIR, {
+      version: 1,
+      specHash: "abc",
+      instructionsHash: "def",
+      sections: {},
+      versions: ["v1", "v2"],
+      latestVersion: "v2",
+    });
+
+    const section = (outputPath: string, title: string, order: number) => ({
+      contentHash: "x",
+      outputPath,
+      title,
+      order,
+      generatedAt: new Date().toISOString(),
+    });
+
+    await writeManifest(join(VERSIONED_DIR, "v1"), {
+      version: 1,
+      specHash: "1",
+      instructionsHash: "def",
+      sections: {
+        overview: section("index.md", "Overview", 0),
+        "tag:pets": section("endpoints/pets.md", "Pets", 1),
+        "tag:legacy": section("endpoints/legacy.md", "Legacy", 2),
+      },
+    });
+    await writeManifest(join(VERSIONED_DIR, "v2"), {
+      version: 1,
+      specHash: "2",
+      instructionsHash: "def",
+      sections: {
+        overview: section("index.md", "Overview", 0),
+        "tag:pets": section("endpoints/pets.md", "Pets", 1),
+      },
+    });
+
+    await writeFile(join(VERSIONED_DIR, "v1/index.md"), "# Overview\n\nVersion one.\n");
+    await writeFile(join(VERSIONED_DIR, "v1/endpoints/pets.md"), "# Pets\n\nv1 pets.\n");
+    await writeFile(join(VERSIONED_DIR, "v1/endpoints/legacy.md"), "# Legacy\n\nOld stuff.\n");
+    await writeFile(join(VERSIONED_DIR, "v2/index.md"), "# Overview\n\nVersion two.\n");
+    await writeFile(join(VERSIONED_DIR, "v2/endpoints/pets.md"), "# Pets\n\nv2 pets.\n");
+  });
+
+  afterAll(async () => {
+    await rm(VERSIONED_DIR, { recursive: true, force: true });
+  });
+
+  it("renders each version into its own subdirectory", async () => {
+    const siteDir = await renderSite(VERSIONED_DIR);
+
+    expect(await readFile(join(siteDir, "v1/index.html"), "utf-8")).toContain("Version one.");
+    expect(await readFile(join(siteDir, "v2/index.html"), "utf-8")).toContain("Version two.");
+    expect(await readFile(join(siteDir, "v1/style.css"), "utf-8")).toContain(".version-switcher");
+  });
+
+  it("renders a latest alias and redirects the root to it", async () => {
+    const siteDir = await renderSite(VERSIONED_DIR);
+
+    expect(await readFile(join(siteDir, "latest/endpoints/pets.html"), "utf-8")).toContain("v2 pets.");
+    expect(await readFile(join(siteDir, "index.html"), "utf-8")).toContain('url=latest/index.html');
+  });
+
+  it("adds a version switcher that keeps the current page when it exists", async () => {
+    const siteDir = await renderSite(VERSIONED_DIR);
+    const petsHtml = await readFile(join(siteDir, "v1/endpoints/pets.html"), "utf-8");
+
+    expect(petsHtml).toContain('class="version-switcher"');
+    expect(petsHtml).toContain('<option value="../../v1/endpoints/pets.html" selected>v1</option>');
+    expect(petsHtml).toContain('<option value="../../v2/endpoints/pets.html">v2 (latest)</option>');
+  });
+
+  it("falls back to the version's first page when the page doesn't exist there", async () => {
+    const siteDir = await renderSite(VERSIONED_DIR);
+    const legacyHtml = await readFile(join(siteDir, "v1/endpoints/legacy.html"), "utf-8");
+
+    expect(legacyHtml).toContain('<option value="../../v2/index.html">v2 (latest)</option>');
+  });
+
+  it("checks the links of the latest alias too", async () => {
+    await writeFile(join(VERSIONED_DIR, "v2/endpoints/pets.md"), "# Pets\n\nv2 pets. See [v1](../../v1/endpoints/gone.md).\n");
+    const siteDir = await renderSite(VERSIONED_DIR);
+    await writeFile(join(VERSIONED_DIR, "v2/endpoints/pets.md"), "# Pets\n\nv2 pets.\n");
+    const report = JSON.parse(await readFile(join(siteDir, ".openapi-docs-links.json"), "utf-8"));
+
+    expect(report.issues.map((issue: { page: string }) => issue.page)).toContain("latest/endpoints/pets.html");
+  });
+
+  it("keeps each version's sidebar to its own pages", async () => {
+    const siteDir = await renderSite(VERSIONED_DIR);
+    const v2Html = await readFile(join(siteDir, "v2/index.html"), "utf-8");
+
+    expect(v2Html).not.toContain("legacy.html");
+  });
+});
+
+describe("renderSite link checking", () => {
+  beforeAll(async () => {
+    await mkdir(LINKS_DIR, { recursive: true });
+    await writeManifest(LINKS_DIR, {
+      version: 1,
+      specHash: "abc",
+      instructionsHash: "def",
+      sections: {
+        overview: {
+          contentHash: "aaa",
+          outputPath: "index.md",
+          title: "Overview",
+          order: 0,
+          generatedAt: new Date().toISOString(),
+        },
+        pets: {
+          contentHash: "bbb",
+          outputPath: "pets.md",
+          title: "Pets",
+          order: 1,
+          generatedAt: new Date().toISOString(),
+        },
+      },
+    });
+    await writeFile(
+      join(LINKS_DIR, "index.md"),
+      "# Overview\n\nSee [listing](pets.md#list-pets), [creating](pets.md#create-pets) and [orders](orders.md).\n"
+    );
+    await writeFile(join(LINKS_DIR, "pets.md"), "# Pets\n\n## List Pets\n\n## Create a Pet\n\nBack to [overview](index.md).\n");
+  });
+
+  afterAll(async () => {
+    await rm(LINKS_DIR, { recursive: true, force: true });
+  });
+
+  it("writes a report of broken pages and anchors into the site", async () => {
+    await renderSite(LINKS_DIR);
+    await expect(access(join(LINKS_DIR, ".openapi-docs-links.json"))).rejects.toThrow();
+    const report = JSON.parse(await readFile(join(LINKS_DIR, "_site/.openapi-docs-links.json"), "utf-8"));
+
+    expect(report.checked).toBe(4);
+    expect(report.issues).toEqual([
+      { page: "index.html", href: "pets.html#create-pets", kind: "missing-anchor" },
+      { page: "index.html", href: "orders.html", kind: "missing-page" },
+    ]);
+  });
+
+  it("fails in strict mode", async () => {
+    await expect(renderSite(LINKS_DIR, { strictLinks: true })).rejects.toThrow(/2 broken link/);
+  });
+
+  it("rewrites near-miss anchors when fixing is enabled", async () => {
+    const siteDir = await renderSite(LINKS_DIR, { fixAnchors: true });
+    const indexHtml = await readFile(join(siteDir, "index.html"), "utf-8");
+    const report = JSON.parse(await readFile(join(LINKS_DIR, "_site/.openapi-docs-links.json"), "utf-8"));
+
+    expect(indexHtml).toContain('href="pets.html#create-a-pet"');
+    expect(report.issues[0].fixedTo).toBe("create-a-pet");
+  });
+});
+
+describe("renderSite with guides", () => {
+  beforeAll(async () => {
+    await mkdir(join(GUIDES_DIR, "guides"), { recursive: true });
+    await writeManifest(GUIDES_DIR, {
+      version: 1,
+      specHash: "abc",
+      instructionsHash: "def",
+      sections: {
+        overview: {
+          contentHash: "aaa",
+          outputPath: "index.md",
+          title: "Overview",
+          order: 0,
+          generatedAt: new Date().toISOString(),
+        },
+        errors: {
+          contentHash: "bbb",
+          outputPath: "errors.md",
+          title: "Errors",
+          order: 2,
+          generatedAt: new Date().toISOString(),
+        },
+      },
+      guides: {
+        "guide:quickstart": {
+          contentHash: "ccc",
+          outputPath: "guides/quickstart.md",
+          title: "Quickstart",
+          group: "Guides",
+          order: 1,
+          generatedAt: new Date().toISOString(),
+        },
+      },
+    });
+    await writeFile(join(GUIDES_DIR, "index.md"), "# Overview\n\nStart with the [quickstart](guides/quickstart.md).\n");
+    await writeFile(join(GUIDES_DIR, "errors.md"), "# Errors\n");
+    await writeFile(join(GUIDES_DIR, "guides/quickstart.md"), "# Quickstart\n\nHand-written.\n");
+  });
+
+  afterAll(async () => {
+    await rm(GUIDES_DIR, { recursive: true, force: true });
+  });
+
+  it("renders guides in the nav, ordered with generated sections", async () => {
+    const siteDir = await renderSite(GUIDES_DIR);
+    const guideHtml = await readFile(join(siteDir, "guides/quickstart.html"), "utf-8");
+    const indexHtml = await readFile(join(siteDir, "index.html"), "utf-8");
+
+    expect(guideHtml).toContain("Hand-written.");
+    expect(indexHtml).toContain('<span class="nav-group-label">Guides</span>');
+    expect(indexHtml.indexOf("guides/quickstart.html")).toBeLessThan(indexHtml.indexOf("errors.html\">Errors"));
+  });
+});
+
+describe("renderSite with locales", () => {
+  const section = (outputPath: string, title: string, order: number) => ({
+    contentHash: "aaa",
+    outputPath,
+    title,
+    order,
+    generatedAt: new Date().toISOString(),
+  });
+
+  beforeAll(async () => {
+    await mkdir(join(LOCALES_DIR, "de"), { recursive: true });
+    await writeManifest(LOCALES_DIR, {
+      version: 1,
+      specHash: "abc",
+      instructionsHash: "def",
+      sections: {
+        overview: section("index.md", "Overview", 0),
+        auth: section("authentication.md", "Authentication", 1),
+      },
+      locales: ["de"],
+      defaultLocale: "en",
+    });
+    await writeManifest(join(LOCALES_DIR, "de"), {
+      version: 1,
+      specHash: "abc",
+      instructionsHash: "ghi",
+      sections: {
+        overview: section("index.md", "Überblick", 0),
+      },
+      locale: "de",
+    });
+    await writeFile(join(LOCALES_DIR, "index.md"), "# Overview\n\n## Getting started\n");
+    await writeFile(join(LOCALES_DIR, "authentication.md"), "# Authentication\n");
+    await writeFile(
+      join(LOCALES_DIR, "de/index.md"),
+      "# Überblick\n\n## Erste Schritte {#getting-started}\n\nSiehe [Start](index.md#getting-started).\n"
+    );
+  });
+
+  afterAll(async () => {
+    await rm(LOCALES_DIR, { recursive: true, force: true });
+  });
+
+  it("renders each locale with its own <html lang>", async () => {
+    const siteDir = await renderSite(LOCALES_DIR);
+    const enHtml = await readFile(join(siteDir, "index.html"), "utf-8");
+    const deHtml = await readFile(join(siteDir, "de/index.html"), "utf-8");
+
+    expect(enHtml).toContain('<html lang="en">');
+    expect(deHtml).toContain('<html lang="de">');
+    expect(deHtml).toContain("Überblick");
+  });
+
+  it("adds a language switcher that links to the same page in other locales", async () => {
+    const siteDir = await renderSite(LOCALES_DIR);
+    const enAuth = await readFile(join(siteDir, "authentication.html"), "utf-8");
+    const deHtml = await readFile(join(siteDir, "de/index.html"), "utf-8");
+
+    expect(deHtml).toContain('aria-label="Language"');
+    expect(deHtml).toContain('<option value="./../index.html">English</option>');
+    expect(deHtml).toContain('<option value="./../de/index.html" selected>Deutsch</option>');
+    // Pages missing from a locale fall back to its first page
+    expect(enAuth).toContain('<option value="./de/index.html">Deutsch</option>');
+  });
+
+  it("uses explicit heading ids from translations", async () => {
+    const siteDir = await renderSite(LOCALES_DIR);
+    const deHtml = await readFile(join(siteDir, "de/index.html"), "utf-8");
+    const report = JSON.parse(await readFile(join(LOCALES_DIR, "_site/.openapi-docs-links.json"), "utf-8"));
+
+    expect(deHtml).toContain('<h2 id="getting-started">Erste Schritte</h2>');
+    expect(deHtml).not.toContain("{#getting-started}");
+    expect(report.issues).toEqual([]);
+  });
+});
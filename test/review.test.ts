@@ -0,0 +1,91 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { readFile, rm } from "fs/promises";
+import { resolve, join } from "path";
+import { tmpdir } from "os";
+import { createScriptedBackend } from "../src/backends/scripted.js";
+import type { ScriptedRequest } from "../src/backends/scripted.js";
+import type { WriterInput } from "../src/agents/writer.js";
+import type { ReviewerInput } from "../src/agents/reviewer.js";
+import { generate } from "../src/generate.js";
+import { readManifest } from "../src/manifest.js";
+import { petDocs } from "./fixtures/pet-docs.js";
+
+const FIXTURE = resolve(import.meta.dirname, "fixtures/petstore.yaml");
+const OUTPUT_DIR = resolve(join(tmpdir(), "opper-docs-review-test"));
+
+afterAll(async () => {
+  await rm(OUTPUT_DIR, { recursive: true, force: true });
+});
+
+/**
+ * Writes numbered drafts, and has the reviewer give the pets page the next
+ * of `scores` (the overview always passes)
+ */
+function reviewedDocs(scores: number[]) {
+  const drafts = new Map<string, number>();
+  return (request: ScriptedRequest) => {
+    if (request.agent === "doc-writer") {
+      const { section } = request.input as WriterInput;
+      const draft = (drafts.get(section.id) ?? 0) + 1;
+      drafts.set(section.id, draft);
+      return { title: section.title, markdown: `Draft ${draft}.` };
+    }
+    if (request.agent === "doc-reviewer") {
+      const { section } = request.input as ReviewerInput;
+      if (section.id !== "tag:pets") return { score: 9, issues: [] };
+      return { score: scores.shift()!, issues: [{ category: "accuracy", message: "Wrong status code" }] };
+    }
+    return petDocs(request);
+  };
+}
+
+function petsWriterInputs(backend: ReturnType<typeof createScriptedBackend>): WriterInput[] {
+  return backend.calls
+    .filter((c) => c.agent === "doc-writer" && (c.input as WriterInput).section.id === "tag:pets")
+    .map((c) => c.input as WriterInput);
+}
+
+describe("generate with review", () => {
+  it("sends a low-scoring section back with the critique until it passes", async () => {
+    const output = join(OUTPUT_DIR, "revised");
+    const backend = createScriptedBackend(reviewedDocs([4, 8]));
+
+    await generate({ spec: FIXTURE, output, mode: "ai", review: true }, { backend });
+
+    const rewrites = petsWriterInputs(backend);
+    expect(rewrites).toHaveLength(2);
+    expect(rewrites[1].draft).toContain("Draft 1.");
+    expect(rewrites[1].feedback).toEqual(["accuracy: Wrong status code"]);
+    expect(await readFile(join(output, "endpoints/pets.md"), "utf-8")).toContain("Draft 2.");
+    expect((await readManifest(output))!.sections["tag:pets"].review).toEqual({
+      score: 8,
+      issues: [{ category: "accuracy", message: "Wrong status code" }],
+      revisions: 1,
+    });
+  });
+
+  it("stops at the first draft that reaches the threshold", async () => {
+    const output = join(OUTPUT_DIR, "passed");
+    const backend = createScriptedBackend(reviewedDocs([7]));
+
+    await generate({ spec: FIXTURE, output, mode: "ai", review: true }, { backend });
+
+    expect(petsWriterInputs(backend)).toHaveLength(1);
+    expect(backend.calls.filter((c) => c.agent === "doc-reviewer")).toHaveLength(2);
+    const { sections } = (await readManifest(output))!;
+    expect(sections["tag:pets"].review).toMatchObject({ score: 7, revisions: 0 });
+    expect(sections.overview.review).toEqual({ score: 9, issues: [], revisions: 0 });
+  });
+
+  it("keeps the last draft when the revision rounds run out", async () => {
+    const output = join(OUTPUT_DIR, "exhausted");
+    const backend = createScriptedBackend(reviewedDocs([2, 3, 5]));
+
+    await generate({ spec: FIXTURE, output, mode: "ai", review: true }, { backend });
+
+    // The first draft and the default two revisions
+    expect(petsWriterInputs(backend)).toHaveLength(3);
+    expect(await readFile(join(output, "endpoints/pets.md"), "utf-8")).toContain("Draft 3.");
+    expect((await readManifest(output))!.sections["tag:pets"].review).toMatchObject({ score: 5, revisions: 2 });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { buildSpecIndex, findEndpoint } from "../src/spec-index.js";
+import { searchSpec } from "../src/search.js";
+import { resolve } from "path";
+
+const FIXTURE = resolve(import.meta.dirname, "fixtures/petstore.yaml");
+const EVENTS_FIXTURE = resolve(import.meta.dirname, "fixtures/events.yaml");
+
+describe("searchSpec", () => {
+  it("finds operations by parameter name", async () => {
+    const index = await buildSpecIndex(FIXTURE);
+    const hits = searchSpec(index, "limit");
+    expect(hits[0]).toMatchObject({
+      kind: "operation",
+      method: "get",
+      path: "/pets",
+      operationId: "listPets",
+    });
+    expect(hits[0].matches).toContain("parameter limit");
+  });
+
+  it("ranks summary matches above nested property matches", async () => {
+    const index = await buildSpecIndex(FIXTURE);
+    const hits = searchSpec(index, "inventory");
+    expect(hits[0]).toMatchObject({ kind: "operation", path: "/store/inventory" });
+  });
+
+  it("finds schemas by property name", async () => {
+    const index = await buildSpecIndex(FIXTURE);
+    const hits = searchSpec(index, "tag");
+    const schemaNames = hits.filter((h) => h.kind === "schema").map((h) => (h as { name: string }).name);
+    expect(schemaNames).toEqual(expect.arrayContaining(["Pet", "CreatePetRequest"]));
+  });
+
+  it("finds enum values", async () => {
+    const index = await buildSpecIndex(FIXTURE);
+    index.schemas.get("Pet")!.properties!.status = { type: "string", enum: ["available", "adopted"] };
+    const hits = searchSpec(index, "adopted");
+    expect(hits[0]).toMatchObject({ kind: "schema", name: "Pet", matches: ["enum"] });
+  });
+
+  it("splits camelCase identifiers", async () => {
+    const index = await buildSpecIndex(FIXTURE);
+    const hits = searchSpec(index, "check");
+    expect(hits[0]).toMatchObject({ operationId: "healthCheck" });
+  });
+
+  it("prefers hits matching every term", async () => {
+    const index = await buildSpecIndex(FIXTURE);
+    const hits = searchSpec(index, "get pet");
+    expect(hits[0]).toMatchObject({ operationId: "getPet" });
+  });
+
+  it("searches webhooks", async () => {
+    const index = await buildSpecIndex(EVENTS_FIXTURE);
+    const hits = searchSpec(index, "order created");
+    expect(hits[0]).toMatchObject({ kind: "webhook", path: "orderCreated", method: "post" });
+  });
+
+  it("returns nothing for unmatched or empty queries", async () => {
+    const index = await buildSpecIndex(FIXTURE);
+    expect(searchSpec(index, "zebra")).toEqual([]);
+    expect(searchSpec(index, "  ")).toEqual([]);
+  });
+
+  it("respects the limit", async () => {
+    const index = await buildSpecIndex(FIXTURE);
+    expect(searchSpec(index, "pet", 2)).toHaveLength(2);
+  });
+});
+
+describe("findEndpoint", () => {
+  it("finds an endpoint by operationId", async () => {
+    const index = await buildSpecIndex(FIXTURE);
+    expect(findEndpoint(index, { operationId: "createPet" })).toMatchObject({ method: "post", path: "/pets" });
+  });
+
+  it("finds an endpoint by method and path", async () => {
+    const index = await buildSpecIndex(FIXTURE);
+    const endpoint = findEndpoint(index, { method: "GET", path: "/pets/{petId}" });
+    expect(endpoint?.operation.operationId).toBe("getPet");
+  });
+
+  it("returns undefined when nothing matches", async () => {
+    const index = await buildSpecIndex(FIXTURE);
+    expect(findEndpoint(index, { operationId: "nope" })).toBeUndefined();
+  });
+});
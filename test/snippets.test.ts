@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import type { OpenAPIV3 } from "openapi-types";
+import { buildSpecIndex, findEndpoint } from "../src/spec-index.js";
+import type { SpecIndex, EndpointInfo } from "../src/spec-index.js";
+import {
+  generateSnippets,
+  snippetOptionsFor,
+  formatSamplesMarkdown,
+  insertMissingSamples,
+  SNIPPET_LANGUAGES,
+} from "../src/snippets.js";
+import { validateExamples } from "../src/validate.js";
+import { resolve } from "path";
+
+const FIXTURE = resolve(import.meta.dirname, "fixtures/petstore.yaml");
+
+let specIndex: SpecIndex;
+let createPet: EndpointInfo;
+let getPet: EndpointInfo;
+
+beforeAll(async () => {
+  specIndex = await buildSpecIndex(FIXTURE);
+  createPet = findEndpoint(specIndex, { operationId: "createPet" })!;
+  getPet = findEndpoint(specIndex, { operationId: "getPet" })!;
+});
+
+describe("generateSnippets", () => {
+  it("builds a curl command with server, auth and example body", () => {
+    const [curl] = generateSnippets(createPet, snippetOptionsFor(createPet, specIndex, ["curl"]));
+    expect(curl.fence).toBe("bash");
+    expect(curl.code).toBe(
+      [
+        'curl -X POST "https://api.petstore.com/v1/pets" \\',
+        '  -H "X-API-Key: YOUR_API_KEY" \\',
+        '  -H "Content-Type: application/json" \\',
+        `  -d '{\n  "name": "string",\n  "tag": "string"\n}'`,
+      ].join("\n")
+    );
+  });
+
+  it("fills path parameters and sends the same request in every language", () => {
+    const samples = generateSnippets(getPet, {
+      ...snippetOptionsFor(getPet, specIndex),
+      languages: SNIPPET_LANGUAGES,
+    });
+    expect(samples.map((s) => s.language)).toEqual(SNIPPET_LANGUAGES);
+    for (const sample of samples) {
+      expect(sample.code).toContain("https://api.petstore.com/v1/pets/string");
+      expect(sample.code).toContain("YOUR_API_KEY");
+    }
+  });
+
+  it("renders Python bodies as Python literals", () => {
+    const [python] = generateSnippets(createPet, {
+      body: { name: "rex", vaccinated: true, owner: null },
+      languages: ["python"],
+    });
+    expect(python.code).toContain("requests.post(");
+    expect(python.code).toContain('"vaccinated": True,');
+    expect(python.code).toContain('"owner": None,');
+  });
+
+  it("writes the Python sample with httpx when asked", () => {
+    const [httpx] = generateSnippets(createPet, { body: { name: "rex" }, languages: ["python-httpx"] });
+    expect(httpx.fence).toBe("python httpx");
+    expect(httpx.code).toContain("import httpx");
+    expect(httpx.code).toContain("response = httpx.post(");
+    expect(httpx.code).toContain("    json={");
+
+    // httpx.delete() takes no body
+    const deletePets = { ...createPet, method: "delete" };
+    const [withBody] = generateSnippets(deletePets, { body: { name: "rex" }, languages: ["python-httpx"] });
+    expect(withBody.code).toContain('response = httpx.request("DELETE", ');
+  });
+
+  it("sends bearer and basic credentials by scheme", () => {
+    const [bearer] = generateSnippets(getPet, {
+      securityScheme: { type: "http", scheme: "bearer" },
+      languages: ["javascript"],
+    });
+    expect(bearer.code).toContain('"Authorization": "Bearer YOUR_TOKEN"');
+
+    const [curl, go] = generateSnippets(getPet, {
+      securityScheme: { type: "http", scheme: "basic" },
+      languages: ["curl", "go"],
+    });
+    expect(curl.code).toContain('-u "USERNAME:PASSWORD"');
+    expect(go.code).toContain('req.SetBasicAuth("USERNAME", "PASSWORD")');
+  });
+
+  it("produces curl samples that pass example validation", () => {
+    const markdown = formatSamplesMarkdown(
+      generateSnippets(createPet, snippetOptionsFor(createPet, specIndex, ["curl"]))
+    );
+    expect(validateExamples(markdown, specIndex)).toEqual([]);
+  });
+
+  it.each<[string, OpenAPIV3.SecuritySchemeObject]>([
+    ["apiKey in a header", { type: "apiKey", name: "X-API-Key", in: "header" }],
+    ["apiKey in the query", { type: "apiKey", name: "api_key", in: "query" }],
+    ["apiKey in a cookie", { type: "apiKey", name: "session", in: "cookie" }],
+    ["http basic", { type: "http", scheme: "basic" }],
+    ["http bearer", { type: "http", scheme: "bearer" }],
+    ["oauth2", { type: "oauth2", flows: {} }],
+  ])("produces curl samples with %s auth that pass example validation", (_, scheme) => {
+    const secured: SpecIndex = { ...specIndex, security: { auth: scheme } };
+    for (const endpoint of [createPet, getPet]) {
+      const unsecured = { ...endpoint, operation: { ...endpoint.operation, security: undefined } };
+      const markdown = formatSamplesMarkdown(
+        generateSnippets(unsecured, snippetOptionsFor(unsecured, secured, ["curl"]))
+      );
+      expect(validateExamples(markdown, secured)).toEqual([]);
+    }
+  });
+
+  it("sends the body in the operation's request media type", () => {
+    const withBody = (mediaType: string, schema: object): EndpointInfo => ({
+      ...createPet,
+      operation: { ...createPet.operation, requestBody: { content: { [mediaType]: { schema } } } },
+    });
+    const login = withBody("application/x-www-form-urlencoded", {
+      type: "object",
+      properties: { username: { type: "string", example: "rex" }, scope: { type: "array", items: { type: "string", example: "read" } } },
+    });
+    const upload = withBody("multipart/form-data", {
+      type: "object",
+      properties: { photo: { type: "string", format: "binary" }, caption: { type: "string", example: "Rex" } },
+    });
+
+    const options = snippetOptionsFor(login, specIndex, SNIPPET_LANGUAGES);
+    expect(options.mediaType).toBe("application/x-www-form-urlencoded");
+    const [curl, python, httpx, javascript, go] = generateSnippets(login, options);
+    expect(curl.code).toContain('-H "Content-Type: application/x-www-form-urlencoded"');
+    expect(curl.code).toContain("--data-urlencode 'username=rex' \\\n  --data-urlencode 'scope=read'");
+    expect(python.code).toContain('    data={\n        "username": "rex",\n        "scope": "read",\n    },');
+    expect(python.code).not.toContain("Content-Type");
+    expect(httpx.code).toContain("    data={");
+    expect(javascript.code).toContain('  body: new URLSearchParams([\n    ["username", "rex"],\n    ["scope", "read"],\n  ]),');
+    expect(go.code).toContain("body := strings.NewReader(`username=rex&scope=read`)");
+
+    const [multipartCurl, multipartPython, , multipartFetch, multipartGo] = generateSnippets(
+      upload,
+      snippetOptionsFor(upload, specIndex, SNIPPET_LANGUAGES)
+    );
+    // The client adds the content type with its boundary
+    expect(multipartCurl.code).not.toContain("Content-Type");
+    expect(multipartCurl.code).toContain("-F 'photo=@path/to/file' \\\n  -F 'caption=Rex'");
+    expect(multipartPython.code).toContain('        ("photo", open("path/to/file", "rb")),\n        ("caption", (None, "Rex")),');
+    expect(multipartFetch.code).toContain('form.append("photo", await openAsBlob("path/to/file"), "file");');
+    expect(multipartFetch.code).toContain("  body: form,");
+    expect(multipartGo.code).toContain('part, err := form.CreateFormFile("photo", "file")');
+    expect(multipartGo.code).toContain('req.Header.Set("Content-Type", form.FormDataContentType())');
+  });
+
+  it("sends other media types as text with their content type", () => {
+    const [curl, python] = generateSnippets(createPet, {
+      body: "<pet><name>Rex</name></pet>",
+      mediaType: "application/xml",
+      languages: ["curl", "python-httpx"],
+    });
+    expect(curl.code).toContain('-H "Content-Type: application/xml"');
+    expect(curl.code).toContain("-d '<pet><name>Rex</name></pet>'");
+    expect(python.code).toContain('"Content-Type": "application/xml"');
+    expect(python.code).toContain('    content="<pet><name>Rex</name></pet>",');
+  });
+
+  it("omits the body and strings import for requests without one", () => {
+    const [go] = generateSnippets(getPet, { languages: ["go"] });
+    expect(go.code).toContain('http.NewRequest("GET", "https://api.example.com/pets/string", nil)');
+    expect(go.code).not.toContain('"strings"');
+  });
+});
+
+describe("insertMissingSamples", () => {
+  const samplesFor = (endpoint: EndpointInfo) =>
+    formatSamplesMarkdown(generateSnippets(endpoint, { languages: ["curl"] }));
+
+  it("adds samples at the end of the subsection that documents an operation", () => {
+    const markdown = "# Pets\n\n## Create a pet\n\n`POST /pets`\n\nCreates a pet.\n\n## Get a pet\n\n`GET /pets/{petId}`\n";
+    const result = insertMissingSamples(markdown, [createPet, getPet], samplesFor);
+
+    const createSection = result.slice(result.indexOf("## Create"), result.indexOf("## Get"));
+    expect(createSection).toContain("<!-- code-samples -->");
+    expect(createSection).toContain('curl -X POST "https://api.example.com/pets"');
+    expect(result.slice(result.indexOf("## Get"))).toContain('curl "https://api.example.com/pets/string"');
+  });
+
+  it("leaves operations that already have samples or aren't mentioned", () => {
+    const markdown = `# Pets\n\n## Create a pet\n\n\`POST /pets\`\n\n${samplesFor(createPet)}\n`;
+    expect(insertMissingSamples(markdown, [createPet, getPet], samplesFor)).toBe(markdown);
+  });
+});
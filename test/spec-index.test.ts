@@ -1,4 +1,4 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { buildSpecIndex } from "../src/spec-index.js";
 import { resolve } from "path";
 
@@ -61,8 +61,114 @@ describe("buildSpecIndex", () => {
     expect(responseSchema.items.properties.name.type).toBe("string");
   });
 
-  it("rejects Swagger 2.0 specs", async () => {
-    // This would need a swagger 2.0 fixture, but we can test the error message
+  it("rejects missing spec files", async () => {
     await expect(buildSpecIndex("/nonexistent.yaml")).rejects.toThrow();
   });
 });
+
+describe("buildSpecIndex with Swagger 2.0", () => {
+  const SWAGGER2_FIXTURE = resolve(import.meta.dirname, "fixtures/petstore-swagger2.yaml");
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("builds servers from host, basePath and schemes", async () => {
+    const index = await buildSpecIndex(SWAGGER2_FIXTURE);
+    expect(index.servers).toEqual([{ url: "https://api.petstore.com/v1" }]);
+  });
+
+  it("indexes endpoints and schemas like an OpenAPI 3 spec", async () => {
+    const index = await buildSpecIndex(SWAGGER2_FIXTURE);
+    expect(index.info.title).toBe("Petstore API");
+    expect(index.tags.map((t) => t.name)).toEqual(["pets", "store"]);
+    expect(index.pathsByTag.get("pets")).toHaveLength(4);
+    expect(index.pathsByTag.get("untagged")![0].path).toBe("/health");
+    expect(Array.from(index.schemas.keys())).toEqual(["Pet", "CreatePetRequest"]);
+  });
+
+  it("converts body parameters to a request body", async () => {
+    const index = await buildSpecIndex(SWAGGER2_FIXTURE);
+    const createPet = index.pathsByTag.get("pets")!.find((e) => e.method === "post" && e.path === "/pets")!;
+    const body = createPet.operation.requestBody as any;
+    expect(body.required).toBe(true);
+    expect(body.content["application/json"].schema.properties.name.type).toBe("string");
+    expect(createPet.operation.parameters).toBeUndefined();
+  });
+
+  it("converts formData parameters to a multipart request body", async () => {
+    const index = await buildSpecIndex(SWAGGER2_FIXTURE);
+    const upload = index.pathsByTag.get("pets")!.find((e) => e.path === "/pets/{petId}/photo")!;
+    const schema = (upload.operation.requestBody as any).content["multipart/form-data"].schema;
+    expect(schema.properties.file).toEqual({ type: "string", format: "binary" });
+    expect(schema.required).toEqual(["file"]);
+  });
+
+  it("converts responses to content keyed by media type", async () => {
+    const index = await buildSpecIndex(SWAGGER2_FIXTURE);
+    const getPet = index.pathsByTag.get("pets")!.find((e) => e.path === "/pets/{petId}")!;
+    const content = (getPet.operation.responses["200"] as any).content;
+    expect(Object.keys(content)).toEqual(["application/json", "application/xml"]);
+    expect(content["application/json"].schema.properties.tag.nullable).toBe(true);
+    expect(getPet.operation.parameters).toEqual([
+      { name: "petId", in: "path", required: true, schema: { type: "string" } },
+    ]);
+  });
+
+  it("converts security definitions to security schemes", async () => {
+    const index = await buildSpecIndex(SWAGGER2_FIXTURE);
+    expect(index.security["apiKey"]).toEqual({ type: "apiKey", name: "X-API-Key", in: "header" });
+    expect(index.security["oauth"]).toMatchObject({
+      type: "oauth2",
+      flows: { authorizationCode: { tokenUrl: "https://auth.petstore.com/token" } },
+    });
+  });
+
+  it("reports conversion warnings to the caller instead of printing them", async () => {
+    let warnings: string[] = [];
+    await buildSpecIndex(SWAGGER2_FIXTURE, { onConvert: (w) => (warnings = w) });
+    expect(console.log).not.toHaveBeenCalled();
+    expect(console.warn).not.toHaveBeenCalled();
+    expect(warnings.some((w) => w.includes("formData"))).toBe(true);
+    expect(warnings.some((w) => w.includes("collectionFormat"))).toBe(true);
+    expect(warnings.some((w) => w.includes("multiple produces"))).toBe(true);
+  });
+});
+
+describe("buildSpecIndex with webhooks and callbacks", () => {
+  const EVENTS_FIXTURE = resolve(import.meta.dirname, "fixtures/events.yaml");
+
+  it("indexes top-level webhooks", async () => {
+    const index = await buildSpecIndex(EVENTS_FIXTURE);
+    expect(index.webhooks).toHaveLength(1);
+    expect(index.webhooks[0].name).toBe("orderCreated");
+    expect(index.webhooks[0].method).toBe("post");
+    const schema = (index.webhooks[0].operation.requestBody as any).content["application/json"].schema;
+    expect(schema.properties.type.type).toBe("string");
+  });
+
+  it("indexes operation callbacks with their registering operation", async () => {
+    const index = await buildSpecIndex(EVENTS_FIXTURE);
+    expect(index.callbacks).toHaveLength(1);
+    const callback = index.callbacks[0];
+    expect(callback.name).toBe("onEvent");
+    expect(callback.expression).toBe("{$request.body#/callbackUrl}");
+    expect(callback.parent).toEqual({
+      path: "/subscriptions",
+      method: "post",
+      operationId: "createSubscription",
+      tags: ["subscriptions"],
+    });
+  });
+
+  it("returns empty lists for specs without webhooks", async () => {
+    const index = await buildSpecIndex(FIXTURE);
+    expect(index.webhooks).toEqual([]);
+    expect(index.callbacks).toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, afterAll, vi } from "vitest";
+import { rm } from "fs/promises";
+import { resolve, join } from "path";
+import { tmpdir } from "os";
+import { createUsageMeter, addUsage, priceUsage, formatUsage } from "../src/usage.js";
+import { createScriptedBackend } from "../src/backends/scripted.js";
+import type { ScriptedRequest } from "../src/backends/scripted.js";
+import type { WriterInput } from "../src/agents/writer.js";
+import { generate } from "../src/generate.js";
+import { estimateGenerate, formatEstimate } from "../src/estimate.js";
+import { readManifest } from "../src/manifest.js";
+import { petDocs } from "./fixtures/pet-docs.js";
+
+const FIXTURE = resolve(import.meta.dirname, "fixtures/petstore.yaml");
+const OUTPUT_DIR = resolve(join(tmpdir(), "opper-docs-usage-test"));
+
+const RUN_USAGE = { requests: 2, inputTokens: 800, outputTokens: 200, totalTokens: 1000, cost: 0.01 };
+
+afterAll(async () => {
+  await rm(OUTPUT_DIR, { recursive: true, force: true });
+});
+
+describe("usage", () => {
+  it("sums usage and keeps the cost unknown only when every part is", () => {
+    const noCost = { requests: 1, inputTokens: 10, outputTokens: 5, totalTokens: 15 };
+    expect(addUsage(noCost, noCost)).toEqual({ requests: 2, inputTokens: 20, outputTokens: 10, totalTokens: 30 });
+    expect(addUsage(noCost, RUN_USAGE).cost).toBe(0.01);
+  });
+
+  it("prices usage the backend didn't", () => {
+    const usage = { requests: 1, inputTokens: 1_000_000, outputTokens: 500_000, totalTokens: 1_500_000 };
+    expect(priceUsage(usage, { input: 2, output: 10 }).cost).toBe(7);
+    expect(priceUsage(RUN_USAGE, { input: 2, output: 10 }).cost).toBe(0.01);
+    expect(formatUsage(RUN_USAGE)).toBe("2 request(s), 1,000 tokens (800 in, 200 out), $0.0100");
+  });
+
+  it("reports when the budget is spent", () => {
+    const meter = createUsageMeter({ maxTokens: 1500 });
+    meter.add(RUN_USAGE);
+    expect(meter.exceeded()).toBeUndefined();
+    meter.add(RUN_USAGE);
+    expect(meter.exceeded()).toMatch(/2,000 tokens used of the 1,500 token budget/);
+  });
+});
+
+describe("generate with a budget", () => {
+  const output = join(OUTPUT_DIR, "budget");
+
+  it("records usage per section and stops starting sections once the budget is spent", async () => {
+    const backend = createScriptedBackend(petDocs, { usage: RUN_USAGE });
+
+    await expect(
+      generate({ spec: FIXTURE, output, mode: "ai", concurrency: 1, maxTokens: 1500 }, { backend })
+    ).rejects.toThrow(/endpoints\/pets\.md.*Budget exceeded: 2,000 tokens used/);
+
+    // Planner, then the overview; the pets page is never started
+    expect(backend.calls.map((c) => c.agent)).toEqual(["doc-planner", "doc-writer"]);
+    const manifest = await readManifest(output);
+    expect(manifest!.planUsage).toEqual(RUN_USAGE);
+    expect(manifest!.sections.overview.usage).toEqual(RUN_USAGE);
+    expect(manifest!.sections["tag:pets"]).toBeUndefined();
+  });
+});
+
+describe("generate with retries", () => {
+  const output = join(OUTPUT_DIR, "retries");
+
+  it("counts the usage of attempts that failed, in the run total and the manifest", async () => {
+    const failedOnce = new Set<string>();
+    // The planner's and the overview writer's first answers don't match their schemas, so they're retried
+    const flaky = (request: ScriptedRequest) => {
+      const key = request.agent === "doc-writer" ? (request.input as WriterInput).section.id : request.agent;
+      if ((key === "doc-planner" || key === "overview") && !failedOnce.has(key)) {
+        failedOnce.add(key);
+        return { sections: "none" };
+      }
+      return petDocs(request);
+    };
+    const backend = createScriptedBackend(flaky, { usage: RUN_USAGE });
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await generate({ spec: FIXTURE, output, mode: "ai" }, { backend });
+    const logged = log.mock.calls.map((c) => String(c[0]));
+    const warned = warn.mock.calls.map((c) => String(c[0]));
+    log.mockRestore();
+    warn.mockRestore();
+
+    expect(warned.some((w) => w.includes("Retrying doc-planner (1/2)"))).toBe(true);
+    expect(warned.some((w) => w.includes("Retrying doc-writer (1/2)"))).toBe(true);
+    // Two planner attempts, two overview attempts and one pets attempt, at 2 requests each
+    expect(logged).toContain("\nUsage: 10 request(s), 5,000 tokens (4,000 in, 1,000 out), $0.0500");
+
+    const twice = addUsage(RUN_USAGE, RUN_USAGE);
+    const manifest = (await readManifest(output))!;
+    expect(manifest.planUsage).toEqual(twice);
+    expect(manifest.sections.overview.usage).toEqual(twice);
+    expect(manifest.sections["tag:pets"].usage).toEqual(RUN_USAGE);
+  });
+});
+
+describe("estimateGenerate", () => {
+  const output = join(OUTPUT_DIR, "estimate");
+
+  it("estimates from spec size before the first run", async () => {
+    const estimate = await estimateGenerate({ spec: FIXTURE, output, mode: "ai" });
+
+    const [root] = estimate.outputs;
+    expect(root.planner?.basis).toBe("input size");
+    // The reference plan stands in for the planner's
+    expect(root.pages.map((p) => p.outputPath)).toContain("endpoints/pets.md");
+    expect(root.pages.every((p) => p.reason === "forced" && p.basis === "input size")).toBe(true);
+    expect(estimate.total.totalTokens).toBeGreaterThan(0);
+    expect(estimate.total.cost).toBeUndefined();
+  });
+
+  it("uses what each page cost last time, and counts nothing while the docs are current", async () => {
+    await generate({ spec: FIXTURE, output, mode: "ai" }, { backend: createScriptedBackend(petDocs, { usage: RUN_USAGE }) });
+
+    const current = await estimateGenerate({ spec: FIXTURE, output, mode: "ai" });
+    expect(current.outputs[0].pages).toEqual([]);
+    expect(current.outputs[0].cached).toBe(2);
+
+    const forced = await estimateGenerate({ spec: FIXTURE, output, mode: "ai", force: true, maxCost: 0.015 });
+    const [root] = forced.outputs;
+    expect(root.planner).toBeUndefined();
+    expect(root.pages.map((p) => [p.outputPath, p.basis])).toEqual([
+      ["index.md", "previous run"],
+      ["endpoints/pets.md", "previous run"],
+    ]);
+    expect(forced.total).toEqual({ requests: 4, inputTokens: 1600, outputTokens: 400, totalTokens: 2000, cost: 0.02 });
+    expect(formatEstimate(forced, { spec: FIXTURE, output, maxCost: 0.015 })).toContain("Exceeds the $0.015 budget.");
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect, afterAll, vi } from "vitest";
+import type { OpenAPIV3 } from "openapi-types";
+import { readFile, rm } from "fs/promises";
+import { buildSpecIndex } from "../src/spec-index.js";
+import { validateExamples, validateValue, formatExampleIssues } from "../src/validate.js";
+import { createScriptedBackend } from "../src/backends/scripted.js";
+import type { ScriptedRequest } from "../src/backends/scripted.js";
+import type { WriterInput } from "../src/agents/writer.js";
+import { generate } from "../src/generate.js";
+import { resolve, join } from "path";
+import { tmpdir } from "os";
+import { petDocs } from "./fixtures/pet-docs.js";
+
+const FIXTURE = resolve(import.meta.dirname, "fixtures/petstore.yaml");
+const OUTPUT_DIR = resolve(join(tmpdir(), "opper-docs-validate-test"));
+
+afterAll(async () => {
+  await rm(OUTPUT_DIR, { recursive: true, force: true });
+});
+
+const fence = "```";
+
+describe("validateExamples", () => {
+  it("accepts examples that match the spec", async () => {
+    const index = await buildSpecIndex(FIXTURE);
+    const markdown = [
+      "## Create a pet",
+      "",
+      "`POST /pets` creates a pet.",
+      "",
+      `${fence}bash`,
+      `curl -X POST https://api.example.com/v1/pets \\`,
+      `  -H "Content-Type: application/json" \\`,
+      `  -d '{"name": "Rex", "tag": "dog"}'`,
+      fence,
+      "",
+      "Response (201):",
+      "",
+      `${fence}json`,
+      `{"id": "p-1", "name": "Rex"}`,
+      fence,
+    ].join("\n");
+
+    expect(validateExamples(markdown, index)).toEqual([]);
+  });
+
+  it("reports request body, response and query violations per block", async () => {
+    const index = await buildSpecIndex(FIXTURE);
+    const markdown = [
+      `${fence}bash`,
+      `curl -X POST https://api.example.com/pets -d '{"tag": 5}'`,
+      fence,
+      "",
+      "Example response:",
+      "",
+      `${fence}json`,
+      `{"id": 12, "name": "Rex"}`,
+      fence,
+      "",
+      `${fence}bash`,
+      `curl "https://api.example.com/pets?limit=ten&sort=name"`,
+      fence,
+    ].join("\n");
+
+    const issues = validateExamples(markdown, index);
+    expect(issues).toEqual([
+      { block: 1, location: "POST /pets request body", message: "$: missing required property 'name'" },
+      { block: 1, location: "POST /pets request body", message: "$.tag: expected string, got integer" },
+      { block: 2, location: "POST /pets response 201", message: "$.id: expected string, got integer" },
+      { block: 3, location: "GET /pets query", message: "limit: expected integer, got string" },
+      { block: 3, location: "GET /pets query", message: "unknown query parameter 'sort'" },
+    ]);
+    expect(formatExampleIssues(issues)[0]).toBe(
+      "Code block 1 (POST /pets request body): $: missing required property 'name'"
+    );
+  });
+
+  it("matches JSON blocks to operations mentioned in prose", async () => {
+    const index = await buildSpecIndex(FIXTURE);
+    const markdown = [
+      "### GET /pets/{petId}",
+      "",
+      "Response 200:",
+      "",
+      `${fence}json`,
+      `{"name": "Rex"}`,
+      fence,
+      "",
+      "Some unrelated JSON:",
+      "",
+      `${fence}json`,
+      `{"anything": true}`,
+      fence,
+      "",
+      "Invalid request body:",
+      "",
+      `${fence}json`,
+      `{"name": }`,
+      fence,
+    ].join("\n");
+
+    const issues = validateExamples(markdown, index);
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toEqual({
+      block: 1,
+      location: "GET /pets/{petId} response 200",
+      message: "$: missing required property 'id'",
+    });
+    expect(issues[1].block).toBe(3);
+    expect(issues[1].message).toMatch(/^Invalid JSON/);
+  });
+});
+
+describe("validateValue", () => {
+  it("checks enums, formats, ranges and composition", () => {
+    expect(validateValue("pending", { type: "string", enum: ["available", "sold"] }, "response"))
+      .toEqual(['$: "pending" is not one of "available", "sold"']);
+    expect(validateValue("yesterday", { type: "string", format: "date-time" }, "response"))
+      .toEqual(['$: "yesterday" is not a valid date-time']);
+    expect(validateValue(0, { type: "integer", minimum: 1 }, "response"))
+      .toEqual(["$: 0 is below minimum 1"]);
+    expect(validateValue(null, { type: "string", nullable: true }, "response")).toEqual([]);
+    expect(
+      validateValue(true, { oneOf: [{ type: "string" }, { type: "integer" }] }, "response")
+    ).toEqual(["$: does not match any of the 2 allowed variants"]);
+  });
+
+  it("requires exactly one oneOf variant to match, but any anyOf variant", () => {
+    const variants: OpenAPIV3.SchemaObject[] = [
+      { type: "object", required: ["name"], properties: { name: { type: "string" } } },
+      { type: "object", required: ["bark"], properties: { bark: { type: "boolean" } } },
+    ];
+    const both = { name: "Rex", bark: true };
+    expect(validateValue(both, { oneOf: variants }, "response")).toEqual([
+      "$: matches 2 oneOf variants, expected exactly one",
+    ]);
+    expect(validateValue({ name: "Rex" }, { oneOf: variants }, "response")).toEqual([]);
+    expect(validateValue(both, { anyOf: variants }, "response")).toEqual([]);
+    expect(
+      validateValue(both, { oneOf: variants, discriminator: { propertyName: "name" } }, "response")
+    ).toEqual([]);
+  });
+
+  it("skips readOnly required properties in requests", () => {
+    const schema = {
+      type: "object" as const,
+      required: ["id", "name"],
+      properties: { id: { type: "string" as const, readOnly: true }, name: { type: "string" as const } },
+    };
+    expect(validateValue({ name: "Rex" }, schema, "request")).toEqual([]);
+    expect(validateValue({ name: "Rex" }, schema, "response")).toEqual([
+      "$: missing required property 'id'",
+    ]);
+  });
+});
+
+const INVALID_CURL = `curl -X POST https://api.example.com/pets -d '{"tag": 5}'`;
+const VALID_CURL = `curl -X POST https://api.example.com/pets -d '{"name": "Rex"}'`;
+
+/** Like `petDocs`, but the pets page's drafts show the given curl commands, one per draft */
+function petDocsWithExamples(curls: string[]) {
+  return (request: ScriptedRequest) => {
+    const input = request.input as WriterInput;
+    if (request.agent !== "doc-writer" || input.section.id !== "tag:pets") return petDocs(request);
+    return { title: "Pets", markdown: `Create a pet:\n\n${fence}bash\n${curls.shift()}\n${fence}\n` };
+  };
+}
+
+function petsDrafts(backend: ReturnType<typeof createScriptedBackend>): WriterInput[] {
+  return backend.calls
+    .filter((c) => c.agent === "doc-writer" && (c.input as WriterInput).section.id === "tag:pets")
+    .map((c) => c.input as WriterInput);
+}
+
+describe("generate with strict examples", () => {
+  it("sends a draft with invalid examples back with the issues until they pass", async () => {
+    const output = join(OUTPUT_DIR, "fixed");
+    const backend = createScriptedBackend(petDocsWithExamples([INVALID_CURL, VALID_CURL]));
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await generate({ spec: FIXTURE, output, mode: "ai", strictExamples: true }, { backend });
+    const warned = warn.mock.calls.map((c) => String(c[0]));
+    warn.mockRestore();
+
+    const drafts = petsDrafts(backend);
+    expect(drafts).toHaveLength(2);
+    expect(drafts[1].draft).toContain(INVALID_CURL);
+    expect(drafts[1].feedback).toEqual([
+      "Code block 1 (POST /pets request body): $: missing required property 'name'",
+      "Code block 1 (POST /pets request body): $.tag: expected string, got integer",
+    ]);
+    expect(await readFile(join(output, "endpoints/pets.md"), "utf-8")).toContain(VALID_CURL);
+    expect(warned.some((w) => w.includes("Example issues"))).toBe(false);
+  });
+
+  it("keeps the last draft and warns when every draft has invalid examples", async () => {
+    const output = join(OUTPUT_DIR, "unfixed");
+    const backend = createScriptedBackend(petDocsWithExamples([INVALID_CURL, INVALID_CURL, INVALID_CURL]));
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await generate({ spec: FIXTURE, output, mode: "ai", strictExamples: true }, { backend });
+    const warned = warn.mock.calls.map((c) => String(c[0]));
+    warn.mockRestore();
+
+    // The first draft and the default two rewrites
+    expect(petsDrafts(backend)).toHaveLength(3);
+    expect(await readFile(join(output, "endpoints/pets.md"), "utf-8")).toContain(INVALID_CURL);
+    expect(warned.find((w) => w.includes("Example issues"))).toContain(
+      "Example issues in Pets (endpoints/pets.md):\n    Code block 1 (POST /pets request body)"
+    );
+  });
+});
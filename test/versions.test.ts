@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdir, readFile, writeFile, rm } from "fs/promises";
+import { resolve, join } from "path";
+import { tmpdir } from "os";
+import { createScriptedBackend } from "../src/backends/scripted.js";
+import type { WriterInput } from "../src/agents/writer.js";
+import { generate } from "../src/generate.js";
+import { readManifest } from "../src/manifest.js";
+import { renderSite } from "../src/renderer.js";
+import type { Config } from "../src/config.js";
+import { petDocs } from "./fixtures/pet-docs.js";
+
+const FIXTURE = resolve(import.meta.dirname, "fixtures/petstore.yaml");
+const OUTPUT_DIR = resolve(join(tmpdir(), "opper-docs-versions-test"));
+const output = join(OUTPUT_DIR, "docs");
+const v2Spec = join(OUTPUT_DIR, "petstore-v2.yaml");
+
+const config: Config = {
+  spec: "",
+  output,
+  mode: "ai",
+  versions: [
+    { version: "v1", spec: FIXTURE },
+    { version: "v2", spec: v2Spec },
+  ],
+};
+
+function writerCalls(backend: ReturnType<typeof createScriptedBackend>): string[] {
+  return backend.calls.filter((c) => c.agent === "doc-writer").map((c) => (c.input as WriterInput).section.id);
+}
+
+beforeAll(async () => {
+  await mkdir(OUTPUT_DIR, { recursive: true });
+  await writeFile(v2Spec, (await readFile(FIXTURE, "utf-8")).replace('version: "1.0.0"', 'version: "2.0.0"'));
+});
+
+afterAll(async () => {
+  await rm(OUTPUT_DIR, { recursive: true, force: true });
+});
+
+describe("generate with versions", () => {
+  it("writes each version with its own manifest and points latest at the last one", async () => {
+    const backend = createScriptedBackend(petDocs);
+    await generate(config, { backend });
+
+    expect(backend.calls.filter((c) => c.agent === "doc-planner")).toHaveLength(2);
+    for (const version of ["v1", "v2"]) {
+      const manifest = (await readManifest(join(output, version)))!;
+      expect(Object.values(manifest.sections).map((s) => s.outputPath)).toEqual(["index.md", "endpoints/pets.md"]);
+    }
+    const root = (await readManifest(output))!;
+    expect(root.versions).toEqual(["v1", "v2"]);
+    expect(root.latestVersion).toBe("v2");
+
+    const siteDir = await renderSite(output);
+    expect(await readFile(join(siteDir, "latest/endpoints/pets.html"), "utf-8")).toContain("Written by the script.");
+  });
+
+  it("regenerates only the version whose spec changed", async () => {
+    const v1 = await readManifest(join(output, "v1"));
+    const spec = await readFile(v2Spec, "utf-8");
+    await writeFile(v2Spec, spec.replace("        tag:\n          type: string\n", "$&        age:\n          type: integer\n"));
+
+    const backend = createScriptedBackend(petDocs);
+    await generate({ ...config, latestVersion: "v1" }, { backend });
+
+    // v1 is skipped whole; v2 keeps its plan and rewrites the page that uses Pet
+    expect(backend.calls.map((c) => c.agent)).toEqual(["doc-writer"]);
+    expect(writerCalls(backend)).toEqual(["tag:pets"]);
+    expect(await readManifest(join(output, "v1"))).toEqual(v1);
+    expect((await readManifest(output))!.latestVersion).toBe("v1");
+  });
+});